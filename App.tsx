@@ -1,23 +1,71 @@
 
-import React, { useState, useRef } from 'react';
-import { PipelineStage, DocumentChunk, EmbeddingVector, ClusterPoint, GraphData, EmbeddingModelType, CNNHyperParameters, TrainingMetrics, RAGStepLog, ChatMessage } from './types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { PipelineStage, DocumentChunk, EmbeddingVector, ClusterPoint, GraphData, EmbeddingProvider, EmbeddingProviderConfig, EmbeddingModelInfo, LLMProviderConfig, ChunkingStrategyId, ChunkingParams, SimilarityEdgeParams, EntityMergeSuggestion, CommunityDetectionParams, CNNHyperParameters, TrainingMetrics, RAGStepLog, ChatMessage, RAGSearchMode, GlobalSearchPoint, GraphExpansionParams, HybridRetrievalParams, RerankParams, RetrievalCandidate, CRAGParams, ExternalDocument, ContextPassage, AnswerCitation, FaithfulnessParams, FaithfulnessReport, ConversationMemory, AgentParams, QueryExpansionParams, ProjectSnapshot, ProjectSummary, CorpusChangeSummary } from './types';
 import { 
-  processRealPDFsToChunks, 
   generateClustersFromEmbeddings, 
-  generateGraphFromClusters 
+  generateGraphFromClusters,
+  DEFAULT_SIMILARITY_EDGE_PARAMS
 } from './services/mockDataService';
-import { enhanceChunksWithAI, generateRealEmbeddingsWithGemini, generateHyDEAnswer, generateSingleEmbedding, evaluateChunkRelevance, generateRAGResponse } from './services/geminiService';
+import { runChunkingStrategy, getDefaultChunkingParams } from './services/chunkingService';
+import { enhanceChunksWithAI, generateHyDEAnswer, generateRAGResponse } from './services/geminiService';
+import { createLLMProvider, getDefaultLLMConfig, setActiveLLMProvider, getActiveLLMProvider } from './services/llmService';
+import { createEmbeddingProvider, createEmbeddingProviderForModel, getDefaultEmbeddingConfig, describeEmbeddingProvider, formatEmbeddingModel, generateEmbeddings, generateSingleEmbedding } from './services/embeddingService';
 import { trainCNNWithTripletLoss, cosineSimilarity } from './services/cnnRefinementService';
 import { extractTextFromPDF } from './services/pdfService';
-import { downloadCSV } from './services/exportService';
+import { downloadCSV, downloadBlob } from './services/exportService';
+import { buildProjectBundle, parseProjectBundle, bundleFilename } from './services/bundleService';
+import { resetCacheStats, formatCacheStats } from './services/cacheService';
 import { generateTechnicalReport } from './services/reportService';
 import PipelineProgress from './components/PipelineProgress';
 import FullContentModal from './components/FullContentModal';
 import ForceGraph, { ForceGraphRef } from './components/charts/ForceGraph';
 import GraphMetricsDashboard from './components/GraphMetricsDashboard';
 import ClusterAnalysisPanel from './components/ClusterAnalysisPanel';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
+import ChunkingStrategyPanel from './components/ChunkingStrategyPanel';
+import ChunkingComparisonPanel from './components/ChunkingComparisonPanel';
+import GraphConstructionPanel from './components/GraphConstructionPanel';
+import { extractKnowledgeFromChunks, mergeKnowledgeIntoGraph } from './services/knowledgeGraphService';
+import { buildAliasTable, applyMergeSuggestion, resolveTerm } from './services/entityResolutionService';
+import EntityResolutionPanel from './components/EntityResolutionPanel';
+import { applyCommunityDetection, DEFAULT_COMMUNITY_DETECTION_PARAMS } from './services/communityDetectionService';
+import { buildCommunityReports, getTopLevelReports } from './services/communitySummaryService';
+import { mapCommunityReports, reduceGlobalAnswer, formatGlobalPoints } from './services/globalSearchService';
+import { expandFromSeeds, formatExpansionPath, DEFAULT_GRAPH_EXPANSION_PARAMS } from './services/graphTraversalService';
+import { buildBM25Index, searchBM25, fuseRankings, fuseRankLists, formatCandidateRanks, DEFAULT_HYBRID_RETRIEVAL_PARAMS } from './services/lexicalSearchService';
+import { generateMultiQueries, decomposeQuery, QUERY_EXPANSION_LABELS, DEFAULT_QUERY_EXPANSION_PARAMS } from './services/queryExpansionService';
+import { rerankCandidates, DEFAULT_RERANK_PARAMS } from './services/rerankService';
+import { gradeDocuments, decideCRAGAction, refineKnowledge, rewriteQuery, searchExternalDocuments, CRAG_ACTION_LABELS, DEFAULT_CRAG_PARAMS } from './services/cragService';
+import RetrievalSettingsPanel from './components/RetrievalSettingsPanel';
+import CitedAnswer from './components/CitedAnswer';
+import { extractCitations } from './services/citationService';
+import { listProjects, saveProject, loadProject, renameProject, deleteProject, createProjectId, isProjectStoreAvailable } from './services/projectStoreService';
+import ProjectPickerPanel, { ProjectSaveStatus } from './components/ProjectPickerPanel';
+import { applyCorpusUpdate } from './services/incrementalUpdateService';
+import CorpusUpdatePanel from './components/CorpusUpdatePanel';
+import { verifyAnswer, DEFAULT_FAITHFULNESS_PARAMS } from './services/faithfulnessService';
+import { runAgent, DEFAULT_AGENT_PARAMS } from './services/agentService';
+import { condenseQuery, updateConversationMemory, withConversationSummary, EMPTY_CONVERSATION_MEMORY } from './services/conversationService';
 import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 
+const RAG_MODE_LABELS: Record<RAGSearchMode, string> = {
+  local: 'Local',
+  global: 'Global',
+  hybrid: 'Híbrido',
+  naive: 'Naive',
+  agentic: 'Agente'
+};
+
+const RAG_MODE_HINTS: Record<RAGSearchMode, string> = {
+  local: 'HyDE + CRAG + vizinhança no grafo (perguntas específicas)',
+  global: 'Map-reduce sobre relatórios de comunidade (temas do corpus)',
+  hybrid: 'Trechos locais + pontos dos relatórios de comunidade',
+  naive: 'Somente similaridade vetorial (linha de base)',
+  agentic: 'O LLM escolhe as ferramentas (vetor, BM25, grafo, comunidades, rótulo) passo a passo'
+};
+
+const CHECKPOINT_DELAY_MS = 800; // Agrupa atualizações de estado encadeadas num único checkpoint
+
 const App: React.FC = () => {
   // State
   const [stage, setStage] = useState<PipelineStage>(PipelineStage.UPLOAD);
@@ -30,11 +78,26 @@ const App: React.FC = () => {
   // Stats
   const [totalCharsExtracted, setTotalCharsExtracted] = useState<number>(0);
 
+  // Chunking: textos extraídos ficam em memória para re-segmentar/comparar sem novo upload
+  const [rawDocs, setRawDocs] = useState<{ filename: string, text: string }[]>([]);
+  const [chunkingStrategyId, setChunkingStrategyId] = useState<ChunkingStrategyId>('structure-aware');
+  const [chunkingParams, setChunkingParams] = useState<Partial<Record<ChunkingStrategyId, ChunkingParams>>>({});
+  const [showChunkComparison, setShowChunkComparison] = useState(false);
+
   // Refs
   const graphRef = useRef<ForceGraphRef>(null);
 
-  // Settings
-  const embeddingModel: EmbeddingModelType = 'text-embedding-004';
+  // Settings (Provedor de Embedding)
+  const [embeddingConfig, setEmbeddingConfig] = useState<EmbeddingProviderConfig>(getDefaultEmbeddingConfig);
+  // Provedor efetivamente usado na vetorização: as queries do RAG Lab devem usar o mesmo espaço vetorial
+  const [embeddingProvider, setEmbeddingProvider] = useState<EmbeddingProvider | null>(null);
+  const [embeddingModel, setEmbeddingModel] = useState<EmbeddingModelInfo | null>(null);
+
+  // Settings (Provedor de LLM): aplicado globalmente aos serviços de HyDE, CRAG, enriquecimento e geração
+  const [llmConfig, setLlmConfig] = useState<LLMProviderConfig>(getDefaultLLMConfig);
+  useEffect(() => {
+    setActiveLLMProvider(createLLMProvider(llmConfig));
+  }, [llmConfig]);
   
   // CNN
   const [cnnParams, setCnnParams] = useState<CNNHyperParameters>({
@@ -45,11 +108,26 @@ const App: React.FC = () => {
     optimizer: 'adamw'
   });
   const [trainingMetrics, setTrainingMetrics] = useState<TrainingMetrics | null>(null);
+
+  // Graph: arestas kNN sobre os embeddings refinados
+  const [similarityEdgeParams, setSimilarityEdgeParams] = useState<SimilarityEdgeParams>(DEFAULT_SIMILARITY_EDGE_PARAMS);
+  const [extractEntities, setExtractEntities] = useState(true);
+  const [communityParams, setCommunityParams] = useState<CommunityDetectionParams>(DEFAULT_COMMUNITY_DETECTION_PARAMS);
+
+  // Resolução de Entidades: tabela canônica derivada das keywords + fusões aceitas pelo usuário
+  const [acceptedMerges, setAcceptedMerges] = useState<EntityMergeSuggestion[]>([]);
+  const aliasTable = useMemo(
+    () => acceptedMerges.reduce(applyMergeSuggestion, buildAliasTable(chunks.flatMap(c => c.keywords || []))),
+    [chunks, acceptedMerges]
+  );
+  const bm25Index = useMemo(() => buildBM25Index(chunks.map(c => ({ id: c.id, text: c.content }))), [chunks]);
+  const chunkSourceById = useMemo(() => new Map(chunks.map(c => [c.id, c.source])), [chunks]);
   
   // Processing
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingStatus, setProcessingStatus] = useState("Processando...");
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const [chunkingWarnings, setChunkingWarnings] = useState<string[]>([]); // Degradações da última segmentação (ex: breakpoints com embedder local)
   const [aiEnhanced, setAiEnhanced] = useState(false);
   
   // Modal
@@ -62,9 +140,91 @@ const App: React.FC = () => {
   const [userQuery, setUserQuery] = useState('');
   const [ragLogs, setRagLogs] = useState<RAGStepLog[]>([]);
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  const [conversationMemory, setConversationMemory] = useState<ConversationMemory>(EMPTY_CONVERSATION_MEMORY);
   const [isRagThinking, setIsRagThinking] = useState(false);
+  const [streamingAnswer, setStreamingAnswer] = useState<string | null>(null); // Resposta parcial durante o stream
+  const ragAbortRef = useRef<AbortController | null>(null);
+  const [citedNodeIds, setCitedNodeIds] = useState<string[]>([]);
+  const [showEvidenceGraph, setShowEvidenceGraph] = useState(false);
+  const [ragMode, setRagMode] = useState<RAGSearchMode>('local');
+  const [graphExpansionParams, setGraphExpansionParams] = useState<GraphExpansionParams>(DEFAULT_GRAPH_EXPANSION_PARAMS);
+  const [hybridParams, setHybridParams] = useState<HybridRetrievalParams>(DEFAULT_HYBRID_RETRIEVAL_PARAMS);
+  const [rerankParams, setRerankParams] = useState<RerankParams>(DEFAULT_RERANK_PARAMS);
+  const [cragParams, setCragParams] = useState<CRAGParams>(DEFAULT_CRAG_PARAMS);
+  const [externalDocuments, setExternalDocuments] = useState<ExternalDocument[]>([]);
+  const [faithfulnessParams, setFaithfulnessParams] = useState<FaithfulnessParams>(DEFAULT_FAITHFULNESS_PARAMS);
+  const [agentParams, setAgentParams] = useState<AgentParams>(DEFAULT_AGENT_PARAMS);
+  const [queryExpansionParams, setQueryExpansionParams] = useState<QueryExpansionParams>(DEFAULT_QUERY_EXPANSION_PARAMS);
+
+  // Última atualização incremental do corpus (services/incrementalUpdateService.ts)
+  const [corpusChangeSummary, setCorpusChangeSummary] = useState<CorpusChangeSummary | null>(null);
+
+  // Projetos (IndexedDB): checkpoint automático ao fim de cada etapa do pipeline
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [activeProject, setActiveProject] = useState<{ id: string, name: string } | null>(null);
+  const [projectSaveStatus, setProjectSaveStatus] = useState<ProjectSaveStatus>('idle');
+  const savedEmbeddingsRef = useRef<EmbeddingVector[] | null>(null); // Vetores já gravados (evita regravar a cada pergunta)
+  const skipCheckpointRef = useRef(false); // Estado recém-carregado não precisa ser salvo de novo
 
   // --- Handlers existentes (Upload, CNN, Cluster, Graph) ---
+  const chunkDocuments = (docs: { filename: string, text: string }[], onWarning?: (message: string) => void) => runChunkingStrategy(
+    chunkingStrategyId,
+    docs,
+    chunkingParams[chunkingStrategyId] || getDefaultChunkingParams(chunkingStrategyId),
+    chunkingStrategyId === 'semantic-breakpoint' ? createEmbeddingProvider(embeddingConfig) : undefined,
+    onWarning
+  );
+
+  // Novos chunks têm ids novos: vetores, clusters, grafo e treino derivados dos anteriores deixam de valer
+  const resetDerivedState = () => {
+    setEmbeddings([]);
+    setEmbeddingModel(null);
+    setClusters([]);
+    setGraphData(null);
+    setTrainingMetrics(null);
+    setHighlightedClusters([]);
+    setRagLogs([]);
+    setCitedNodeIds([]);
+    setCorpusChangeSummary(null);
+    setStage(PipelineStage.UPLOAD);
+  };
+
+  const handleRechunk = async () => {
+    if (rawDocs.length === 0) return;
+    setIsProcessing(true);
+    setProcessingStatus("Re-segmentando documentos...");
+    setUploadError(null);
+    try {
+      const warnings: string[] = [];
+      setChunks(await chunkDocuments(rawDocs, message => warnings.push(message)));
+      setChunkingWarnings(warnings);
+      setAiEnhanced(false);
+      resetDerivedState();
+    } catch (err) {
+      console.error(err);
+      setUploadError("Erro ao re-segmentar documentos.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Consultas e vetores novos usam o modelo que gerou o índice, mesmo após reabrir um projeto
+  const getCorpusEmbeddingProvider = (): EmbeddingProvider =>
+    embeddingProvider || (embeddingModel ? createEmbeddingProviderForModel(embeddingModel, embeddingConfig) : createEmbeddingProvider(embeddingConfig));
+
+  const extractDocuments = async (files: File[]) => {
+    const docs: { filename: string, text: string, pageCount: number }[] = [];
+    for (const file of files) {
+      if (file.type === "application/pdf") {
+        docs.push(await extractTextFromPDF(file));
+      } else {
+         const text = await file.text();
+         docs.push({ filename: file.name, text: text, pageCount: 1 });
+      }
+    }
+    return docs;
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     if (!event.target.files || event.target.files.length === 0) return;
     setIsProcessing(true);
@@ -73,27 +233,22 @@ const App: React.FC = () => {
     setAiEnhanced(false);
     setTotalCharsExtracted(0);
     try {
-      const files = Array.from(event.target.files);
-      const extractedDocs = [];
-      let totalChars = 0;
-      for (const file of files) {
-        if (file.type === "application/pdf") {
-          const processed = await extractTextFromPDF(file);
-          totalChars += processed.text.length;
-          extractedDocs.push(processed);
-        } else {
-           const text = await file.text();
-           totalChars += text.length;
-           extractedDocs.push({ filename: file.name, text: text, pageCount: 1 });
-        }
-      }
-      const generatedChunks = processRealPDFsToChunks(extractedDocs);
+      const extractedDocs = await extractDocuments(Array.from(event.target.files));
+      const totalChars = extractedDocs.reduce((sum, doc) => sum + doc.text.length, 0);
+      setProcessingStatus("Segmentando documentos...");
+      const warnings: string[] = [];
+      const generatedChunks = await chunkDocuments(extractedDocs, message => warnings.push(message));
+      setChunkingWarnings(warnings);
       if (generatedChunks.length === 0) {
         setUploadError("Nenhum conteúdo de texto pôde ser extraído dos arquivos.");
       } else {
+        // Novos documentos iniciam um novo projeto (o anterior permanece salvo)
+        setActiveProject(null);
+        savedEmbeddingsRef.current = null;
+        setRawDocs(extractedDocs);
         setTotalCharsExtracted(totalChars);
         setChunks(generatedChunks);
-        setStage(PipelineStage.UPLOAD);
+        resetDerivedState();
       }
     } catch (err) {
       console.error(err);
@@ -103,19 +258,61 @@ const App: React.FC = () => {
     }
   };
 
+  // Atualização incremental: só documentos novos/alterados são segmentados, enriquecidos e vetorizados
+  const handleIncrementalUpdate = async (files: File[], removeMissing: boolean) => {
+    if (files.length === 0) return;
+    setIsProcessing(true);
+    setProcessingStatus("Lendo arquivos e comparando com o corpus...");
+    setUploadError(null);
+    resetCacheStats('enrichment');
+    resetCacheStats('embedding');
+    try {
+      const incoming = await extractDocuments(files);
+      const result = await applyCorpusUpdate(
+        { rawDocs, chunks, embeddings, clusters, graphData },
+        incoming,
+        {
+          removeMissing,
+          enrich: aiEnhanced,
+          refined: trainingMetrics !== null,
+          embeddingProvider: getCorpusEmbeddingProvider(),
+          corpusModel: embeddingModel,
+          similarityParams: similarityEdgeParams,
+          aliasTable,
+          chunkDocuments,
+          onStatus: setProcessingStatus
+        }
+      );
+      setRawDocs(result.state.rawDocs);
+      setTotalCharsExtracted(result.state.rawDocs.reduce((sum, doc) => sum + doc.text.length, 0));
+      setChunks(result.state.chunks);
+      setEmbeddings(result.state.embeddings);
+      setClusters(result.state.clusters);
+      setGraphData(result.state.graphData);
+      setCorpusChangeSummary(result.summary);
+    } catch (err) {
+      console.error(err);
+      alert(`Erro na atualização incremental do corpus: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   const handleEnhanceWithAI = async () => {
     if (chunks.length === 0) return;
     setIsProcessing(true);
-    setProcessingStatus("Gemini AI: Limpando texto e identificando entidades...");
+    const llmName = getActiveLLMProvider().name;
+    setProcessingStatus(`${llmName}: Limpando texto e identificando entidades...`);
+    resetCacheStats('enrichment');
     try {
       const enhanced = await enhanceChunksWithAI(chunks, (progress) => {
-        setProcessingStatus(`Gemini AI: Processando chunks... ${progress}%`);
+        setProcessingStatus(`${llmName}: Processando chunks... ${progress}% | ${formatCacheStats('enrichment')}`);
       });
       setChunks(enhanced);
       setAiEnhanced(true);
     } catch (err) {
       console.error("Erro na IA", err);
-      setUploadError("Falha ao conectar com Gemini API.");
+      setUploadError("Falha ao conectar com o provedor de LLM.");
     } finally {
       setIsProcessing(false);
     }
@@ -127,15 +324,19 @@ const App: React.FC = () => {
     setTrainingMetrics(null); 
     await new Promise(r => setTimeout(r, 100));
     try {
-        setProcessingStatus("Gerando Embeddings Reais via Gemini API (High-Fidelity)...");
-        const embeds = await generateRealEmbeddingsWithGemini(chunks, (progress) => {
-            setProcessingStatus(`Gerando vetores (text-embedding-004)... ${progress}%`);
+        const provider = createEmbeddingProvider(embeddingConfig);
+        setProcessingStatus(`Gerando Embeddings via ${provider.name}...`);
+        resetCacheStats('embedding');
+        const embeds = await generateEmbeddings(chunks, provider, (progress) => {
+            setProcessingStatus(`Gerando vetores (${provider.model})... ${progress}% | ${formatCacheStats('embedding')}`);
         });
+        setEmbeddingProvider(provider);
+        setEmbeddingModel(describeEmbeddingProvider(provider));
         setEmbeddings(embeds);
         setStage(PipelineStage.EMBEDDINGS);
     } catch (e) {
         console.error(e);
-        setUploadError("Erro na geração de embeddings.");
+        setUploadError(`Erro na geração de embeddings: ${e instanceof Error ? e.message : String(e)}`);
     } finally {
         setIsProcessing(false);
     }
@@ -171,15 +372,46 @@ const App: React.FC = () => {
     }, 800);
   };
 
-  const handleBuildGraph = () => {
+  const handleBuildGraph = async () => {
     setIsProcessing(true);
     setProcessingStatus("Construindo grafo de conhecimento...");
-    setTimeout(() => {
-        const graph = generateGraphFromClusters(clusters);
+    try {
+        let graph = generateGraphFromClusters(clusters, chunks, embeddings, similarityEdgeParams, aliasTable);
+        if (extractEntities) {
+            const llmName = getActiveLLMProvider().name;
+            const knowledge = await extractKnowledgeFromChunks(chunks, (progress) => {
+                setProcessingStatus(`${llmName}: Extraindo entidades e relações... ${progress}%`);
+            }, aliasTable);
+            graph = mergeKnowledgeIntoGraph(graph, knowledge);
+        }
+        setProcessingStatus("Detectando comunidades...");
+        graph = applyCommunityDetection(graph, communityParams);
         setGraphData(graph);
         setStage(PipelineStage.GRAPH);
+    } catch (err) {
+        console.error("Erro na construção do grafo", err);
+        setUploadError("Falha na construção do grafo de conhecimento.");
+    } finally {
         setIsProcessing(false);
-    }, 1000);
+    }
+  };
+
+  const handleSummarizeCommunities = async () => {
+    if (!graphData) return;
+    setIsProcessing(true);
+    const llmName = getActiveLLMProvider().name;
+    setProcessingStatus(`${llmName}: Resumindo comunidades...`);
+    try {
+        const reports = await buildCommunityReports(graphData, (progress) => {
+            setProcessingStatus(`${llmName}: Resumindo comunidades... ${progress}%`);
+        });
+        setGraphData({ ...graphData, communityReports: reports });
+    } catch (err) {
+        console.error("Erro nos relatórios de comunidade", err);
+        setUploadError("Falha ao gerar os relatórios de comunidade.");
+    } finally {
+        setIsProcessing(false);
+    }
   };
 
   const handleGenerateReport = () => {
@@ -188,6 +420,172 @@ const App: React.FC = () => {
     setReportOpen(true);
   };
 
+  // --- PROJETOS (INDEXEDDB) ---
+
+  const refreshProjects = () => listProjects().then(setProjects).catch(err => console.error("Erro ao listar projetos", err));
+
+  useEffect(() => {
+    if (isProjectStoreAvailable()) refreshProjects();
+  }, []);
+
+  const buildProjectSnapshot = (): ProjectSnapshot => ({
+    stage, rawDocs, totalCharsExtracted, chunkingStrategyId, aiEnhanced, chunks, embeddings, embeddingConfig, embeddingModel,
+    clusters, graphData, acceptedMerges, chatHistory, conversationMemory
+  });
+
+  const checkpointProject = async () => {
+    const project = activeProject || {
+        id: createProjectId(),
+        name: rawDocs.length > 1 ? `${rawDocs[0].filename} (+${rawDocs.length - 1})` : rawDocs[0]?.filename || 'Projeto sem título'
+    };
+    if (!activeProject) setActiveProject(project);
+    setProjectSaveStatus('saving');
+    try {
+        await saveProject(project.id, project.name, buildProjectSnapshot(), { includeVectors: savedEmbeddingsRef.current !== embeddings });
+        savedEmbeddingsRef.current = embeddings;
+        setProjectSaveStatus('saved');
+        refreshProjects();
+    } catch (err) {
+        console.error("Erro ao salvar o projeto", err);
+        setProjectSaveStatus('error');
+    }
+  };
+
+  // Checkpoint ao fim de cada etapa: estados intermediários (épocas da CNN, stream do RAG) não são gravados
+  useEffect(() => {
+    if (!isProjectStoreAvailable() || isProcessing || isRagThinking || chunks.length === 0) return;
+    if (skipCheckpointRef.current) {
+        skipCheckpointRef.current = false;
+        return;
+    }
+    const timer = setTimeout(checkpointProject, CHECKPOINT_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [stage, chunks, embeddings, clusters, graphData, acceptedMerges, chatHistory, isProcessing, isRagThinking]);
+
+  // Restaura o workspace a partir de um projeto salvo ou importado
+  const applyProjectSnapshot = (snapshot: ProjectSnapshot, targetStage: PipelineStage) => {
+    setRawDocs(snapshot.rawDocs);
+    setTotalCharsExtracted(snapshot.totalCharsExtracted);
+    setChunkingStrategyId(snapshot.chunkingStrategyId);
+    setAiEnhanced(snapshot.aiEnhanced);
+    setChunks(snapshot.chunks);
+    setEmbeddings(snapshot.embeddings);
+    // A API key do navegador atual é mantida; o provedor é recriado sob demanda com o modelo do projeto
+    setEmbeddingConfig(prev => ({ ...snapshot.embeddingConfig, apiKey: prev.apiKey }));
+    setEmbeddingProvider(null);
+    setEmbeddingModel(snapshot.embeddingModel);
+    setClusters(snapshot.clusters);
+    setGraphData(snapshot.graphData);
+    setCorpusChangeSummary(null);
+    setChunkingWarnings([]);
+    setAcceptedMerges(snapshot.acceptedMerges);
+    setChatHistory(snapshot.chatHistory);
+    setConversationMemory(snapshot.conversationMemory);
+    setTrainingMetrics(null);
+    setHighlightedClusters([]);
+    setRagLogs([]);
+    setCitedNodeIds([]);
+    setStage(targetStage);
+  };
+
+  const handleOpenProject = async (id: string, targetStage: PipelineStage) => {
+    setIsProcessing(true);
+    setProcessingStatus("Carregando projeto...");
+    setUploadError(null);
+    try {
+        const { summary, snapshot } = await loadProject(id);
+        skipCheckpointRef.current = true;
+        savedEmbeddingsRef.current = snapshot.embeddings;
+        setActiveProject({ id, name: summary.name });
+        setProjectSaveStatus('saved');
+        applyProjectSnapshot(snapshot, targetStage);
+    } catch (err) {
+        console.error("Erro ao abrir o projeto", err);
+        setUploadError(`Falha ao abrir o projeto: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+        setIsProcessing(false);
+    }
+  };
+
+  // Pacote portátil: vetores completos + configuração do pipeline, para reabrir o mesmo grafo em outra máquina
+  const handleExportBundle = () => {
+    const name = activeProject?.name || rawDocs[0]?.filename || 'Projeto sem título';
+    try {
+        const bundle = buildProjectBundle(
+            name,
+            buildProjectSnapshot(),
+            { chunkingParams, cnnParams, similarityEdgeParams, communityParams, extractEntities },
+            trainingMetrics
+        );
+        downloadBlob(bundle, bundleFilename(name));
+    } catch (err) {
+        console.error("Erro ao exportar o pacote", err);
+        alert(`Falha ao exportar o pacote: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleImportBundle = async (file: File) => {
+    setIsProcessing(true);
+    setProcessingStatus("Validando pacote do projeto...");
+    try {
+        const bundle = await parseProjectBundle(new Uint8Array(await file.arrayBuffer()));
+        // O pacote vira um novo projeto local (salvo pelo próximo checkpoint)
+        setActiveProject({ id: createProjectId(), name: bundle.name });
+        savedEmbeddingsRef.current = null;
+        setProjectSaveStatus('idle');
+        applyProjectSnapshot(bundle.snapshot, bundle.snapshot.stage);
+        if (bundle.pipeline.chunkingParams) setChunkingParams(bundle.pipeline.chunkingParams);
+        if (bundle.pipeline.cnnParams) setCnnParams(bundle.pipeline.cnnParams);
+        if (bundle.pipeline.similarityEdgeParams) setSimilarityEdgeParams(bundle.pipeline.similarityEdgeParams);
+        if (bundle.pipeline.communityParams) setCommunityParams(bundle.pipeline.communityParams);
+        if (typeof bundle.pipeline.extractEntities === 'boolean') setExtractEntities(bundle.pipeline.extractEntities);
+        setTrainingMetrics(bundle.trainingMetrics);
+    } catch (err) {
+        console.error("Erro ao importar o pacote", err);
+        alert(`Falha ao importar o pacote: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+        setIsProcessing(false);
+    }
+  };
+
+  const handleNewProject = () => {
+    setActiveProject(null);
+    savedEmbeddingsRef.current = null;
+    setProjectSaveStatus('idle');
+    setRawDocs([]);
+    setTotalCharsExtracted(0);
+    setAiEnhanced(false);
+    setChunks([]);
+    setEmbeddingProvider(null);
+    setAcceptedMerges([]);
+    setChatHistory([]);
+    setConversationMemory(EMPTY_CONVERSATION_MEMORY);
+    setUploadError(null);
+    setChunkingWarnings([]);
+    resetDerivedState();
+  };
+
+  const handleRenameProject = (name: string) => {
+    if (!activeProject) return;
+    setActiveProject({ ...activeProject, name });
+    renameProject(activeProject.id, name).then(refreshProjects).catch(err => console.error("Erro ao renomear o projeto", err));
+  };
+
+  // Excluir o projeto aberto apenas o desvincula: o próximo checkpoint cria um novo projeto
+  const handleDeleteProject = async (id: string) => {
+    try {
+        await deleteProject(id);
+        if (activeProject?.id === id) {
+            setActiveProject(null);
+            savedEmbeddingsRef.current = null;
+            setProjectSaveStatus('idle');
+        }
+        refreshProjects();
+    } catch (err) {
+        console.error("Erro ao excluir o projeto", err);
+    }
+  };
+
   // --- CSV EXPORT HANDLERS (GRANULAR) ---
 
   const handleExportChunks = () => {
@@ -197,6 +595,8 @@ const App: React.FC = () => {
           Tipo: c.entityType,
           Rotulo: c.entityLabel,
           Tokens: c.tokens,
+          Pai_ID: c.parentId || '',
+          Hierarquia: c.hierarchyPath ? c.hierarchyPath.join(' > ') : '',
           Conteudo_Completo: c.content
       }));
       downloadCSV(data, `Etapa1_Chunks_${new Date().toISOString().split('T')[0]}.csv`);
@@ -241,10 +641,11 @@ const App: React.FC = () => {
             Tipo_IA: chunk.entityType || 'N/A',
             Rotulo: chunk.entityLabel || 'N/A',
             Palavras_Chave: chunk.keywords ? chunk.keywords.join('; ') : '',
+            Palavras_Chave_Canonicas: chunk.keywords ? Array.from(new Set(chunk.keywords.map(k => resolveTerm(aliasTable, k)))).join('; ') : '',
             Conteudo_Preview: chunk.content.substring(0, 250).replace(/(\r\n|\n|\r)/gm, " "),
             Tokens: chunk.tokens,
-            Provedor_IA: "Google Gemini",
-            Modelo_Embedding: embedding?.modelUsed || embeddingModel,
+            Provedor_IA: embeddingModel?.providerId || 'N/A',
+            Modelo_Embedding: embedding?.modelUsed || (embeddingModel ? formatEmbeddingModel(embeddingModel) : 'N/A'),
             Dim_Embedding: embedding?.vector.length || 0,
             Vetor_Sample: vectorSample,
             Cluster_ID: cluster ? cluster.clusterId : -1,
@@ -254,107 +655,451 @@ const App: React.FC = () => {
             Grafo_Centralidade: graphNode ? graphNode.centrality.toFixed(5) : 0,
             Grau_Arestas: degree,
             Palavras_Grafo: graphNode?.keywords ? graphNode.keywords.join('; ') : '',
+            Entidades: graphData.knowledge ? graphData.knowledge.entities.filter(e => e.mentions.includes(chunk.id)).map(e => `${e.name} (${e.type})`).join('; ') : '',
             Etapa_Atual: "GRAFO_CONCLUIDO"
         };
     });
     downloadCSV(unifiedData, `GraphRAG_Dataset_Completo_${new Date().toISOString().split('T')[0]}.csv`);
   };
 
+  const handleExportAliases = () => {
+      const data = aliasTable.entries.map(e => ({
+          Forma_Canonica: e.canonical,
+          Tipo: e.kind,
+          Ocorrencias: e.occurrences,
+          Aliases: e.aliases.join('; ')
+      }));
+      downloadCSV(data, `Tabela_Aliases_${new Date().toISOString().split('T')[0]}.csv`);
+  };
+
+  const handleExportCommunityReports = () => {
+      if (!graphData?.communityReports) return;
+      const data = graphData.communityReports.map(r => ({
+          Relatorio_ID: r.id,
+          Nivel: r.level,
+          Comunidade: r.communityId,
+          Titulo: r.title,
+          Resumo: r.summary,
+          Entidades_Chave: r.keyEntities.join('; '),
+          Achados: r.findings.map(f => `${f.summary}: ${f.explanation}`).join(' | '),
+          Nota: r.rating,
+          Justificativa_Nota: r.ratingExplanation,
+          Subcomunidades: r.childIds.join('; '),
+          Metodo: r.method,
+          Nos: r.nodeIds.join('; ')
+      }));
+      downloadCSV(data, `Relatorios_Comunidades_${new Date().toISOString().split('T')[0]}.csv`);
+  };
+
   const openModal = (title: string, content: string) => {
     setModalContent({ title, text: content });
     setModalOpen(true);
   };
 
+  // Chip de citação: abre o trecho citado e destaca o nó correspondente no grafo de evidências
+  const handleCitationClick = (citation: AnswerCitation) => {
+    const passage = citation.passage;
+    if (!passage) return;
+    openModal(`[${citation.ref}] ${passage.label}${passage.source ? ` — ${passage.source}` : ''}`, passage.text);
+    if (passage.kind === 'chunk' && graphData?.nodes.some(n => n.id === passage.sourceId)) {
+        setCitedNodeIds([passage.sourceId]);
+        setShowEvidenceGraph(true);
+    }
+  };
+
   // --- RAG LAB LOGIC (NO SIMULATION) ---
+  // --- RAG PIPELINES (por modo de consulta) ---
+
+  // Recuperação híbrida (vetor sobre searchText | BM25 sobre a pergunta) → reranking; reutilizada pelo CRAG
+  // rerank = false devolve o pool fundido (multi-query reranqueia uma única vez após fundir as consultas)
+  const retrieveCandidates = async (query: string, searchText: string, addLog: (l: RAGStepLog) => void, rerank: boolean = true): Promise<RetrievalCandidate[]> => {
+      addLog({ step: 'RETRIEVAL', description: 'Vetorizando consulta + busca léxica BM25...', status: 'warning' });
+      const queryVector = await generateSingleEmbedding(searchText, getCorpusEmbeddingProvider());
+      
+      const vectorRanking = embeddings.map(emb => ({
+          id: emb.id,
+          score: cosineSimilarity(queryVector, emb.vector)
+      })).sort((a, b) => b.score - a.score).slice(0, hybridParams.poolSize);
+      const lexicalRanking = searchBM25(bm25Index, query, hybridParams.poolSize);
+
+      const embeddingById = new Map<string, EmbeddingVector>(embeddings.map(emb => [emb.id, emb]));
+      // Com reranking, a fusão entrega um pool maior; só o top-k reranqueado segue para o CRAG
+      const poolSize = rerankParams.method === 'none' ? hybridParams.topK : Math.max(hybridParams.topK, rerankParams.poolSize);
+      const fused = fuseRankings(vectorRanking, lexicalRanking, hybridParams)
+        .filter(c => embeddingById.has(c.id))
+        .slice(0, poolSize);
+      const similarities: RetrievalCandidate[] = fused.map(c => ({
+          id: c.id,
+          score: c.fusedScore,
+          content: embeddingById.get(c.id)!.fullContent,
+          label: embeddingById.get(c.id)!.entityLabel,
+          ranks: formatCandidateRanks(c)
+      }));
+      
+      addLog({
+          step: 'RETRIEVAL',
+          description: `Top ${similarities.length} Chunks (${hybridParams.fusion === 'rrf' ? 'RRF' : 'fusão ponderada'}: vetor ×${hybridParams.vectorWeight} + BM25 ×${hybridParams.lexicalWeight}; ${lexicalRanking.length} com casamento léxico)`,
+          data: similarities.slice(0, 10).map(s => `${s.label} ${s.ranks}`),
+          status: 'success'
+      });
+      return rerank ? rerankRetrieved(query, similarities, addLog) : similarities;
+  };
+
+  // 2b. Reranking (listwise em lotes) → top-k
+  const rerankRetrieved = async (query: string, candidates: RetrievalCandidate[], addLog: (l: RAGStepLog) => void): Promise<RetrievalCandidate[]> => {
+      let similarities = candidates;
+      if (rerankParams.method === 'none' || similarities.length === 0) return similarities.slice(0, hybridParams.topK);
+      addLog({ step: 'RERANK', description: `Reranqueando ${similarities.length} candidatos (${rerankParams.method === 'llm' ? `LLM listwise, lotes de ${rerankParams.batchSize}` : 'reranker local'})...`, status: 'warning' });
+      const reranked = await rerankCandidates(query, similarities.map((c, i) => ({ id: c.id, text: c.content, previousRank: i + 1 })), rerankParams);
+      const candidateById = new Map(similarities.map(c => [c.id, c]));
+      similarities = reranked.slice(0, hybridParams.topK).map(r => ({
+          ...candidateById.get(r.id)!,
+          score: r.score,
+          ranks: `${candidateById.get(r.id)!.ranks} | rerank #${r.rank}`
+      }));
+      const llmScored = reranked.filter(r => r.method === 'llm').length;
+      addLog({
+          step: 'RERANK',
+          description: `Top ${similarities.length}/${reranked.length} após reranking (${llmScored} scores LLM, ${reranked.length - llmScored} locais).`,
+          scores: reranked.slice(0, 10).map(r => ({ label: `#${r.previousRank}→#${r.rank} ${candidateById.get(r.id)!.label}`, score: r.score })),
+          status: 'success'
+      });
+      return similarities;
+  };
+
+  // Multi-query / decomposição: cada consulta é recuperada à parte, as listas são fundidas por RRF e o pool
+  // resultante é reranqueado contra a pergunta original
+  const retrieveExpandedCandidates = async (query: string, addLog: (l: RAGStepLog) => void): Promise<RetrievalCandidate[]> => {
+      const label = QUERY_EXPANSION_LABELS[queryExpansionParams.strategy];
+      addLog({ step: 'EXPAND', description: `${label}: gerando consultas...`, status: 'warning' });
+      const expansion = queryExpansionParams.strategy === 'multi-query'
+        ? await generateMultiQueries(query, queryExpansionParams.count)
+        : await decomposeQuery(query, queryExpansionParams.count);
+      addLog({
+          step: 'EXPAND',
+          description: `${label}: ${expansion.queries.length} consultas (${expansion.method === 'llm' ? 'LLM' : 'heurística'}).`,
+          data: expansion.queries.map((q, i) => `${i + 1}. ${q}`),
+          status: expansion.queries.length > 1 ? 'success' : 'warning'
+      });
+
+      addLog({ step: 'RETRIEVAL', description: `Recuperando ${expansion.queries.length} consultas de forma independente...`, status: 'warning' });
+      const lists: RetrievalCandidate[][] = [];
+      for (const [i, subQuery] of expansion.queries.entries()) {
+          const hits = await retrieveCandidates(subQuery, subQuery, () => {}, false);
+          lists.push(hits);
+          addLog({
+              step: 'RETRIEVAL',
+              description: `Consulta ${i + 1}: "${subQuery}" → ${hits.length} candidatos.`,
+              data: hits.slice(0, 5).map(h => `${h.label} ${h.ranks}`),
+              status: hits.length > 0 ? 'success' : 'warning'
+          });
+      }
+
+      const candidateById = new Map<string, RetrievalCandidate>(lists.flat().map(c => [c.id, c]));
+      const poolSize = rerankParams.method === 'none' ? hybridParams.topK : Math.max(hybridParams.topK, rerankParams.poolSize);
+      const fused = fuseRankLists(lists.map(list => list.map(c => c.id)), hybridParams.rrfK);
+      const merged: RetrievalCandidate[] = fused.slice(0, poolSize).map((f, i) => ({
+          ...candidateById.get(f.id)!,
+          score: f.score,
+          ranks: `#${i + 1} | ${f.hits}/${lists.length} consultas`
+      }));
+      addLog({
+          step: 'RETRIEVAL',
+          description: `Fusão RRF de ${lists.length} consultas: ${fused.length} chunks únicos → top ${merged.length}.`,
+          data: merged.slice(0, 10).map(c => `${c.label} ${c.ranks}`),
+          status: merged.length > 0 ? 'success' : 'warning'
+      });
+      return rerankRetrieved(query, merged, addLog);
+  };
+
+  // Local: HyDE (ou multi-query / decomposição) → recuperação híbrida → reranking → CRAG → expansão multi-hop no grafo
+  const retrieveLocalContext = async (query: string, graph: GraphData, addLog: (l: RAGStepLog) => void): Promise<ContextPassage[]> => {
+      let similarities: RetrievalCandidate[];
+      if (queryExpansionParams.strategy === 'hyde') {
+          // 1. HyDE
+          addLog({ step: 'HYDE', description: 'Gerando Documento Hipotético Ideal...', status: 'warning' });
+          const hydeDoc = await generateHyDEAnswer(query);
+          addLog({ step: 'HYDE', description: 'HyDE Gerado', data: hydeDoc, status: 'success' });
+
+          // 2. Hybrid Retrieval (Embedding + Cosine | BM25 sobre a pergunta original → fusão) + Reranking
+          similarities = await retrieveCandidates(query, `${query}\n${hydeDoc}`, addLog);
+      } else {
+          // 1-2. Consultas múltiplas, cada uma com recuperação híbrida, fundidas por RRF + Reranking
+          similarities = await retrieveExpandedCandidates(query, addLog);
+      }
+
+      // 3. CRAG (Corrective RAG): avaliação → Correto / Incorreto / Ambíguo
+      addLog({ step: 'CRAG', description: 'Avaliando relevância dos chunks (LLM Judge)...', status: 'warning' });
+      const graded = await gradeDocuments(query, similarities);
+      const action = decideCRAGAction(graded.map(g => g.relevance), cragParams);
+      addLog({
+          step: 'CRAG',
+          description: `Ação: ${CRAG_ACTION_LABELS[action]} (limiares ${cragParams.lowerThreshold.toFixed(2)} / ${cragParams.upperThreshold.toFixed(2)}).`,
+          scores: graded.map(g => ({ label: g.label || g.id, score: g.relevance })),
+          status: action === 'correct' ? 'success' : action === 'ambiguous' ? 'warning' : 'error'
+      });
+
+      const validChunks: RetrievalCandidate[] = graded.filter(g => g.relevance >= cragParams.lowerThreshold);
+      const knowledge: ContextPassage[] = [];
+      const chunkPassage = (c: RetrievalCandidate, text: string): ContextPassage =>
+        ({ kind: 'chunk', sourceId: c.id, label: c.label || c.id, source: chunkSourceById.get(c.id), text });
+
+      // 3a. Correto / Ambíguo: refinamento do conhecimento interno (faixas relevantes)
+      if (action !== 'incorrect') {
+          addLog({ step: 'REFINE', description: `Decompondo ${validChunks.length} chunks em faixas...`, status: 'warning' });
+          const refined = await refineKnowledge(query, validChunks.map(c => ({ id: c.id, label: c.label || c.id, content: c.content })), cragParams);
+          validChunks.forEach(c => {
+              const strips = refined.strips.filter(s => s.sourceId === c.id).map(s => s.text);
+              if (strips.length > 0) knowledge.push(chunkPassage(c, strips.join(' [...] ')));
+          });
+          addLog({
+              step: 'REFINE',
+              description: `${refined.strips.length}/${refined.total} faixas mantidas (${refined.method === 'llm' ? 'LLM' : 'heurística'}).`,
+              data: refined.strips.slice(0, 5).map(s => `(${s.score.toFixed(2)}) [${s.sourceLabel}] ${s.text.substring(0, 100)}`),
+              status: refined.strips.length > 0 ? 'success' : 'warning'
+          });
+      }
+
+      // 3b. Incorreto / Ambíguo: reescrita + nova busca; base externa se nada novo for aprovado
+      if (action !== 'correct') {
+          addLog({ step: 'REWRITE', description: 'Reescrevendo a pergunta para nova busca...', status: 'warning' });
+          const rewritten = await rewriteQuery(query);
+          const seen = new Set(graded.map(g => g.id));
+          const retry = (await retrieveCandidates(rewritten.query, rewritten.query, () => {})).filter(c => !seen.has(c.id));
+          const recovered = (await gradeDocuments(query, retry)).filter(g => g.relevance >= cragParams.lowerThreshold);
+          recovered.forEach(c => {
+              validChunks.push(c);
+              knowledge.push(chunkPassage(c, c.content));
+          });
+          addLog({
+              step: 'REWRITE',
+              description: `"${rewritten.query}" (${rewritten.method === 'llm' ? 'LLM' : 'heurística'}) → ${recovered.length}/${retry.length} novos chunks aprovados.`,
+              scores: recovered.map(g => ({ label: g.label || g.id, score: g.relevance })),
+              status: recovered.length > 0 ? 'success' : 'warning'
+          });
+
+          if (recovered.length === 0) {
+              if (externalDocuments.length === 0) {
+                  addLog({ step: 'EXTERNAL', description: 'Base externa vazia: nenhuma fonte alternativa configurada.', status: 'warning' });
+              } else {
+                  const external = searchExternalDocuments(externalDocuments, `${query} ${rewritten.query}`);
+                  external.forEach(s => knowledge.push({ kind: 'external', sourceId: s.sourceId, label: s.sourceLabel, source: 'Fonte externa', text: s.text }));
+                  addLog({
+                      step: 'EXTERNAL',
+                      description: `Base externa (${externalDocuments.length} documentos): ${external.length} faixas recuperadas via BM25.`,
+                      data: external.map(s => `[${s.sourceLabel}] ${s.text.substring(0, 100)}`),
+                      status: external.length > 0 ? 'success' : 'warning'
+                  });
+              }
+          }
+      }
+
+      // 4. GraphRAG Expansion (PageRank personalizado / BFS ponderada a partir dos chunks aprovados)
+      addLog({ step: 'GRAPHRAG', description: `Explorando o grafo (${graphExpansionParams.method === 'ppr' ? 'PageRank personalizado' : 'BFS ponderada'}, até ${graphExpansionParams.maxHops} saltos)...`, status: 'warning' });
+      const contextSet = new Set<string>(knowledge.map(k => k.text)); // Conhecimento corrigido pelo CRAG
+      const passages = [...knowledge];
+
+      const expansion = expandFromSeeds(graph, validChunks.map(c => c.id), graphExpansionParams);
+      const nodeById = new Map(graph.nodes.map(n => [n.id, n]));
+      const expandedNodes = expansion.nodes.filter(e => {
+          const node = nodeById.get(e.nodeId)!;
+          if (contextSet.has(node.fullContent)) return false;
+          contextSet.add(node.fullContent);
+          passages.push({ kind: 'chunk', sourceId: node.id, label: node.label, source: node.source, text: node.fullContent });
+          return true;
+      });
+      
+      if (expandedNodes.length > 0) {
+          addLog({
+              step: 'GRAPHRAG',
+              description: `Expansão: +${expandedNodes.length}/${expansion.candidates} nós alcançáveis (${expansion.usedTokens}/${graphExpansionParams.tokenBudget} tokens).`,
+              data: expandedNodes.slice(0, 8).map(e => `(${e.score.toFixed(3)}) ${formatExpansionPath(e)}`),
+              status: 'success'
+          });
+      } else {
+          addLog({ step: 'GRAPHRAG', description: 'Nenhuma expansão topológica relevante encontrada.', status: 'warning' });
+      }
+      return passages;
+  };
+
+  // Naive: apenas a pergunta vetorizada, sem HyDE, CRAG ou grafo (linha de base)
+  const retrieveNaiveContext = async (query: string, addLog: (l: RAGStepLog) => void): Promise<ContextPassage[]> => {
+      addLog({ step: 'RETRIEVAL', description: 'Vetorizando Query (modo naive)...', status: 'warning' });
+      const queryVector = await generateSingleEmbedding(query, getCorpusEmbeddingProvider());
+      const similarities = embeddings.map(emb => ({
+          id: emb.id,
+          score: cosineSimilarity(queryVector, emb.vector),
+          content: emb.fullContent,
+          label: emb.entityLabel
+      })).sort((a, b) => b.score - a.score).slice(0, 6);
+      addLog({ step: 'RETRIEVAL', description: `Top 6 Chunks Recuperados (Score Máx: ${similarities[0]?.score.toFixed(4)})`, data: similarities.map(s => `${s.label} (${s.score.toFixed(2)})`), status: 'success' });
+      return similarities.map(s => ({ kind: 'chunk', sourceId: s.id, label: s.label || s.id, source: chunkSourceById.get(s.id), text: s.content }));
+  };
+
+  // Agente: o LLM escolhe a próxima ferramenta a cada passo (orçamento de passos); cada decisão vai ao trace
+  const retrieveAgenticContext = async (query: string, graph: GraphData, addLog: (l: RAGStepLog) => void, signal?: AbortSignal): Promise<ContextPassage[]> => {
+      addLog({ step: 'AGENT', description: `Agente iniciado (até ${agentParams.maxSteps} passos, ${getActiveLLMProvider().isAvailable() ? getActiveLLMProvider().name : 'política de regras'}).`, status: 'warning' });
+      const result = await runAgent(query, {
+          graph,
+          embeddings,
+          bm25Index,
+          embedQuery: (text) => generateSingleEmbedding(text, getCorpusEmbeddingProvider()),
+          expansionParams: graphExpansionParams
+      }, agentParams, (step) => addLog({
+          step: 'AGENT',
+          description: `Passo ${step.step}: ${step.tool}${Object.keys(step.args).length > 0 ? ` ${JSON.stringify(step.args)}` : ''} (${step.method === 'llm' ? 'LLM' : 'regras'})${step.reason ? ` — ${step.reason}` : ''}`,
+          data: `${step.observation}${step.tool !== 'answer' ? ` → +${step.passages} trechos novos` : ''}`,
+          status: step.tool === 'answer' || step.passages > 0 ? 'success' : 'warning'
+      }), signal);
+      if (!result.finished && !signal?.aborted) {
+          addLog({ step: 'AGENT', description: `Orçamento de ${agentParams.maxSteps} passos esgotado: respondendo com ${result.passages.length} trechos.`, status: 'warning' });
+      }
+      return result.passages;
+  };
+
+  // Global: MAP sobre os relatórios de comunidade do nível mais alto (gerados aqui se ainda não existirem)
+  const mapGlobalPoints = async (query: string, graph: GraphData, addLog: (l: RAGStepLog) => void): Promise<GlobalSearchPoint[]> => {
+      let reports = graph.communityReports;
+      if (!reports) {
+          addLog({ step: 'MAP', description: 'Relatórios de comunidade ausentes. Gerando resumos...', status: 'warning' });
+          reports = await buildCommunityReports(graph, () => {});
+          setGraphData({ ...graph, communityReports: reports });
+      }
+      const topReports = getTopLevelReports({ ...graph, communityReports: reports });
+      addLog({ step: 'MAP', description: `Respondendo sobre ${topReports.length} relatórios de comunidade...`, status: 'warning' });
+      const points = await mapCommunityReports(query, topReports);
+      addLog({ step: 'MAP', description: `${points.length} pontos parciais com nota > 0.`, data: points.slice(0, 5).map(p => `(${p.score}) ${p.description.substring(0, 80)}`), status: points.length > 0 ? 'success' : 'error' });
+      return points;
+  };
+
+  const logFaithfulness = (report: Omit<FaithfulnessReport, 'regenerated'>, addLog: (l: RAGStepLog) => void) => {
+      const supported = report.claims.filter(c => c.supported).length;
+      addLog({
+          step: 'VERIFY',
+          description: `Fidelidade: ${Math.round(report.score * 100)}% (${supported}/${report.claims.length} afirmações sustentadas${report.claims.some(c => c.method === 'llm') ? ', juiz LLM' : ', heurística'}).`,
+          scores: report.claims.map(c => ({ label: `${c.supported ? '✓' : '✗'}${c.evidenceRef ? ` [${c.evidenceRef}]` : ''} ${c.claim}`, score: c.score })),
+          status: report.score >= faithfulnessParams.minScore ? 'success' : 'error'
+      });
+  };
+
   const handleRAGQuery = async () => {
       if (!userQuery.trim() || !graphData) return;
       setIsRagThinking(true);
       setRagLogs([]); // Reset logs
+      setCitedNodeIds([]);
+      const controller = new AbortController();
+      ragAbortRef.current = controller;
       
       const logs: RAGStepLog[] = [];
       const addLog = (l: RAGStepLog) => { logs.push(l); setRagLogs([...logs]); };
 
       try {
-          // 1. HyDE
-          addLog({ step: 'HYDE', description: 'Gerando Documento Hipotético Ideal...', status: 'warning' });
-          const hydeDoc = await generateHyDEAnswer(userQuery);
-          addLog({ step: 'HYDE', description: 'HyDE Gerado', data: hydeDoc, status: 'success' });
+          // 0. Condensação: pergunta de seguimento → consulta autônoma (usada em HyDE, recuperação e geração)
+          const promptHistory = withConversationSummary(chatHistory, conversationMemory);
+          const condensed = await condenseQuery(userQuery, chatHistory, conversationMemory);
+          const searchQuery = condensed.query;
+          if (condensed.method !== 'none') {
+              addLog({
+                  step: 'CONDENSE',
+                  description: `Pergunta reescrita com o histórico (${condensed.method === 'llm' ? 'LLM' : 'heurística'}${conversationMemory.summary ? `, resumo de ${conversationMemory.summarizedCount} mensagens` : ''}).`,
+                  data: `"${userQuery}" → "${searchQuery}"`,
+                  status: searchQuery !== userQuery ? 'success' : 'warning'
+              });
+          }
 
-          // 2. Vector Retrieval (Embedding + Cosine)
-          addLog({ step: 'RETRIEVAL', description: 'Vetorizando Query & HyDE...', status: 'warning' });
-          const queryVector = await generateSingleEmbedding(`${userQuery}\n${hydeDoc}`);
-          
-          const similarities = embeddings.map(emb => ({
-              id: emb.id,
-              score: cosineSimilarity(queryVector, emb.vector),
-              content: emb.fullContent,
-              label: emb.entityLabel
-          })).sort((a, b) => b.score - a.score).slice(0, 6); // Top 6 candidates
-          
-          addLog({ step: 'RETRIEVAL', description: `Top 6 Chunks Recuperados (Score Máx: ${similarities[0]?.score.toFixed(4)})`, data: similarities.map(s => `${s.label} (${s.score.toFixed(2)})`), status: 'success' });
-
-          // 3. CRAG (Corrective RAG)
-          addLog({ step: 'CRAG', description: 'Avaliando relevância dos chunks (LLM Judge)...', status: 'warning' });
-          const validChunks: any[] = [];
-          for (const chunk of similarities) {
-              const evalResult = await evaluateChunkRelevance(userQuery, chunk.content);
-              if (evalResult.relevant) {
-                  validChunks.push(chunk);
+          let answer: string;
+          let passages: ContextPassage[] = [];
+          let faithfulness: FaithfulnessReport | undefined;
+          if (ragMode === 'global') {
+              const points = await mapGlobalPoints(searchQuery, graphData, addLog);
+              addLog({ step: 'REDUCE', description: 'Sintetizando pontos parciais...', status: 'warning' });
+              answer = await reduceGlobalAnswer(searchQuery, points, promptHistory);
+              addLog({ step: 'REDUCE', description: `Resposta global gerada a partir de ${points.length} pontos.`, status: points.length > 0 ? 'success' : 'warning' });
+          } else {
+              passages = ragMode === 'naive'
+                ? await retrieveNaiveContext(searchQuery, addLog)
+                : ragMode === 'agentic'
+                  ? await retrieveAgenticContext(searchQuery, graphData, addLog, controller.signal)
+                  : await retrieveLocalContext(searchQuery, graphData, addLog);
+
+              // Híbrido: pontos globais de maior nota entram antes dos trechos locais
+              if (ragMode === 'hybrid') {
+                  const points = await mapGlobalPoints(searchQuery, graphData, addLog);
+                  if (points.length > 0) passages.unshift({ kind: 'community', sourceId: 'global', label: 'Visão global', source: 'Relatórios de comunidade', text: formatGlobalPoints(points, 2500) });
               }
-          }
-          addLog({ step: 'CRAG', description: `Filtragem: ${validChunks.length}/${similarities.length} chunks aprovados.`, status: validChunks.length > 0 ? 'success' : 'error' });
 
-          // 4. GraphRAG Expansion
-          addLog({ step: 'GRAPHRAG', description: 'Explorando vizinhos no Grafo...', status: 'warning' });
-          const contextSet = new Set<string>();
-          validChunks.forEach(c => contextSet.add(c.content)); // Add Vector Results
+              // 5. Generation (Memory + Agentic) — sem contexto aprovado não há geração
+              if (controller.signal.aborted) {
+                  addLog({ step: 'GENERATION', description: 'Consulta cancelada antes da geração.', status: 'warning' });
+                  answer = "Consulta cancelada pelo usuário.";
+              } else if (passages.length === 0) {
+                  addLog({ step: 'GENERATION', description: 'Nenhum contexto aprovado: geração suprimida para evitar alucinação.', status: 'warning' });
+                  answer = "Não encontrei trechos relevantes no corpus (nem na base externa) para responder a esta pergunta com segurança. Tente reformulá-la.";
+              } else {
+                  addLog({ step: 'GENERATION', description: 'Sintetizando resposta final com contexto (streaming)...', status: 'warning' });
+                  setStreamingAnswer('');
+                  answer = await generateRAGResponse(searchQuery, passages, promptHistory, [], {
+                      onToken: (delta) => setStreamingAnswer(prev => (prev ?? '') + delta),
+                      signal: controller.signal
+                  });
+                  if (controller.signal.aborted) {
+                      addLog({ step: 'GENERATION', description: 'Geração interrompida pelo usuário: resposta parcial mantida.', status: 'warning' });
+                  }
 
-          const expandedNodes: string[] = [];
-          validChunks.forEach(c => {
-               // Find Graph Node
-               const node = graphData.nodes.find(n => n.id === c.id);
-               if (node) {
-                   // Find neighbors in edges
-                   const neighbors = graphData.links
-                    .filter(l => l.source === node.id || l.target === node.id)
-                    .map(l => l.source === node.id ? l.target : l.source);
-                   
-                   // Add neighbor content (1-hop)
-                   neighbors.forEach(nid => {
-                       const neighborNode = graphData.nodes.find(n => n.id === nid);
-                       if (neighborNode && !contextSet.has(neighborNode.fullContent)) {
-                           contextSet.add(neighborNode.fullContent);
-                           expandedNodes.push(neighborNode.label);
-                       }
-                   });
-               }
-          });
+                  // 6. Verificação de fidelidade (afirmação × contexto) e regeneração opcional
+                  if (faithfulnessParams.enabled && !controller.signal.aborted) {
+                      addLog({ step: 'VERIFY', description: 'Decompondo a resposta em afirmações e verificando contra o contexto...', status: 'warning' });
+                      let report = await verifyAnswer(answer, passages);
+                      logFaithfulness(report, addLog);
+                      let regenerated = false;
+                      const unsupported = report.claims.filter(c => !c.supported).map(c => c.claim);
+                      if (report.score < faithfulnessParams.minScore && faithfulnessParams.regenerate && unsupported.length > 0) {
+                          addLog({ step: 'VERIFY', description: `Fidelidade abaixo de ${Math.round(faithfulnessParams.minScore * 100)}%: regerando sem as ${unsupported.length} afirmações sem suporte...`, status: 'warning' });
+                          const retry = await generateRAGResponse(searchQuery, passages, promptHistory, unsupported);
+                          const retryReport = await verifyAnswer(retry, passages);
+                          logFaithfulness(retryReport, addLog);
+                          // Mantém a tentativa mais fiel
+                          if (retryReport.score >= report.score) {
+                              answer = retry;
+                              report = retryReport;
+                              regenerated = true;
+                          }
+                      }
+                      faithfulness = { ...report, regenerated };
+                  }
+              }
+          }
           
-          if (expandedNodes.length > 0) {
-              addLog({ step: 'GRAPHRAG', description: `Expansão: +${expandedNodes.length} nós adicionados via topologia.`, data: expandedNodes.slice(0, 5), status: 'success' });
-          } else {
-              addLog({ step: 'GRAPHRAG', description: 'Nenhuma expansão topológica relevante encontrada.', status: 'warning' });
+          // Citações [n] → trechos do contexto; números fora do contexto ficam marcados como inválidos
+          const citations = passages.length > 0 ? extractCitations(answer, passages) : undefined;
+          const invalid = (citations || []).filter(c => !c.valid);
+          if (invalid.length > 0) {
+              addLog({ step: 'GENERATION', description: `${invalid.length} citação(ões) sem trecho correspondente: ${invalid.map(c => `[${c.ref}]`).join(' ')}.`, status: 'error' });
           }
 
-          // 5. Generation (Memory + Agentic)
-          addLog({ step: 'GENERATION', description: 'Sintetizando resposta final com contexto...', status: 'warning' });
-          const finalContext = Array.from(contextSet).join('\n---\n');
-          const answer = await generateRAGResponse(userQuery, finalContext, chatHistory);
-          
           // Update Chat History (Memory)
           const newHistory: ChatMessage[] = [
               ...chatHistory,
-              { role: 'user', content: userQuery, timestamp: new Date().toISOString() },
-              { role: 'assistant', content: answer, timestamp: new Date().toISOString() }
+              { role: 'user', content: userQuery, timestamp: new Date().toISOString(), standaloneQuery: searchQuery !== userQuery ? searchQuery : undefined },
+              { role: 'assistant', content: answer, timestamp: new Date().toISOString(), citations, faithfulness }
           ];
           setChatHistory(newHistory);
-          addLog({ step: 'GENERATION', description: 'Resposta Gerada.', status: 'success' });
+          addLog({ step: 'GENERATION', description: `Resposta Gerada (modo ${RAG_MODE_LABELS[ragMode]}).`, status: 'success' });
+
+          // Mensagens que saíram da janela recente são incorporadas ao resumo da conversa
+          const memory = await updateConversationMemory(conversationMemory, newHistory);
+          if (memory !== conversationMemory) {
+              setConversationMemory(memory);
+              addLog({ step: 'CONDENSE', description: `Memória resumida: ${memory.summarizedCount} mensagens antigas condensadas.`, data: memory.summary, status: 'success' });
+          }
 
       } catch (err) {
           console.error(err);
-          addLog({ step: 'GENERATION', description: 'Falha crítica no fluxo RAG.', status: 'error' });
+          addLog({ step: 'GENERATION', description: `Falha crítica no fluxo RAG${err instanceof Error ? `: ${err.message}` : '.'}`, status: 'error' });
       } finally {
           setIsRagThinking(false);
+          setStreamingAnswer(null);
+          ragAbortRef.current = null;
           setUserQuery('');
       }
   };
@@ -372,7 +1117,7 @@ const App: React.FC = () => {
             <div>
               <h1 className="text-xl font-bold tracking-tight">GraphRAG Pipeline Visualizer</h1>
               <p className="text-xs text-slate-400">
-                Autor: <strong>Prof. Marcelo Claro Laranjeira</strong> | Powered by Gemini AI (Real Data & RAG)
+                Autor: <strong>Prof. Marcelo Claro Laranjeira</strong> | Powered by Gemini AI & Provedores Locais (Real Data & RAG)
               </p>
             </div>
           </div>
@@ -383,6 +1128,20 @@ const App: React.FC = () => {
       </header>
 
       <main className="max-w-7xl mx-auto px-4 py-8 flex-grow">
+        <ProjectPickerPanel
+          projects={projects}
+          activeProjectId={activeProject?.id || null}
+          activeProjectName={activeProject?.name || ''}
+          saveStatus={projectSaveStatus}
+          available={isProjectStoreAvailable()}
+          onOpen={handleOpenProject}
+          onNew={handleNewProject}
+          onRename={handleRenameProject}
+          onDelete={handleDeleteProject}
+          onExport={chunks.length > 0 ? handleExportBundle : undefined}
+          onImport={handleImportBundle}
+          disabled={isProcessing || isRagThinking}
+        />
         <PipelineProgress currentStage={stage} />
 
         <div className="bg-white rounded-xl shadow-sm border border-slate-200 min-h-[600px] p-6 relative">
@@ -397,7 +1156,7 @@ const App: React.FC = () => {
           <div className="flex justify-between items-center mb-6 pb-4 border-b border-slate-100 flex-wrap gap-4">
             <h2 className="text-2xl font-bold text-slate-800">
               {stage === PipelineStage.UPLOAD && "1. Ingestão Real & Refinamento AI"}
-              {stage === PipelineStage.EMBEDDINGS && "2. Vetorização (Gemini Text-Embedding-004)"}
+              {stage === PipelineStage.EMBEDDINGS && `2. Vetorização (${embeddingModel ? formatEmbeddingModel(embeddingModel) : 'Embedding'})`}
               {stage === PipelineStage.CLUSTERING && "3. Clusterização Semântica"}
               {stage === PipelineStage.GRAPH && "4. Grafo de Conhecimento"}
               {stage === PipelineStage.QUERY && "5. Lab RAG (HyDE + CRAG + Graph)"}
@@ -411,7 +1170,7 @@ const App: React.FC = () => {
                   </button>
                   {!aiEnhanced && (
                     <button onClick={handleEnhanceWithAI} disabled={isProcessing} className="bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white px-4 py-2 rounded-lg shadow-sm transition-all font-medium flex items-center">
-                      <svg className="w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg> Enriquecer com Gemini
+                      <svg className="w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg> Enriquecer com IA
                     </button>
                   )}
                   <button onClick={handleProcessEmbeddings} disabled={isProcessing} className="bg-slate-800 hover:bg-slate-700 text-white px-4 py-2 rounded-lg shadow-sm transition-all font-medium flex items-center">
@@ -444,6 +1203,14 @@ const App: React.FC = () => {
                 <button onClick={() => setStage(PipelineStage.QUERY)} className="bg-rose-600 hover:bg-rose-700 text-white px-4 py-2 rounded-lg shadow-sm transition-all font-bold flex items-center">
                     🧪 Entrar no Lab RAG
                 </button>
+                <button onClick={handleSummarizeCommunities} disabled={isProcessing} className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg shadow-sm transition-all font-medium flex items-center">
+                    Resumir Comunidades
+                </button>
+                {graphData?.communityReports && (
+                    <button onClick={handleExportCommunityReports} className="border border-slate-300 bg-white hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-lg shadow-sm transition-all font-medium flex items-center">
+                        Relatórios CSV
+                    </button>
+                )}
                 <button onClick={handleUnifiedExport} className="bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-lg shadow-sm transition-all font-medium flex items-center border-2 border-teal-500">
                     Dataset Completo (Unified)
                 </button>
@@ -460,11 +1227,37 @@ const App: React.FC = () => {
             </div>
           </div>
 
+          {chunks.length > 0 && stage !== PipelineStage.QUERY && (
+            <CorpusUpdatePanel documents={rawDocs} summary={corpusChangeSummary} onUpdate={handleIncrementalUpdate} disabled={isProcessing} />
+          )}
+
           {/* Views existentes (Upload, Embeddings, Clustering, Graph) mantidas... apenas adicionando o QUERY view abaixo */}
           
           {stage === PipelineStage.UPLOAD && (
             <div className="space-y-4">
               {uploadError && (<div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative"><strong className="font-bold">Erro: </strong><span className="block sm:inline">{uploadError}</span></div>)}
+              {chunkingWarnings.length > 0 && (
+                <div className="bg-orange-50 border border-orange-200 text-orange-800 px-4 py-3 rounded text-xs space-y-1">
+                  {chunkingWarnings.map(w => <p key={w}>⚠ {w}</p>)}
+                </div>
+              )}
+              <ProviderSettingsPanel embeddingConfig={embeddingConfig} onEmbeddingConfigChange={setEmbeddingConfig} llmConfig={llmConfig} onLLMConfigChange={setLlmConfig} disabled={isProcessing} />
+              <ChunkingStrategyPanel
+                strategyId={chunkingStrategyId}
+                params={chunkingParams[chunkingStrategyId] || getDefaultChunkingParams(chunkingStrategyId)}
+                onStrategyChange={setChunkingStrategyId}
+                onParamsChange={(params) => setChunkingParams({ ...chunkingParams, [chunkingStrategyId]: params })}
+                onApply={rawDocs.length > 0 ? handleRechunk : undefined}
+                disabled={isProcessing}
+              />
+              {rawDocs.length > 0 && (
+                <div>
+                  <button onClick={() => setShowChunkComparison(!showChunkComparison)} className="text-xs text-indigo-600 hover:underline mb-2">
+                    {showChunkComparison ? 'Ocultar comparação de estratégias' : 'Comparar estratégias de chunking lado a lado'}
+                  </button>
+                  {showChunkComparison && <ChunkingComparisonPanel docs={rawDocs} paramsByStrategy={chunkingParams} getEmbeddingProvider={() => createEmbeddingProvider(embeddingConfig)} />}
+                </div>
+              )}
               {chunks.length === 0 ? (
                 <div className="flex flex-col items-center justify-center h-80 border-2 border-dashed border-slate-300 rounded-lg bg-slate-50 hover:bg-slate-100 hover:border-indigo-400">
                    <div className="text-center">
@@ -476,7 +1269,7 @@ const App: React.FC = () => {
               ) : (
                 <div className="space-y-2">
                     <div className="flex justify-between items-end mb-2">
-                        <span className="text-sm font-semibold text-slate-600">Pré-visualização dos Chunks (Granularidade Alta)</span>
+                        <span className="text-sm font-semibold text-slate-600">Pré-visualização dos Chunks</span>
                         <div className="text-right">
                            <span className="block text-2xl font-bold text-indigo-600">{chunks.length.toLocaleString()} <span className="text-sm font-normal text-slate-500">chunks</span></span>
                            <span className="text-xs text-emerald-600 font-mono font-medium">Total Caracteres: {totalCharsExtracted.toLocaleString()}</span>
@@ -485,7 +1278,7 @@ const App: React.FC = () => {
                     <div className="overflow-x-auto rounded-lg border border-slate-200 shadow-sm">
                         <table className="min-w-full divide-y divide-slate-200">
                         <thead className="bg-slate-50"><tr><th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Rótulo</th><th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">Conteúdo</th><th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase">Ação</th></tr></thead>
-                        <tbody className="bg-white divide-y divide-slate-200">{chunks.slice(0, 10).map(c => (<tr key={c.id}><td className="px-6 py-4 text-sm font-semibold text-slate-800">{c.entityLabel}</td><td className="px-6 py-4 text-sm text-slate-500 truncate max-w-xs">{c.content}</td><td className="px-6 py-4 text-right"><button onClick={()=>openModal(c.entityLabel||'', c.content)} className="text-indigo-600 hover:underline">Ver</button></td></tr>))}</tbody>
+                        <tbody className="bg-white divide-y divide-slate-200">{chunks.slice(0, 10).map(c => (<tr key={c.id}><td className="px-6 py-4 text-sm font-semibold text-slate-800">{c.entityLabel}{c.hierarchyPath && c.hierarchyPath.length > 1 && <span className="block text-[10px] font-normal text-slate-400">{c.hierarchyPath.slice(0, -1).join(' › ')}</span>}</td><td className="px-6 py-4 text-sm text-slate-500 truncate max-w-xs">{c.content}</td><td className="px-6 py-4 text-right"><button onClick={()=>openModal(c.entityLabel||'', c.content)} className="text-indigo-600 hover:underline">Ver</button></td></tr>))}</tbody>
                         </table>
                     </div>
                     <p className="text-center text-xs text-slate-400 mt-2">Exibindo os primeiros 10 itens para performance.</p>
@@ -505,16 +1298,29 @@ const App: React.FC = () => {
           )}
 
           {stage === PipelineStage.CLUSTERING && (
+             <div className="space-y-4">
+             <EntityResolutionPanel
+               aliasTable={aliasTable}
+               onAcceptMerge={(suggestion) => setAcceptedMerges([...acceptedMerges, suggestion])}
+               getEmbeddingProvider={() => getCorpusEmbeddingProvider()}
+               onExport={handleExportAliases}
+               disabled={isProcessing}
+             />
+             <GraphConstructionPanel params={similarityEdgeParams} onChange={setSimilarityEdgeParams} extractEntities={extractEntities} onExtractEntitiesChange={setExtractEntities} communityParams={communityParams} onCommunityParamsChange={setCommunityParams} disabled={isProcessing} />
              <div className="h-[500px] w-full bg-slate-50 rounded-lg border border-slate-200 p-4">
                 <ResponsiveContainer width="100%" height="100%"><ScatterChart><CartesianGrid /><XAxis type="number" dataKey="x" /><YAxis type="number" dataKey="y" /><Tooltip /><Scatter name="Docs" data={clusters} fill="#8884d8">{clusters.map((e, i) => <Cell key={`cell-${i}`} fill={['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6'][e.clusterId % 5]} />)}</Scatter></ScatterChart></ResponsiveContainer>
              </div>
+             </div>
           )}
 
           {stage === PipelineStage.GRAPH && graphData && (
+            <>
+            <GraphMetricsDashboard metrics={graphData.metrics} />
             <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
                 <div className="lg:col-span-1"><ClusterAnalysisPanel graphData={graphData} onClusterSelect={(ids) => setHighlightedClusters(ids)} /></div>
                 <div className="lg:col-span-3"><ForceGraph ref={graphRef} data={graphData} onNodeClick={(n) => openModal(n.label, n.fullContent)} highlightedClusterIds={highlightedClusters} /></div>
             </div>
+            </>
           )}
 
           {/* --- STAGE 5: RAG LAB (NOVA VISUALIZAÇÃO) --- */}
@@ -522,18 +1328,48 @@ const App: React.FC = () => {
              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 h-full">
                 {/* Coluna Esquerda: Chat & Controls */}
                 <div className="lg:col-span-2 flex flex-col space-y-4">
+                   <ProviderSettingsPanel embeddingConfig={embeddingConfig} onEmbeddingConfigChange={setEmbeddingConfig} llmConfig={llmConfig} onLLMConfigChange={setLlmConfig} disabled={isRagThinking} />
+                   <RetrievalSettingsPanel queryExpansionParams={queryExpansionParams} onQueryExpansionParamsChange={setQueryExpansionParams} hybridParams={hybridParams} onHybridParamsChange={setHybridParams} rerankParams={rerankParams} onRerankParamsChange={setRerankParams} cragParams={cragParams} onCragParamsChange={setCragParams} externalDocuments={externalDocuments} onExternalDocumentsChange={setExternalDocuments} expansionParams={graphExpansionParams} onExpansionParamsChange={setGraphExpansionParams} faithfulnessParams={faithfulnessParams} onFaithfulnessParamsChange={setFaithfulnessParams} agentParams={agentParams} onAgentParamsChange={setAgentParams} disabled={isRagThinking} />
                    <div className="flex-1 bg-slate-50 border border-slate-200 rounded-lg p-4 overflow-y-auto max-h-[500px] min-h-[400px]">
                       {chatHistory.length === 0 && <div className="text-center text-slate-400 mt-20">Inicie uma conversa com seus documentos.</div>}
                       {chatHistory.map((msg, i) => (
                           <div key={i} className={`mb-4 flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                               <div className={`max-w-[80%] rounded-lg p-3 ${msg.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-800'}`}>
-                                  <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+                                  {msg.citations
+                                    ? <CitedAnswer content={msg.content} citations={msg.citations} faithfulness={msg.faithfulness} onCitationClick={handleCitationClick} />
+                                    : <p className="text-sm whitespace-pre-wrap">{msg.content}</p>}
                               </div>
                           </div>
                       ))}
-                      {isRagThinking && <div className="text-xs text-slate-500 animate-pulse ml-2">Pensando (HyDE, Retrieval, Graph Walk)...</div>}
+                      {isRagThinking && (
+                          <div className="mb-4 flex justify-end">
+                              <div className="max-w-[80%] rounded-lg p-3 bg-indigo-600 text-white"><p className="text-sm whitespace-pre-wrap">{userQuery}</p></div>
+                          </div>
+                      )}
+                      {streamingAnswer !== null && (
+                          <div className="mb-4 flex justify-start">
+                              <div className="max-w-[80%] rounded-lg p-3 bg-white border border-slate-200 text-slate-800">
+                                  <p className="text-sm whitespace-pre-wrap">{streamingAnswer}<span className="animate-pulse text-indigo-500">▍</span></p>
+                              </div>
+                          </div>
+                      )}
+                      {isRagThinking && streamingAnswer === null && <div className="text-xs text-slate-500 animate-pulse ml-2">Pensando (modo {RAG_MODE_LABELS[ragMode]})...</div>}
                    </div>
                    
+                   <div className="flex flex-wrap items-center gap-1">
+                       {(Object.keys(RAG_MODE_LABELS) as RAGSearchMode[]).map(mode => (
+                           <button
+                             key={mode}
+                             onClick={() => setRagMode(mode)}
+                             disabled={isRagThinking}
+                             title={RAG_MODE_HINTS[mode]}
+                             className={`px-3 py-1 rounded-md text-xs font-medium border transition-all ${ragMode === mode ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'}`}
+                           >
+                             {RAG_MODE_LABELS[mode]}
+                           </button>
+                       ))}
+                       <span className="text-[11px] text-slate-400 ml-2">{RAG_MODE_HINTS[ragMode]}</span>
+                   </div>
                    <div className="flex gap-2">
                        <input 
                          type="text" 
@@ -544,14 +1380,33 @@ const App: React.FC = () => {
                          onKeyPress={(e) => e.key === 'Enter' && handleRAGQuery()}
                          disabled={isRagThinking}
                        />
-                       <button 
-                         onClick={handleRAGQuery}
-                         disabled={isRagThinking || !userQuery}
-                         className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2 rounded-lg font-bold disabled:opacity-50"
-                       >
-                         Enviar
-                       </button>
+                       {isRagThinking ? (
+                         <button 
+                           onClick={() => ragAbortRef.current?.abort()}
+                           className="bg-red-600 hover:bg-red-700 text-white px-6 py-2 rounded-lg font-bold"
+                         >
+                           Parar
+                         </button>
+                       ) : (
+                         <button 
+                           onClick={handleRAGQuery}
+                           disabled={!userQuery}
+                           className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2 rounded-lg font-bold disabled:opacity-50"
+                         >
+                           Enviar
+                         </button>
+                       )}
                    </div>
+                   {graphData && (
+                       <div>
+                           <button onClick={() => setShowEvidenceGraph(!showEvidenceGraph)} className="text-xs text-indigo-600 hover:underline">
+                               {showEvidenceGraph ? 'Ocultar' : 'Mostrar'} grafo de evidências{citedNodeIds.length > 0 ? ` (${citedNodeIds.length} nó citado)` : ''}
+                           </button>
+                           {showEvidenceGraph && (
+                               <div className="mt-2"><ForceGraph data={graphData} onNodeClick={(n) => openModal(n.label, n.fullContent)} highlightedNodeIds={citedNodeIds} /></div>
+                           )}
+                       </div>
+                   )}
                 </div>
 
                 {/* Coluna Direita: Logs de Engenharia */}
@@ -563,16 +1418,33 @@ const App: React.FC = () => {
                             <div key={i} className="border-l-2 border-slate-600 pl-3 py-1">
                                 <div className="flex justify-between">
                                     <span className={`font-bold ${
-                                        log.step === 'HYDE' ? 'text-purple-400' : 
+                                        log.step === 'HYDE' || log.step === 'EXPAND' ? 'text-purple-400' : 
                                         log.step === 'RETRIEVAL' ? 'text-blue-400' :
+                                        log.step === 'RERANK' ? 'text-cyan-400' :
                                         log.step === 'CRAG' ? 'text-orange-400' :
-                                        log.step === 'GRAPHRAG' ? 'text-pink-400' : 'text-white'
+                                        log.step === 'REFINE' || log.step === 'REWRITE' || log.step === 'EXTERNAL' ? 'text-amber-300' :
+                                        log.step === 'GRAPHRAG' ? 'text-pink-400' :
+                                        log.step === 'MAP' || log.step === 'REDUCE' ? 'text-teal-400' :
+                                        log.step === 'VERIFY' ? 'text-lime-400' :
+                                        log.step === 'CONDENSE' ? 'text-indigo-300' :
+                                        log.step === 'AGENT' ? 'text-sky-300' : 'text-white'
                                     }`}>{log.step}</span>
                                     <span className={log.status === 'success' ? 'text-green-500' : log.status === 'error' ? 'text-red-500' : 'text-yellow-500'}>
                                         {log.status === 'success' ? '✓' : log.status === 'error' ? '✗' : '⟳'}
                                     </span>
                                 </div>
                                 <p className="opacity-90 mt-1">{log.description}</p>
+                                {log.scores && (
+                                    <div className="mt-2 space-y-0.5">
+                                        {log.scores.map((s, j) => (
+                                            <div key={j} className="flex items-center gap-2 text-[10px]">
+                                                <div className="w-12 h-1.5 bg-slate-700 rounded"><div className="h-1.5 bg-cyan-400 rounded" style={{ width: `${Math.round(s.score * 100)}%` }}></div></div>
+                                                <span className="text-slate-400 w-8">{s.score.toFixed(2)}</span>
+                                                <span className="truncate opacity-80">{s.label}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
                                 {log.data && (
                                     <pre className="mt-2 bg-black/30 p-2 rounded overflow-x-auto text-[10px] text-slate-400">
                                         {typeof log.data === 'string' ? log.data : JSON.stringify(log.data, null, 2)}
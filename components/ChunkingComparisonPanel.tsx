@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { ChunkingStrategyId, ChunkingParams, DocumentChunk, ChunkingStats, EmbeddingProvider } from '../types';
+import { listChunkingStrategies, getChunkingStrategy, getDefaultChunkingParams, runChunkingStrategy, computeChunkingStats } from '../services/chunkingService';
+
+interface Props {
+  docs: { filename: string, text: string }[];
+  paramsByStrategy: Partial<Record<ChunkingStrategyId, ChunkingParams>>;
+  getEmbeddingProvider: () => EmbeddingProvider; // Usado apenas pela estratégia semântica
+}
+
+interface ComparisonResult {
+  strategyId: ChunkingStrategyId;
+  chunks: DocumentChunk[];
+  stats: ChunkingStats;
+  warnings: string[];
+}
+
+const BOUNDARY_PREVIEWS = 5;
+
+const ComparisonColumn: React.FC<{ result: ComparisonResult; color: string }> = ({ result, color }) => {
+  const strategy = getChunkingStrategy(result.strategyId);
+  return (
+    <div className="border border-slate-200 rounded-lg p-3 space-y-3">
+      <div className="flex justify-between items-baseline">
+        <h4 className="font-bold text-slate-800 text-sm">{strategy.name}</h4>
+        <span className="text-xl font-bold" style={{ color }}>{result.stats.chunkCount} <span className="text-xs font-normal text-slate-500">chunks</span></span>
+      </div>
+      {result.warnings.map(w => (
+        <p key={w} className="text-[10px] text-orange-700">⚠ {w}</p>
+      ))}
+      <div className="grid grid-cols-3 gap-2 text-center text-[11px]">
+        <div className="bg-slate-50 rounded p-1"><span className="block text-slate-500">Média</span><strong>{result.stats.avgTokens.toFixed(1)}</strong> tokens</div>
+        <div className="bg-slate-50 rounded p-1"><span className="block text-slate-500">Mín</span><strong>{result.stats.minTokens}</strong></div>
+        <div className="bg-slate-50 rounded p-1"><span className="block text-slate-500">Máx</span><strong>{result.stats.maxTokens}</strong></div>
+      </div>
+      <div className="h-40">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={result.stats.histogram}>
+            <XAxis dataKey="range" tick={{ fontSize: 9 }} interval={0} angle={-30} textAnchor="end" height={40} />
+            <YAxis allowDecimals={false} tick={{ fontSize: 10 }} width={30} />
+            <Tooltip />
+            <Bar dataKey="count" name="Chunks" fill={color} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      <div>
+        <span className="text-xs font-semibold text-slate-600">Fronteiras (fim ‖ início)</span>
+        <ul className="mt-1 space-y-1">
+          {result.chunks.slice(0, BOUNDARY_PREVIEWS).map((chunk, i) => {
+            const next = result.chunks[i + 1];
+            if (!next || next.source !== chunk.source) return null;
+            return (
+              <li key={chunk.id} className="text-[10px] font-mono bg-slate-50 rounded p-1.5 text-slate-600 break-words">
+                …{chunk.content.slice(-60)} <span className="text-rose-500 font-bold">‖</span> {next.content.slice(0, 60)}…
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+const ChunkingComparisonPanel: React.FC<Props> = ({ docs, paramsByStrategy, getEmbeddingProvider }) => {
+  const [strategyA, setStrategyA] = useState<ChunkingStrategyId>('fixed-window');
+  const [strategyB, setStrategyB] = useState<ChunkingStrategyId>('structure-aware');
+  const [results, setResults] = useState<ComparisonResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const runComparison = async () => {
+    setIsRunning(true);
+    try {
+      const compared: ComparisonResult[] = [];
+      for (const id of [strategyA, strategyB]) {
+        const params = paramsByStrategy[id] || getDefaultChunkingParams(id);
+        const warnings: string[] = [];
+        const chunks = await runChunkingStrategy(id, docs, params, id === 'semantic-breakpoint' ? getEmbeddingProvider() : undefined, message => warnings.push(message));
+        compared.push({ strategyId: id, chunks, stats: computeChunkingStats(chunks), warnings });
+      }
+      setResults(compared);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const selectClass = "border border-slate-300 rounded-md px-2 py-1.5 text-sm focus:ring-1 focus:ring-indigo-500 outline-none";
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg p-4 shadow-sm space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="font-bold text-slate-800 mr-auto">Comparação de Estratégias</h3>
+        <select className={selectClass} value={strategyA} onChange={(e) => setStrategyA(e.target.value as ChunkingStrategyId)}>
+          {listChunkingStrategies().map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+        <span className="text-slate-400 text-sm">vs</span>
+        <select className={selectClass} value={strategyB} onChange={(e) => setStrategyB(e.target.value as ChunkingStrategyId)}>
+          {listChunkingStrategies().map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+        <button onClick={runComparison} disabled={isRunning || docs.length === 0} className="bg-slate-800 hover:bg-slate-700 text-white px-4 py-1.5 rounded-md text-sm font-medium disabled:opacity-50">
+          {isRunning ? 'Comparando...' : 'Comparar'}
+        </button>
+      </div>
+
+      {results.length === 2 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <ComparisonColumn result={results[0]} color="#6366f1" />
+          <ComparisonColumn result={results[1]} color="#10b981" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChunkingComparisonPanel;
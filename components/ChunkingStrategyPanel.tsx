@@ -0,0 +1,62 @@
+import React from 'react';
+import { ChunkingStrategyId, ChunkingParams } from '../types';
+import { listChunkingStrategies, getChunkingStrategy } from '../services/chunkingService';
+
+interface Props {
+  strategyId: ChunkingStrategyId;
+  params: ChunkingParams;
+  onStrategyChange: (id: ChunkingStrategyId) => void;
+  onParamsChange: (params: ChunkingParams) => void;
+  onApply?: () => void; // Re-segmenta o corpus já carregado
+  disabled?: boolean;
+}
+
+const ChunkingStrategyPanel: React.FC<Props> = ({ strategyId, params, onStrategyChange, onParamsChange, onApply, disabled = false }) => {
+  const strategy = getChunkingStrategy(strategyId);
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg p-4 shadow-sm">
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col text-xs font-semibold text-slate-600">
+          Estratégia de Chunking
+          <select
+            className="mt-1 border border-slate-300 rounded-md px-2 py-1.5 text-sm font-normal focus:ring-1 focus:ring-indigo-500 outline-none"
+            value={strategyId}
+            disabled={disabled}
+            onChange={(e) => onStrategyChange(e.target.value as ChunkingStrategyId)}
+          >
+            {listChunkingStrategies().map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+        </label>
+
+        {strategy.parameters.map(spec => (
+          <label key={spec.key} className="flex flex-col text-xs font-semibold text-slate-600">
+            {spec.label}
+            <input
+              type="number"
+              className="mt-1 w-28 border border-slate-300 rounded-md px-2 py-1.5 text-sm font-normal focus:ring-1 focus:ring-indigo-500 outline-none"
+              min={spec.min}
+              max={spec.max}
+              step={spec.step}
+              disabled={disabled}
+              value={params[spec.key] ?? spec.defaultValue}
+              onChange={(e) => {
+                const value = Math.min(spec.max, Math.max(spec.min, Number(e.target.value)));
+                onParamsChange({ ...params, [spec.key]: value });
+              }}
+            />
+          </label>
+        ))}
+
+        {onApply && (
+          <button onClick={onApply} disabled={disabled} className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-1.5 rounded-md text-sm font-medium shadow-sm disabled:opacity-50">
+            Re-segmentar
+          </button>
+        )}
+      </div>
+      <p className="text-[11px] text-slate-500 mt-2">{strategy.description}</p>
+    </div>
+  );
+};
+
+export default ChunkingStrategyPanel;
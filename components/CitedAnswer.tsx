@@ -0,0 +1,85 @@
+import React from 'react';
+import { AnswerCitation, FaithfulnessReport } from '../types';
+import { splitAnswerByCitations } from '../services/citationService';
+
+interface Props {
+  content: string;
+  citations: AnswerCitation[];
+  faithfulness?: FaithfulnessReport;
+  onCitationClick: (citation: AnswerCitation) => void;
+}
+
+// Resposta do RAG Lab com os marcadores [n] trocados por chips clicáveis (trecho + nó no grafo)
+const CitedAnswer: React.FC<Props> = ({ content, citations, faithfulness, onCitationClick }) => {
+  const byRef = new Map<number, AnswerCitation>(citations.map(c => [c.ref, c]));
+  const invalidCount = citations.filter(c => !c.valid).length;
+
+  return (
+    <div>
+      <p className="text-sm whitespace-pre-wrap">
+        {splitAnswerByCitations(content).map((segment, i) => {
+          if (typeof segment === 'string') return <React.Fragment key={i}>{segment}</React.Fragment>;
+          return (
+            <span key={i} className="inline-flex gap-0.5 align-super">
+              {segment.map(ref => {
+                const citation = byRef.get(ref);
+                const passage = citation?.passage;
+                return citation?.valid && passage ? (
+                  <button
+                    key={ref}
+                    onClick={() => onCitationClick(citation)}
+                    title={`${passage.label}${passage.source ? ` — ${passage.source}` : ''}`}
+                    className={`text-[9px] font-bold px-1 rounded border leading-tight ${passage.kind === 'chunk' ? 'bg-indigo-50 text-indigo-700 border-indigo-200 hover:bg-indigo-100' : 'bg-amber-50 text-amber-800 border-amber-200 hover:bg-amber-100'}`}
+                  >
+                    {ref}
+                  </button>
+                ) : (
+                  <span key={ref} title="Citação sem trecho correspondente no contexto" className="text-[9px] font-bold px-1 rounded border leading-tight bg-red-50 text-red-600 border-red-300 line-through">
+                    {ref}
+                  </span>
+                );
+              })}
+            </span>
+          );
+        })}
+      </p>
+      {citations.length > 0 && (
+        <div className="mt-2 pt-2 border-t border-slate-100 flex flex-wrap gap-1">
+          {citations.filter(c => c.valid && c.passage).map(c => (
+            <button
+              key={c.ref}
+              onClick={() => onCitationClick(c)}
+              className="text-[10px] bg-slate-50 text-slate-600 border border-slate-200 px-2 py-0.5 rounded-full hover:bg-indigo-50 hover:text-indigo-700 truncate max-w-[220px]"
+            >
+              [{c.ref}] {c.passage!.label}
+            </button>
+          ))}
+        </div>
+      )}
+      {faithfulness && faithfulness.claims.length > 0 && (
+        <details className="mt-2 text-[10px]">
+          <summary className={`cursor-pointer font-semibold ${faithfulness.claims.every(c => c.supported) ? 'text-emerald-700' : 'text-orange-700'}`}>
+            Fidelidade {Math.round(faithfulness.score * 100)}% ({faithfulness.claims.filter(c => c.supported).length}/{faithfulness.claims.length} afirmações sustentadas){faithfulness.regenerated ? ' · regerada' : ''}
+          </summary>
+          <ul className="mt-1 space-y-0.5">
+            {faithfulness.claims.map((c, i) => (
+              <li key={i} className="flex gap-1 items-start">
+                <span className={`shrink-0 px-1 rounded border font-bold ${c.supported ? 'bg-emerald-50 text-emerald-700 border-emerald-200' : 'bg-red-50 text-red-600 border-red-200'}`}>
+                  {c.supported ? 'sustentada' : 'sem suporte'}
+                </span>
+                <span className="text-slate-600">{c.claim}{c.evidenceRef ? ` [${c.evidenceRef}]` : ''}</span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {invalidCount > 0 && (
+        <div className="mt-1 text-[10px] text-red-600 font-semibold">
+          ⚠ {invalidCount} citação(ões) inválida(s): número fora do contexto recuperado.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CitedAnswer;
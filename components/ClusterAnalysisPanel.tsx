@@ -2,6 +2,7 @@
 import React, { useMemo, useState } from 'react';
 import { GraphData, ClusterProfile, ClusterSimilarity } from '../types';
 import { analyzeClusterProfiles, findSimilarClusters } from '../services/clusterAnalysisService';
+import { getTopLevelReports } from '../services/communitySummaryService';
 
 interface Props {
   graphData: GraphData;
@@ -13,7 +14,11 @@ const ClusterAnalysisPanel: React.FC<Props> = ({ graphData, onClusterSelect }) =
   const [searchTerm, setSearchTerm] = useState('');
 
   // Computar perfis apenas quando os dados mudarem
-  const profiles = useMemo(() => analyzeClusterProfiles(graphData.nodes), [graphData]);
+  const profiles = useMemo(() => analyzeClusterProfiles(graphData.nodes, graphData.aliases), [graphData]);
+
+  // Relatórios do nível mais alto indexados pela comunidade (GraphNode.group)
+  const reportsByCluster = useMemo(() => new Map(getTopLevelReports(graphData).map(r => [r.communityId, r])), [graphData]);
+  const reportById = useMemo(() => new Map((graphData.communityReports || []).map(r => [r.id, r])), [graphData]);
 
   // Computar similaridades quando a seleção mudar
   const similarities = useMemo(() => {
@@ -24,7 +29,8 @@ const ClusterAnalysisPanel: React.FC<Props> = ({ graphData, onClusterSelect }) =
   // Filtrar clusters pela busca
   const filteredProfiles = profiles.filter(p => 
     p.clusterId.toString().includes(searchTerm) || 
-    p.topKeywords.some(k => k.word.includes(searchTerm.toLowerCase()))
+    p.topKeywords.some(k => k.word.toLowerCase().includes(searchTerm.toLowerCase())) ||
+    (reportsByCluster.get(p.clusterId)?.title.toLowerCase().includes(searchTerm.toLowerCase()) ?? false)
   );
 
   const handleSelect = (id: number) => {
@@ -77,6 +83,7 @@ const ClusterAnalysisPanel: React.FC<Props> = ({ graphData, onClusterSelect }) =
           const isSimilar = similarities.some(s => s.similarClusterId === profile.clusterId);
           const similarityData = similarities.find(s => s.similarClusterId === profile.clusterId);
           const color = colors[profile.clusterId % colors.length];
+          const report = reportsByCluster.get(profile.clusterId);
 
           return (
             <div 
@@ -102,6 +109,13 @@ const ClusterAnalysisPanel: React.FC<Props> = ({ graphData, onClusterSelect }) =
                 <span className="text-xs text-slate-400 bg-slate-100 px-2 py-0.5 rounded-full">{profile.nodeCount} nós</span>
               </div>
 
+              {report && (
+                <p className="text-xs font-semibold text-slate-700 mb-1">
+                  {report.title}
+                  <span className="ml-1 text-[10px] font-mono text-indigo-600">★ {report.rating.toFixed(1)}</span>
+                </p>
+              )}
+
               <div className="flex flex-wrap gap-1 mb-1">
                 {profile.topKeywords.slice(0, 5).map((kw, i) => (
                   <span 
@@ -122,6 +136,25 @@ const ClusterAnalysisPanel: React.FC<Props> = ({ graphData, onClusterSelect }) =
                     <span className="font-semibold text-amber-700">Conexão Semântica:</span> Compartilha {similarityData?.sharedKeywords.length} termos ({similarityData?.sharedKeywords.slice(0,3).join(', ')}...)
                  </div>
               )}
+
+              {isSelected && report && (
+                <div className="mt-2 pt-2 border-t border-indigo-200 space-y-1.5 text-[11px] text-slate-600">
+                  <p>{report.summary}</p>
+                  {report.keyEntities.length > 0 && (
+                    <p><span className="font-semibold text-slate-700">Entidades-chave:</span> {report.keyEntities.join(', ')}</p>
+                  )}
+                  {report.findings.length > 0 && (
+                    <ul className="list-disc pl-4 space-y-0.5">
+                      {report.findings.map((f, i) => <li key={i}><strong>{f.summary}</strong> — {f.explanation}</li>)}
+                    </ul>
+                  )}
+                  <p className="text-slate-500 italic">Nota {report.rating.toFixed(1)}: {report.ratingExplanation}</p>
+                  {report.childIds.length > 0 && (
+                    <p><span className="font-semibold text-slate-700">Subcomunidades:</span> {report.childIds.map(id => reportById.get(id)?.title || id).join(' | ')}</p>
+                  )}
+                  <p className="text-[10px] text-slate-400">Nível {report.level} · {report.method === 'llm' ? 'Resumo LLM' : 'Resumo heurístico'}</p>
+                </div>
+              )}
             </div>
           );
         })}
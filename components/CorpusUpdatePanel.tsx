@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { CorpusChangeSummary } from '../types';
+
+interface Props {
+  documents: Array<{ filename: string, text: string }>;
+  summary: CorpusChangeSummary | null;
+  onUpdate: (files: File[], removeMissing: boolean) => void;
+  disabled?: boolean;
+}
+
+const fileListClass = "font-mono text-[10px] text-slate-600 break-all";
+
+// Atualização incremental do corpus: reenviar a pasta de documentos processa só o que mudou
+const CorpusUpdatePanel: React.FC<Props> = ({ documents, summary, onUpdate, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [removeMissing, setRemoveMissing] = useState(false);
+
+  const handleFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = ''; // Permite reenviar os mesmos arquivos
+    if (files.length > 0) onUpdate(files, removeMissing);
+  };
+
+  return (
+    <div className="bg-slate-50 border border-slate-200 rounded-lg mb-4">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex justify-between items-center px-4 py-2 text-sm font-semibold text-slate-700">
+        <span>
+          🔄 Atualizar corpus ({documents.length} documento(s))
+          {summary && (
+            <span className="ml-2 text-[10px] font-normal text-slate-400">
+              última: +{summary.added.length} ~{summary.changed.length} −{summary.removed.length}
+            </span>
+          )}
+        </span>
+        <span className="text-slate-400">{isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 border-t border-slate-200 pt-3 space-y-3">
+          <p className="text-xs text-slate-500">
+            Documentos são comparados por nome e hash do conteúdo. Apenas os novos e alterados são segmentados, enriquecidos e vetorizados;
+            os chunks entram no grafo atual por kNN e herdam a comunidade dos vizinhos, sem reconstrução completa.
+          </p>
+          <div className="flex flex-wrap items-center gap-4">
+            <label className={`inline-block ${disabled ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+              <span className="bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded-md shadow-sm text-xs font-medium">Selecionar documentos</span>
+              <input type="file" multiple accept=".pdf,application/pdf" className="hidden" onChange={handleFiles} disabled={disabled} />
+            </label>
+            <label className="flex items-center text-xs text-slate-600">
+              <input type="checkbox" checked={removeMissing} onChange={e => setRemoveMissing(e.target.checked)} disabled={disabled} className="mr-1" />
+              Remover documentos ausentes da seleção
+            </label>
+          </div>
+
+          <details className="text-xs">
+            <summary className="cursor-pointer text-slate-500">Documentos no corpus</summary>
+            <ul className="mt-1 space-y-0.5">
+              {documents.map(d => (
+                <li key={d.filename} className={fileListClass}>{d.filename} <span className="text-slate-400">({d.text.length.toLocaleString()} caracteres)</span></li>
+              ))}
+            </ul>
+          </details>
+
+          {summary && (
+            <div className="bg-white border border-slate-200 rounded p-3 space-y-2">
+              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                Resumo da atualização <span className="font-normal normal-case text-slate-400">({new Date(summary.timestamp).toLocaleString()})</span>
+              </h4>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+                <div><span className="text-emerald-700 font-semibold">Novos:</span> {summary.added.length}</div>
+                <div><span className="text-amber-700 font-semibold">Alterados:</span> {summary.changed.length}</div>
+                <div><span className="text-red-700 font-semibold">Removidos:</span> {summary.removed.length}</div>
+                <div><span className="text-slate-500 font-semibold">Inalterados:</span> {summary.unchanged.length}</div>
+                <div>Chunks: +{summary.chunksAdded} / −{summary.chunksRemoved}</div>
+                <div>Nós: +{summary.nodesAdded} / −{summary.nodesRemoved}</div>
+                <div>Arestas: +{summary.linksAdded} / −{summary.linksRemoved}</div>
+                <div>Comunidades afetadas: {summary.affectedCommunities.length > 0 ? summary.affectedCommunities.join(', ') : '—'}</div>
+              </div>
+              {[...summary.added.map(f => `+ ${f}`), ...summary.changed.map(f => `~ ${f}`), ...summary.removed.map(f => `− ${f}`)].map(line => (
+                <p key={line} className={fileListClass}>{line}</p>
+              ))}
+              {summary.warnings.map(w => (
+                <p key={w} className="text-[10px] text-orange-700">⚠ {w}</p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CorpusUpdatePanel;
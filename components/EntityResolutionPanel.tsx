@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { AliasTable, EmbeddingProvider, EntityMergeSuggestion } from '../types';
+import { suggestEmbeddingMerges } from '../services/entityResolutionService';
+
+interface Props {
+  aliasTable: AliasTable;
+  onAcceptMerge: (suggestion: EntityMergeSuggestion) => void;
+  getEmbeddingProvider: () => EmbeddingProvider;
+  onExport: () => void;
+  disabled?: boolean;
+}
+
+const MERGED_PREVIEWS = 8;
+
+const EntityResolutionPanel: React.FC<Props> = ({ aliasTable, onAcceptMerge, getEmbeddingProvider, onExport, disabled = false }) => {
+  const [suggestions, setSuggestions] = useState<EntityMergeSuggestion[]>([]);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+
+  const mergedEntries = aliasTable.entries.filter(e => e.aliases.length > 1);
+  const aliasCount = aliasTable.entries.reduce((acc, e) => acc + e.aliases.length, 0);
+
+  const runSuggestions = async () => {
+    setIsSuggesting(true);
+    try {
+      setSuggestions(await suggestEmbeddingMerges(aliasTable, getEmbeddingProvider()));
+    } catch (err) {
+      console.error("Erro nas sugestões por embedding", err);
+      setSuggestions([]);
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const accept = (suggestion: EntityMergeSuggestion) => {
+    onAcceptMerge(suggestion);
+    setSuggestions(suggestions.filter(s => s !== suggestion && s.merge !== suggestion.merge && s.keep !== suggestion.merge));
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg p-4 shadow-sm space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="font-bold text-slate-800 text-sm mr-auto">
+          Resolução de Entidades
+          <span className="font-normal text-slate-500 ml-2">{aliasCount} grafias → {aliasTable.entries.length} formas canônicas</span>
+        </h3>
+        <button onClick={runSuggestions} disabled={disabled || isSuggesting || aliasTable.entries.length < 2} className="border border-slate-300 hover:bg-slate-50 text-slate-600 px-3 py-1.5 rounded-md text-xs font-medium disabled:opacity-50">
+          {isSuggesting ? 'Calculando...' : 'Sugerir fusões (embedding)'}
+        </button>
+        <button onClick={onExport} disabled={aliasTable.entries.length === 0} className="border border-slate-300 hover:bg-slate-50 text-slate-600 px-3 py-1.5 rounded-md text-xs font-medium disabled:opacity-50">
+          CSV
+        </button>
+      </div>
+
+      {mergedEntries.length > 0 && (
+        <ul className="grid grid-cols-1 md:grid-cols-2 gap-1">
+          {mergedEntries.slice(0, MERGED_PREVIEWS).map(entry => (
+            <li key={entry.canonical} className="text-[11px] bg-slate-50 rounded p-1.5 text-slate-600">
+              <strong className="text-slate-800">{entry.canonical}</strong> ← {entry.aliases.filter(a => a !== entry.canonical).join(' | ')}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {suggestions.length > 0 && (
+        <div>
+          <span className="text-xs font-semibold text-slate-600">Sugestões (similaridade de embedding)</span>
+          <ul className="mt-1 space-y-1">
+            {suggestions.map(s => (
+              <li key={`${s.keep}|${s.merge}`} className="flex items-center justify-between text-[11px] bg-amber-50 border border-amber-100 rounded p-1.5 text-slate-700">
+                <span><strong>{s.merge}</strong> → <strong>{s.keep}</strong> <span className="text-slate-400 font-mono ml-1">{s.score.toFixed(3)}</span></span>
+                <button onClick={() => accept(s)} disabled={disabled} className="bg-amber-500 hover:bg-amber-600 text-white px-2 py-0.5 rounded text-[10px] font-bold disabled:opacity-50">Aceitar</button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EntityResolutionPanel;
@@ -0,0 +1,100 @@
+import React from 'react';
+import { SimilarityEdgeParams, CommunityDetectionParams, CommunityAlgorithm } from '../types';
+
+interface Props {
+  params: SimilarityEdgeParams;
+  onChange: (params: SimilarityEdgeParams) => void;
+  extractEntities: boolean; // Camada de entidades/relações (grafo de conhecimento)
+  onExtractEntitiesChange: (value: boolean) => void;
+  communityParams: CommunityDetectionParams;
+  onCommunityParamsChange: (params: CommunityDetectionParams) => void;
+  disabled?: boolean;
+}
+
+const inputClass = "mt-1 w-24 border border-slate-300 rounded-md px-2 py-1.5 text-sm font-normal focus:ring-1 focus:ring-indigo-500 outline-none";
+
+const GraphConstructionPanel: React.FC<Props> = ({ params, onChange, extractEntities, onExtractEntitiesChange, communityParams, onCommunityParamsChange, disabled = false }) => {
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg p-4 shadow-sm">
+      <div className="flex flex-wrap items-end gap-3">
+        <h3 className="font-bold text-slate-800 text-sm mr-auto self-center">Construção do Grafo</h3>
+        <label className="flex flex-col text-xs font-semibold text-slate-600">
+          k vizinhos
+          <input
+            type="number"
+            className={inputClass}
+            min={0}
+            max={50}
+            step={1}
+            disabled={disabled}
+            value={params.k}
+            onChange={(e) => onChange({ ...params, k: Math.min(50, Math.max(0, parseInt(e.target.value) || 0)) })}
+          />
+        </label>
+        <label className="flex flex-col text-xs font-semibold text-slate-600">
+          Cosseno mínimo
+          <input
+            type="number"
+            className={inputClass}
+            min={0}
+            max={1}
+            step={0.05}
+            disabled={disabled}
+            value={params.threshold}
+            onChange={(e) => onChange({ ...params, threshold: Math.min(1, Math.max(0, Number(e.target.value))) })}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-xs font-semibold text-slate-600 pb-2">
+          <input
+            type="checkbox"
+            disabled={disabled}
+            checked={params.mutual}
+            onChange={(e) => onChange({ ...params, mutual: e.target.checked })}
+          />
+          kNN mútuo
+        </label>
+        <label className="flex items-center gap-2 text-xs font-semibold text-slate-600 pb-2">
+          <input
+            type="checkbox"
+            disabled={disabled}
+            checked={extractEntities}
+            onChange={(e) => onExtractEntitiesChange(e.target.checked)}
+          />
+          Extrair entidades e relações
+        </label>
+        <label className="flex flex-col text-xs font-semibold text-slate-600">
+          Comunidades
+          <select
+            className={inputClass.replace('w-24', 'w-28')}
+            disabled={disabled}
+            value={communityParams.algorithm}
+            onChange={(e) => onCommunityParamsChange({ ...communityParams, algorithm: e.target.value as CommunityAlgorithm })}
+          >
+            <option value="leiden">Leiden</option>
+            <option value="louvain">Louvain</option>
+          </select>
+        </label>
+        <label className="flex flex-col text-xs font-semibold text-slate-600">
+          Resolução (γ)
+          <input
+            type="number"
+            className={inputClass}
+            min={0.05}
+            max={5}
+            step={0.05}
+            disabled={disabled}
+            value={communityParams.resolution}
+            onChange={(e) => onCommunityParamsChange({ ...communityParams, resolution: Math.min(5, Math.max(0.05, Number(e.target.value))) })}
+          />
+        </label>
+      </div>
+      <p className="text-[11px] text-slate-500 mt-2">
+        Conecta cada chunk aos k vizinhos mais próximos no espaço refinado pela CNN (k = 0 usa apenas o raio de cosseno). A confiança da aresta é o próprio cosseno.
+        A extração de entidades usa o LLM ativo (com fallback heurístico) para adicionar órgãos, leis, pessoas, prazos e conceitos ligados por cita/revoga/altera/define/obriga.
+        As comunidades são detectadas sobre as arestas ponderadas (γ &gt; 1 gera comunidades menores e mais níveis na hierarquia).
+      </p>
+    </div>
+  );
+};
+
+export default GraphConstructionPanel;
@@ -124,8 +124,15 @@ const GraphMetricsDashboard: React.FC<Props> = ({ metrics }) => {
                 value={metrics.modularity} 
                 min={0} max={1} 
                 ideal="> 0.3"
-                description="Mede quão bem o grafo se divide em comunidades distintas."
+                description={metrics.communityAlgorithm
+                    ? `Newman ponderada: ${metrics.communityCount} comunidades via ${metrics.communityAlgorithm}.`
+                    : "Mede quão bem o grafo se divide em comunidades distintas."}
             />
+            {metrics.modularityByLevel && metrics.modularityByLevel.length > 1 && (
+                <p className="text-[10px] text-slate-500 -mt-2 mb-4">
+                    Q por nível hierárquico: {metrics.modularityByLevel.map((q, level) => `N${level}=${q.toFixed(3)}`).join(' · ')}
+                </p>
+            )}
             <QualityIndicator 
                 label="Silhouette Score (Coesão)" 
                 value={metrics.silhouetteScore} 
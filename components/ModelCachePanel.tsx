@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import { listCachedModels, invalidateModel, clearCache, getCacheStats, CacheNamespace, CACHE_NAMESPACE_LABELS } from '../services/cacheService';
+
+interface Props {
+  disabled?: boolean;
+}
+
+// Entradas do cache de chamadas por modelo; invalidar força o recálculo após trocar/atualizar um modelo
+const ModelCachePanel: React.FC<Props> = ({ disabled = false }) => {
+  const [models, setModels] = useState<Array<{ model: string; count: number }>>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => listCachedModels().then(list => { setModels(list); setError(null); }).catch(e => setError(String(e)));
+
+  useEffect(() => { refresh(); }, []);
+
+  const handleInvalidate = async (model: string) => {
+    await invalidateModel(model);
+    refresh();
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Apagar todo o cache de chamadas (enriquecimento, embeddings, HyDE, relevância)?')) return;
+    await clearCache();
+    refresh();
+  };
+
+  return (
+    <div className="md:col-span-2 space-y-2 border-t border-slate-200 pt-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Cache de chamadas (conteúdo + modelo + versão do prompt)</h4>
+        <div className="space-x-2">
+          <button onClick={refresh} className="text-[10px] text-indigo-600 hover:underline">Atualizar</button>
+          <button onClick={handleClear} disabled={disabled || models.length === 0} className="text-[10px] text-red-600 hover:underline disabled:opacity-50">Limpar tudo</button>
+        </div>
+      </div>
+      <p className="text-[10px] text-slate-500">
+        Sessão: {(Object.keys(CACHE_NAMESPACE_LABELS) as CacheNamespace[]).map(ns => {
+          const { hits, misses } = getCacheStats(ns);
+          return `${CACHE_NAMESPACE_LABELS[ns]} ${hits}/${hits + misses}`;
+        }).join(' · ')} (acertos/consultas)
+      </p>
+      {error && <p className="text-[10px] text-red-600">Cache indisponível: {error}</p>}
+      {models.length === 0 ? (
+        <p className="text-[10px] text-slate-400">Nenhuma entrada em cache.</p>
+      ) : (
+        <ul className="text-xs space-y-1">
+          {models.map(m => (
+            <li key={m.model} className="flex items-center justify-between bg-white border border-slate-200 rounded px-2 py-1">
+              <span className="font-mono text-slate-700">{m.model} <span className="text-slate-400">({m.count.toLocaleString()} entradas)</span></span>
+              <button onClick={() => handleInvalidate(m.model)} disabled={disabled} className="text-[10px] text-orange-700 hover:underline disabled:opacity-50">Invalidar</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ModelCachePanel;
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { PipelineStage, ProjectSummary } from '../types';
+
+export type ProjectSaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+interface Props {
+  projects: ProjectSummary[];
+  activeProjectId: string | null;
+  activeProjectName: string;
+  saveStatus: ProjectSaveStatus;
+  available: boolean; // IndexedDB acessível neste navegador
+  onOpen: (id: string, stage: PipelineStage) => void;
+  onNew: () => void;
+  onRename: (name: string) => void;
+  onDelete: (id: string) => void;
+  onExport?: () => void; // Ausente quando não há dados para exportar
+  onImport: (file: File) => void;
+  disabled?: boolean;
+}
+
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  [PipelineStage.UPLOAD]: '1. Ingestão',
+  [PipelineStage.EMBEDDINGS]: '2. Vetores',
+  [PipelineStage.CLUSTERING]: '3. Clusters',
+  [PipelineStage.GRAPH]: '4. Grafo',
+  [PipelineStage.QUERY]: '5. RAG Lab'
+};
+
+const SAVE_STATUS_LABELS: Record<ProjectSaveStatus, string> = {
+  idle: 'não salvo',
+  saving: 'salvando...',
+  saved: 'salvo',
+  error: 'falha ao salvar'
+};
+
+const inputClass = "border border-slate-300 rounded-md px-2 py-1 text-xs focus:ring-1 focus:ring-indigo-500 outline-none disabled:bg-slate-100";
+
+// Seletor de projetos persistidos: reabre qualquer etapa já concluída sem reprocessar
+const ProjectPickerPanel: React.FC<Props> = ({ projects, activeProjectId, activeProjectName, saveStatus, available, onOpen, onNew, onRename, onDelete, onExport, onImport, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [stageById, setStageById] = useState<Record<string, PipelineStage>>({});
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg shadow-sm mb-2">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex justify-between items-center px-4 py-2 text-sm font-semibold text-slate-700">
+        <span>
+          📁 Projeto: {activeProjectId ? activeProjectName : <span className="font-normal text-slate-400">nenhum (salvo automaticamente após a ingestão)</span>}
+          {activeProjectId && (
+            <span className={`ml-2 text-[10px] font-normal ${saveStatus === 'error' ? 'text-red-600' : 'text-slate-400'}`}>{SAVE_STATUS_LABELS[saveStatus]}</span>
+          )}
+        </span>
+        <span className="text-slate-400">{isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 border-t border-slate-200 pt-3 space-y-3">
+          {!available && (
+            <p className="text-xs text-red-600">IndexedDB indisponível neste navegador: os projetos não podem ser salvos (exportação em pacote continua disponível).</p>
+          )}
+          <div className="flex flex-wrap items-center gap-2">
+            {available && activeProjectId && (
+              <input
+                className={`${inputClass} w-64`}
+                disabled={disabled}
+                value={activeProjectName}
+                onChange={(e) => onRename(e.target.value)}
+                placeholder="Nome do projeto"
+              />
+            )}
+            <button onClick={onNew} disabled={disabled} className="text-xs bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white px-3 py-1 rounded-md font-medium">
+              Novo projeto
+            </button>
+            <button onClick={onExport} disabled={disabled || !onExport} className="text-xs border border-slate-300 hover:bg-slate-50 disabled:opacity-50 text-slate-700 px-3 py-1 rounded-md font-medium">
+              Exportar pacote (.zip)
+            </button>
+            <label className={`text-xs border border-slate-300 text-slate-700 px-3 py-1 rounded-md font-medium ${disabled ? 'opacity-50' : 'cursor-pointer hover:bg-slate-50'}`}>
+              Importar pacote
+              <input
+                type="file"
+                accept=".zip,application/zip"
+                className="hidden"
+                disabled={disabled}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) onImport(file);
+                }}
+              />
+            </label>
+          </div>
+          {available && (projects.length === 0 ? (
+            <p className="text-xs text-slate-400">Nenhum projeto salvo.</p>
+          ) : (
+            <table className="min-w-full text-xs">
+              <thead>
+                <tr className="text-left text-slate-500 uppercase text-[10px]">
+                  <th className="py-1">Nome</th><th className="py-1">Chunks</th><th className="py-1">Atualizado</th><th className="py-1">Etapa</th><th />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {projects.map(p => {
+                  const selectedStage = stageById[p.id] || p.stage;
+                  return (
+                    <tr key={p.id} className={p.id === activeProjectId ? 'bg-indigo-50' : ''}>
+                      <td className="py-1 font-semibold text-slate-700">{p.name}</td>
+                      <td className="py-1 text-slate-500">{p.chunkCount.toLocaleString()}</td>
+                      <td className="py-1 text-slate-500">{new Date(p.updatedAt).toLocaleString()}</td>
+                      <td className="py-1">
+                        <select
+                          className={inputClass}
+                          disabled={disabled}
+                          value={selectedStage}
+                          onChange={(e) => setStageById({ ...stageById, [p.id]: e.target.value as PipelineStage })}
+                        >
+                          {p.availableStages.map(s => <option key={s} value={s}>{STAGE_LABELS[s]}</option>)}
+                        </select>
+                      </td>
+                      <td className="py-1 text-right space-x-2 whitespace-nowrap">
+                        <button onClick={() => onOpen(p.id, selectedStage)} disabled={disabled} className="text-indigo-600 hover:underline disabled:opacity-50">Abrir</button>
+                        <button
+                          onClick={() => { if (window.confirm(`Excluir o projeto "${p.name}"?`)) onDelete(p.id); }}
+                          disabled={disabled}
+                          className="text-red-600 hover:underline disabled:opacity-50"
+                        >
+                          Excluir
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectPickerPanel;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { EmbeddingProviderConfig, EmbeddingProviderId, LLMProviderConfig, LLMProviderId } from '../types';
+import { EMBEDDING_PROVIDER_OPTIONS } from '../services/embeddingService';
+import { LLM_PROVIDER_OPTIONS } from '../services/llmService';
+import { hasGeminiApiKey } from '../services/geminiClient';
+import ModelCachePanel from './ModelCachePanel';
+
+interface Props {
+  embeddingConfig: EmbeddingProviderConfig;
+  onEmbeddingConfigChange: (config: EmbeddingProviderConfig) => void;
+  llmConfig: LLMProviderConfig;
+  onLLMConfigChange: (config: LLMProviderConfig) => void;
+  disabled?: boolean;
+}
+
+const inputClass = "w-full border border-slate-300 rounded-md px-2 py-1 text-xs focus:ring-1 focus:ring-indigo-500 outline-none disabled:bg-slate-100";
+
+const ProviderSettingsPanel: React.FC<Props> = ({ embeddingConfig, onEmbeddingConfigChange, llmConfig, onLLMConfigChange, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const option = EMBEDDING_PROVIDER_OPTIONS.find(o => o.id === embeddingConfig.providerId);
+  const llmOption = LLM_PROVIDER_OPTIONS.find(o => o.id === llmConfig.providerId);
+
+  const updateEmbedding = (patch: Partial<EmbeddingProviderConfig>) => onEmbeddingConfigChange({ ...embeddingConfig, ...patch });
+  const updateLLM = (patch: Partial<LLMProviderConfig>) => onLLMConfigChange({ ...llmConfig, ...patch });
+
+  return (
+    <div className="bg-slate-50 border border-slate-200 rounded-lg mb-4">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex justify-between items-center px-4 py-2 text-sm font-semibold text-slate-700">
+        <span>⚙ Provedores de IA <span className="font-normal text-slate-500 ml-2">LLM: {llmOption?.label} | Embedding: {option?.label}</span></span>
+        <span className="text-slate-400">{isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 grid grid-cols-1 md:grid-cols-2 gap-4 border-t border-slate-200 pt-3">
+          <div className="space-y-2">
+            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">LLM (HyDE, CRAG, Enriquecimento, Resposta)</h4>
+            <select
+              className={inputClass}
+              value={llmConfig.providerId}
+              disabled={disabled}
+              onChange={(e) => onLLMConfigChange({ providerId: e.target.value as LLMProviderId })}
+            >
+              {LLM_PROVIDER_OPTIONS.map(o => (
+                <option key={o.id} value={o.id} disabled={o.id === 'gemini' && !hasGeminiApiKey()}>
+                  {o.label}{o.id === 'gemini' && !hasGeminiApiKey() ? ' — sem API_KEY' : ''}
+                </option>
+              ))}
+            </select>
+            {llmOption?.requiresBaseUrl && (
+              <>
+                <input className={inputClass} disabled={disabled} placeholder="Base URL (ex: http://localhost:11434/v1)" value={llmConfig.baseUrl || ''} onChange={(e) => updateLLM({ baseUrl: e.target.value })} />
+                <input className={inputClass} disabled={disabled} placeholder="Modelo (ex: llama3.1)" value={llmConfig.model || ''} onChange={(e) => updateLLM({ model: e.target.value })} />
+                <input className={inputClass} disabled={disabled} type="password" placeholder="API Key (opcional)" value={llmConfig.apiKey || ''} onChange={(e) => updateLLM({ apiKey: e.target.value })} />
+              </>
+            )}
+            {llmConfig.providerId === 'scripted' && (
+              <p className="text-[10px] text-slate-500">Respostas determinísticas derivadas do schema. Útil para demonstrações offline e testes do fluxo.</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Embedding</h4>
+            <select
+              className={inputClass}
+              value={embeddingConfig.providerId}
+              disabled={disabled}
+              onChange={(e) => onEmbeddingConfigChange({ providerId: e.target.value as EmbeddingProviderId })}
+            >
+              {EMBEDDING_PROVIDER_OPTIONS.map(o => (
+                <option key={o.id} value={o.id} disabled={o.id === 'gemini' && !hasGeminiApiKey()}>
+                  {o.label}{o.id === 'gemini' && !hasGeminiApiKey() ? ' — sem API_KEY' : ''}
+                </option>
+              ))}
+            </select>
+            {option?.requiresBaseUrl && (
+              <>
+                <input className={inputClass} disabled={disabled} placeholder="Base URL (ex: http://localhost:11434/v1)" value={embeddingConfig.baseUrl || ''} onChange={(e) => updateEmbedding({ baseUrl: e.target.value })} />
+                <input className={inputClass} disabled={disabled} placeholder="Modelo (ex: nomic-embed-text)" value={embeddingConfig.model || ''} onChange={(e) => updateEmbedding({ model: e.target.value })} />
+                <input className={inputClass} disabled={disabled} type="password" placeholder="API Key (opcional)" value={embeddingConfig.apiKey || ''} onChange={(e) => updateEmbedding({ apiKey: e.target.value })} />
+              </>
+            )}
+            {embeddingConfig.providerId === 'local-ngram' && (
+              <label className="flex items-center gap-2 text-xs text-slate-600">
+                Dimensões
+                <input className={inputClass} disabled={disabled} type="number" min={64} max={4096} step={64} value={embeddingConfig.dimensions || 512} onChange={(e) => updateEmbedding({ dimensions: parseInt(e.target.value) || 512 })} />
+              </label>
+            )}
+          </div>
+          <ModelCachePanel disabled={disabled} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSettingsPanel;
@@ -0,0 +1,361 @@
+import React from 'react';
+import { GraphExpansionParams, GraphExpansionMethod, GraphLinkType, HybridRetrievalParams, RankFusionMethod, RerankParams, RerankMethod, CRAGParams, ExternalDocument, FaithfulnessParams, AgentParams, QueryExpansionParams, QueryExpansionStrategy } from '../types';
+import { ALL_LINK_TYPES } from '../services/graphTraversalService';
+
+interface Props {
+  queryExpansionParams: QueryExpansionParams;
+  onQueryExpansionParamsChange: (params: QueryExpansionParams) => void;
+  hybridParams: HybridRetrievalParams;
+  onHybridParamsChange: (params: HybridRetrievalParams) => void;
+  rerankParams: RerankParams;
+  onRerankParamsChange: (params: RerankParams) => void;
+  cragParams: CRAGParams;
+  onCragParamsChange: (params: CRAGParams) => void;
+  externalDocuments: ExternalDocument[];
+  onExternalDocumentsChange: (documents: ExternalDocument[]) => void;
+  expansionParams: GraphExpansionParams;
+  onExpansionParamsChange: (params: GraphExpansionParams) => void;
+  faithfulnessParams: FaithfulnessParams;
+  onFaithfulnessParamsChange: (params: FaithfulnessParams) => void;
+  agentParams: AgentParams;
+  onAgentParamsChange: (params: AgentParams) => void;
+  disabled?: boolean;
+}
+
+const inputClass = "mt-1 w-20 border border-slate-300 rounded-md px-2 py-1 text-xs font-normal focus:ring-1 focus:ring-indigo-500 outline-none";
+
+const RetrievalSettingsPanel: React.FC<Props> = ({ queryExpansionParams, onQueryExpansionParamsChange, hybridParams, onHybridParamsChange, rerankParams, onRerankParamsChange, cragParams, onCragParamsChange, externalDocuments, onExternalDocumentsChange, expansionParams, onExpansionParamsChange, faithfulnessParams, onFaithfulnessParamsChange, agentParams, onAgentParamsChange, disabled = false }) => {
+  const toggleEdgeType = (type: GraphLinkType) => {
+    const edgeTypes = expansionParams.edgeTypes.includes(type)
+      ? expansionParams.edgeTypes.filter(t => t !== type)
+      : [...expansionParams.edgeTypes, type];
+    onExpansionParamsChange({ ...expansionParams, edgeTypes });
+  };
+
+  // Base externa do CRAG (ramo Incorreto): arquivos de texto carregados localmente
+  const handleExternalUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    const loaded = await Promise.all(files.map(async (file, i) => ({ id: `ext_${Date.now()}_${i}`, title: file.name, text: await file.text() })));
+    onExternalDocumentsChange([...externalDocuments, ...loaded.filter(d => d.text.trim().length > 0)]);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg p-3 shadow-sm space-y-2">
+      <div className="flex flex-wrap items-end gap-3">
+        <h3 className="font-bold text-slate-800 text-sm mr-auto self-center">Expansão da Consulta</h3>
+        <label className="flex flex-col text-[11px] font-semibold text-slate-600">
+          Estratégia
+          <select
+            className={inputClass.replace('w-20', 'w-32')}
+            disabled={disabled}
+            value={queryExpansionParams.strategy}
+            onChange={(e) => onQueryExpansionParamsChange({ ...queryExpansionParams, strategy: e.target.value as QueryExpansionStrategy })}
+          >
+            <option value="hyde">HyDE</option>
+            <option value="multi-query">Multi-query</option>
+            <option value="decomposition">Decomposição</option>
+          </select>
+        </label>
+        {queryExpansionParams.strategy !== 'hyde' && (
+          <label className="flex flex-col text-[11px] font-semibold text-slate-600">
+            {queryExpansionParams.strategy === 'multi-query' ? 'Paráfrases' : 'Sub-perguntas'}
+            <input
+              type="number"
+              className={inputClass}
+              min={1}
+              max={6}
+              step={1}
+              disabled={disabled}
+              value={queryExpansionParams.count}
+              onChange={(e) => onQueryExpansionParamsChange({ ...queryExpansionParams, count: Math.min(6, Math.max(1, parseInt(e.target.value) || 1)) })}
+            />
+          </label>
+        )}
+      </div>
+      <div className="flex flex-wrap items-end gap-3 border-t border-slate-100 pt-2">
+        <h3 className="font-bold text-slate-800 text-sm mr-auto self-center">Recuperação Híbrida</h3>
+        <label className="flex flex-col text-[11px] font-semibold text-slate-600">
+          Fusão
+          <select
+            className={inputClass.replace('w-20', 'w-32')}
+            disabled={disabled}
+            value={hybridParams.fusion}
+            onChange={(e) => onHybridParamsChange({ ...hybridParams, fusion: e.target.value as RankFusionMethod })}
+          >
+            <option value="rrf">RRF</option>
+            <option value="weighted">Score ponderado</option>
+          </select>
+        </label>
+        <label className="flex flex-col text-[11px] font-semibold text-slate-600">
+          Peso vetor
+          <input
+            type="number"
+            className={inputClass}
+            min={0}
+            max={5}
+            step={0.1}
+            disabled={disabled}
+            value={hybridParams.vectorWeight}
+            onChange={(e) => onHybridParamsChange({ ...hybridParams, vectorWeight: Math.min(5, Math.max(0, Number(e.target.value))) })}
+          />
+        </label>
+        <label className="flex flex-col text-[11px] font-semibold text-slate-600">
+          Peso BM25
+          <input
+            type="number"
+            className={inputClass}
+            min={0}
+            max={5}
+            step={0.1}
+            disabled={disabled}
+            value={hybridParams.lexicalWeight}
+            onChange={(e) => onHybridParamsChange({ ...hybridParams, lexicalWeight: Math.min(5, Math.max(0, Number(e.target.value))) })}
+          />
+        </label>
+        <label className="flex flex-col text-[11px] font-semibold text-slate-600">
+          Top-K
+          <input
+            type="number"
+            className={inputClass}
+            min={1}
+            max={30}
+            step={1}
+            disabled={disabled}
+            value={hybridParams.topK}
+            onChange={(e) => onHybridParamsChange({ ...hybridParams, topK: Math.min(30, Math.max(1, parseInt(e.target.value) || 1)) })}
+          />
+        </label>
+      </div>
+      <div className="flex flex-wrap items-end gap-3 border-t border-slate-100 pt-2">
+        <h3 className="font-bold text-slate-800 text-sm mr-auto self-center">Reranking</h3>
+        <label className="flex flex-col text-[11px] font-semibold text-slate-600">
+          Método
+          <select
+            className={inputClass.replace('w-20', 'w-32')}
+            disabled={disabled}
+            value={rerankParams.method}
+            onChange={(e) => onRerankParamsChange({ ...rerankParams, method: e.target.value as RerankMethod })}
+          >
+            <option value="llm">LLM listwise</option>
+            <option value="local">Local (léxico)</option>
+            <option value="none">Desligado</option>
+          </select>
+        </label>
+        {rerankParams.method !== 'none' && (
+          <label className="flex flex-col text-[11px] font-semibold text-slate-600">
+            Pool
+            <input
+              type="number"
+              className={inputClass}
+              min={5}
+              max={100}
+              step={5}
+              disabled={disabled}
+              value={rerankParams.poolSize}
+              onChange={(e) => onRerankParamsChange({ ...rerankParams, poolSize: Math.min(100, Math.max(5, parseInt(e.target.value) || 5)) })}
+            />
+          </label>
+        )}
+        {rerankParams.method === 'llm' && (
+          <label className="flex flex-col text-[11px] font-semibold text-slate-600">
+            Lote
+            <input
+              type="number"
+              className={inputClass}
+              min={2}
+              max={25}
+              step={1}
+              disabled={disabled}
+              value={rerankParams.batchSize}
+              onChange={(e) => onRerankParamsChange({ ...rerankParams, batchSize: Math.min(25, Math.max(2, parseInt(e.target.value) || 2)) })}
+            />
+          </label>
+        )}
+      </div>
+      <div className="flex flex-wrap items-end gap-3 border-t border-slate-100 pt-2">
+        <h3 className="font-bold text-slate-800 text-sm mr-auto self-center">CRAG</h3>
+        <label className="flex flex-col text-[11px] font-semibold text-slate-600">
+          Limiar inferior
+          <input
+            type="number"
+            className={inputClass}
+            min={0}
+            max={cragParams.upperThreshold}
+            step={0.05}
+            disabled={disabled}
+            value={cragParams.lowerThreshold}
+            onChange={(e) => onCragParamsChange({ ...cragParams, lowerThreshold: Math.min(cragParams.upperThreshold, Math.max(0, Number(e.target.value))) })}
+          />
+        </label>
+        <label className="flex flex-col text-[11px] font-semibold text-slate-600">
+          Limiar superior
+          <input
+            type="number"
+            className={inputClass}
+            min={cragParams.lowerThreshold}
+            max={1}
+            step={0.05}
+            disabled={disabled}
+            value={cragParams.upperThreshold}
+            onChange={(e) => onCragParamsChange({ ...cragParams, upperThreshold: Math.min(1, Math.max(cragParams.lowerThreshold, Number(e.target.value))) })}
+          />
+        </label>
+        <label className="flex flex-col text-[11px] font-semibold text-slate-600">
+          Faixa mínima
+          <input
+            type="number"
+            className={inputClass}
+            min={0}
+            max={1}
+            step={0.05}
+            disabled={disabled}
+            value={cragParams.stripThreshold}
+            onChange={(e) => onCragParamsChange({ ...cragParams, stripThreshold: Math.min(1, Math.max(0, Number(e.target.value))) })}
+          />
+        </label>
+        <label className={`border border-slate-300 hover:bg-slate-50 text-slate-600 px-3 py-1 rounded-md text-[11px] font-medium cursor-pointer ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
+          + Base externa (.txt/.md)
+          <input type="file" multiple accept=".txt,.md" className="hidden" disabled={disabled} onChange={handleExternalUpload} />
+        </label>
+      </div>
+      {externalDocuments.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {externalDocuments.map(doc => (
+            <span key={doc.id} className="text-[10px] bg-amber-50 text-amber-800 border border-amber-200 px-2 py-0.5 rounded-full flex items-center gap-1">
+              {doc.title}
+              <button onClick={() => onExternalDocumentsChange(externalDocuments.filter(d => d.id !== doc.id))} disabled={disabled} className="font-bold hover:text-amber-950">×</button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex flex-wrap items-end gap-3 border-t border-slate-100 pt-2">
+        <h3 className="font-bold text-slate-800 text-sm mr-auto self-center">Expansão no Grafo</h3>
+        <label className="flex flex-col text-[11px] font-semibold text-slate-600">
+          Método
+          <select
+            className={inputClass.replace('w-20', 'w-32')}
+            disabled={disabled}
+            value={expansionParams.method}
+            onChange={(e) => onExpansionParamsChange({ ...expansionParams, method: e.target.value as GraphExpansionMethod })}
+          >
+            <option value="ppr">PageRank pers.</option>
+            <option value="bfs">BFS ponderada</option>
+          </select>
+        </label>
+        <label className="flex flex-col text-[11px] font-semibold text-slate-600">
+          Saltos
+          <input
+            type="number"
+            className={inputClass}
+            min={1}
+            max={4}
+            step={1}
+            disabled={disabled}
+            value={expansionParams.maxHops}
+            onChange={(e) => onExpansionParamsChange({ ...expansionParams, maxHops: Math.min(4, Math.max(1, parseInt(e.target.value) || 1)) })}
+          />
+        </label>
+        {expansionParams.method === 'ppr' && (
+          <label className="flex flex-col text-[11px] font-semibold text-slate-600">
+            Damping
+            <input
+              type="number"
+              className={inputClass}
+              min={0.1}
+              max={0.95}
+              step={0.05}
+              disabled={disabled}
+              value={expansionParams.damping}
+              onChange={(e) => onExpansionParamsChange({ ...expansionParams, damping: Math.min(0.95, Math.max(0.1, Number(e.target.value))) })}
+            />
+          </label>
+        )}
+        <label className="flex flex-col text-[11px] font-semibold text-slate-600">
+          Orçamento (tokens)
+          <input
+            type="number"
+            className={inputClass}
+            min={0}
+            max={20000}
+            step={100}
+            disabled={disabled}
+            value={expansionParams.tokenBudget}
+            onChange={(e) => onExpansionParamsChange({ ...expansionParams, tokenBudget: Math.min(20000, Math.max(0, parseInt(e.target.value) || 0)) })}
+          />
+        </label>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {ALL_LINK_TYPES.map(type => {
+          const active = expansionParams.edgeTypes.includes(type);
+          return (
+            <button
+              key={type}
+              onClick={() => toggleEdgeType(type)}
+              disabled={disabled}
+              className={`text-[10px] px-2 py-0.5 rounded-full border transition-all ${active ? 'bg-pink-50 text-pink-700 border-pink-300 font-semibold' : 'bg-white text-slate-400 border-slate-200 line-through'}`}
+            >
+              {type}
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex flex-wrap items-end gap-3 border-t border-slate-100 pt-2">
+        <h3 className="font-bold text-slate-800 text-sm mr-auto self-center">Agente</h3>
+        <label className="flex flex-col text-[11px] font-semibold text-slate-600">
+          Máx. passos
+          <input
+            type="number"
+            className={inputClass}
+            min={1}
+            max={15}
+            step={1}
+            disabled={disabled}
+            value={agentParams.maxSteps}
+            onChange={(e) => onAgentParamsChange({ ...agentParams, maxSteps: Math.min(15, Math.max(1, parseInt(e.target.value) || 1)) })}
+          />
+        </label>
+      </div>
+      <div className="flex flex-wrap items-end gap-3 border-t border-slate-100 pt-2">
+        <h3 className="font-bold text-slate-800 text-sm mr-auto self-center">Verificação de Fidelidade</h3>
+        <label className="flex items-center gap-1 text-[11px] font-semibold text-slate-600 self-center">
+          <input
+            type="checkbox"
+            disabled={disabled}
+            checked={faithfulnessParams.enabled}
+            onChange={(e) => onFaithfulnessParamsChange({ ...faithfulnessParams, enabled: e.target.checked })}
+          />
+          Verificar afirmações
+        </label>
+        {faithfulnessParams.enabled && (
+          <>
+            <label className="flex flex-col text-[11px] font-semibold text-slate-600">
+              Fidelidade mínima
+              <input
+                type="number"
+                className={inputClass}
+                min={0}
+                max={1}
+                step={0.05}
+                disabled={disabled}
+                value={faithfulnessParams.minScore}
+                onChange={(e) => onFaithfulnessParamsChange({ ...faithfulnessParams, minScore: Math.min(1, Math.max(0, Number(e.target.value))) })}
+              />
+            </label>
+            <label className="flex items-center gap-1 text-[11px] font-semibold text-slate-600 self-center">
+              <input
+                type="checkbox"
+                disabled={disabled}
+                checked={faithfulnessParams.regenerate}
+                onChange={(e) => onFaithfulnessParamsChange({ ...faithfulnessParams, regenerate: e.target.checked })}
+              />
+              Regerar se abaixo
+            </label>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RetrievalSettingsPanel;
@@ -1,7 +1,7 @@
 
 import React, { useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
 import * as d3 from 'd3';
-import { GraphData, GraphNode } from '../../types';
+import { GraphData, GraphNode, GraphLinkType } from '../../types';
 
 export interface ForceGraphRef {
   downloadGraphImage: () => void;
@@ -11,9 +11,24 @@ interface Props {
   data: GraphData;
   onNodeClick: (node: GraphNode) => void;
   highlightedClusterIds?: number[]; // Nova prop para filtro visual
+  highlightedNodeIds?: string[]; // Nós citados na resposta do RAG Lab
 }
 
-const ForceGraph = forwardRef<ForceGraphRef, Props>(({ data, onNodeClick, highlightedClusterIds = [] }, ref) => {
+// Cores por tipo de aresta (estruturais destacadas das inferidas)
+const LINK_COLORS: Record<GraphLinkType, string> = {
+  'semantico': '#999',
+  'co-ocorrencia': '#999',
+  'hierarquico': '#f59e0b',
+  'sequencial': '#38bdf8',
+  'menciona': '#64748b',
+  'cita': '#a78bfa',
+  'revoga': '#f43f5e',
+  'altera': '#fb923c',
+  'define': '#34d399',
+  'obriga': '#e879f9'
+};
+
+const ForceGraph = forwardRef<ForceGraphRef, Props>(({ data, onNodeClick, highlightedClusterIds = [], highlightedNodeIds = [] }, ref) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const tooltipRef = useRef<HTMLDivElement>(null);
@@ -82,46 +97,6 @@ const ForceGraph = forwardRef<ForceGraphRef, Props>(({ data, onNodeClick, highli
     downloadGraphImage
   }));
 
-  // Effect para atualização visual (Highlight) sem reiniciar simulação
-  useEffect(() => {
-     if (!nodeRef.current || !linkRef.current || !labelRef.current) return;
-
-     const hasHighlight = highlightedClusterIds.length > 0;
-
-     // Update Nodes opacity
-     nodeRef.current.transition().duration(300)
-        .style("opacity", (d: any) => {
-           if (!hasHighlight) return 1;
-           return highlightedClusterIds.includes(d.group) ? 1 : 0.1;
-        })
-        .style("stroke", (d: any) => {
-           if (hasHighlight && highlightedClusterIds.includes(d.group)) return "#fff";
-           return null;
-        })
-        .style("stroke-width", (d: any) => {
-             if (hasHighlight && highlightedClusterIds.includes(d.group)) return 2.5;
-             return 1.5;
-        });
-
-     // Update Links opacity
-     linkRef.current.transition().duration(300)
-        .style("opacity", (d: any) => {
-           if (!hasHighlight) return Math.max(0.2, d.confidence);
-           const sourceIn = highlightedClusterIds.includes(d.source.group);
-           const targetIn = highlightedClusterIds.includes(d.target.group);
-           // Mostrar link se ambos estiverem no highlight, ou se conectar dois clusters destacados
-           return (sourceIn && targetIn) ? 0.8 : 0.05;
-        });
-     
-     // Update Labels
-     labelRef.current.transition().duration(300)
-        .style("opacity", (d: any) => {
-           if (!hasHighlight) return 1;
-           return highlightedClusterIds.includes(d.group) ? 1 : 0.1;
-        });
-
-  }, [highlightedClusterIds]);
-
   // Effect principal para montar o grafo
   useEffect(() => {
     if (!data || !svgRef.current || !containerRef.current || !tooltipRef.current) return;
@@ -173,8 +148,10 @@ const ForceGraph = forwardRef<ForceGraphRef, Props>(({ data, onNodeClick, highli
       .selectAll("line")
       .data(links)
       .join("line")
+      .attr("stroke", (d: any) => LINK_COLORS[d.type] || "#999")
       .attr("stroke-opacity", (d: any) => Math.max(0.2, d.confidence)) // Confidence dictates opacity
-      .attr("stroke-width", (d: any) => Math.sqrt(d.value) * 3);
+      .attr("stroke-width", (d: any) => Math.sqrt(d.value) * 3)
+      .attr("marker-end", (d: any) => d.directed ? "url(#arrow)" : null); // Pai → Filho / Chunk → Próximo
     
     linkRef.current = link; // Armazenar ref
 
@@ -184,7 +161,8 @@ const ForceGraph = forwardRef<ForceGraphRef, Props>(({ data, onNodeClick, highli
       .selectAll("circle")
       .data(nodes)
       .join("circle")
-      .attr("r", (d: any) => 12 + (d.centrality * 20))
+      .attr("r", (d: any) => d.kind === 'entity' ? 7 + (d.centrality * 15) : 12 + (d.centrality * 20))
+      .attr("stroke-dasharray", (d: any) => d.kind === 'entity' ? "3,2" : null) // Entidades: contorno tracejado
       .attr("fill", (d: any) => colorScale(String(d.group)))
       .attr("cursor", "pointer")
       .on("mouseover", (event, d: any) => {
@@ -268,6 +246,53 @@ const ForceGraph = forwardRef<ForceGraphRef, Props>(({ data, onNodeClick, highli
     return () => { simulation.stop(); };
   }, [data, onNodeClick]); // Highlight prop removida daqui para evitar re-render total
 
+  // Effect para atualização visual (Highlight) sem reiniciar simulação
+  // Declarado após o effect principal para também valer na montagem (ex: grafo de evidências aberto por uma citação)
+  useEffect(() => {
+     if (!nodeRef.current || !linkRef.current || !labelRef.current) return;
+
+     const hasHighlight = highlightedClusterIds.length > 0 || highlightedNodeIds.length > 0;
+     const isCited = (d: any) => highlightedNodeIds.includes(d.id);
+     const isHighlighted = (d: any) => highlightedClusterIds.includes(d.group) || isCited(d);
+
+     // Update Nodes opacity
+     nodeRef.current.transition().duration(300)
+        .style("opacity", (d: any) => {
+           if (!hasHighlight) return 1;
+           return isHighlighted(d) ? 1 : 0.1;
+        })
+        .style("stroke", (d: any) => {
+           if (isCited(d)) return "#f59e0b"; // Nó citado na resposta
+           if (hasHighlight && isHighlighted(d)) return "#fff";
+           return null;
+        })
+        .style("stroke-width", (d: any) => {
+             if (isCited(d)) return 4;
+             if (hasHighlight && isHighlighted(d)) return 2.5;
+             return 1.5;
+        });
+
+     // Update Links opacity
+     linkRef.current.transition().duration(300)
+        .style("opacity", (d: any) => {
+           if (!hasHighlight) return Math.max(0.2, d.confidence);
+           const sourceIn = highlightedClusterIds.includes(d.source.group);
+           const targetIn = highlightedClusterIds.includes(d.target.group);
+           // Mostrar link se ambos estiverem no highlight, ou se conectar dois clusters destacados
+           if (sourceIn && targetIn) return 0.8;
+           // Vizinhança imediata dos nós citados
+           return (isCited(d.source) || isCited(d.target)) ? 0.6 : 0.05;
+        });
+     
+     // Update Labels
+     labelRef.current.transition().duration(300)
+        .style("opacity", (d: any) => {
+           if (!hasHighlight) return 1;
+           return isHighlighted(d) ? 1 : 0.1;
+        });
+
+  }, [data, highlightedClusterIds, highlightedNodeIds]);
+
   return (
     <div className="relative">
         <div ref={containerRef} className="w-full bg-slate-900 rounded-lg overflow-hidden shadow-inner border border-slate-700 h-[600px]">
@@ -286,7 +311,10 @@ const ForceGraph = forwardRef<ForceGraphRef, Props>(({ data, onNodeClick, highli
         <div className="absolute top-4 left-4 bg-slate-800/80 p-2 rounded text-xs text-white border border-slate-600 pointer-events-none">
            <p className="font-bold mb-1">Legenda de Conexões:</p>
            <div className="flex items-center mb-1"><div className="w-4 h-0.5 bg-gray-400 opacity-100 mr-2"></div> Forte Confiança</div>
-           <div className="flex items-center"><div className="w-4 h-0.5 bg-gray-400 opacity-30 mr-2"></div> Baixa Confiança</div>
+           <div className="flex items-center mb-1"><div className="w-4 h-0.5 bg-gray-400 opacity-30 mr-2"></div> Baixa Confiança</div>
+           <div className="flex items-center mb-1"><div className="w-4 h-0.5 mr-2" style={{ backgroundColor: LINK_COLORS.hierarquico }}></div> Hierárquica (→ filho)</div>
+           <div className="flex items-center mb-1"><div className="w-4 h-0.5 mr-2" style={{ backgroundColor: LINK_COLORS.sequencial }}></div> Sequencial (→ próximo)</div>
+           <div className="flex items-center"><div className="w-3 h-3 rounded-full border border-dashed border-white mr-2"></div> Entidade (cita / revoga / altera / define / obriga)</div>
         </div>
     </div>
   );
@@ -0,0 +1,231 @@
+import { GraphData, GraphNode, EmbeddingVector, GraphExpansionParams, ContextPassage, AgentParams, AgentStep, LLMToolDefinition, LLMToolCall, LLMJsonSchema } from '../types';
+import { getActiveLLMProvider } from './llmService';
+import { BM25Index, buildBM25Index, searchBM25, tokenizePortuguese } from './lexicalSearchService';
+import { cosineSimilarity } from './cnnRefinementService';
+import { expandFromSeeds, formatExpansionPath } from './graphTraversalService';
+import { getTopLevelReports } from './communitySummaryService';
+
+// Agentic RAG: em vez da sequência fixa, o LLM escolhe a próxima ferramenta (function calling) a partir da
+// pergunta e das observações anteriores, até chamar "answer" ou esgotar o orçamento de passos.
+// Sem LLM, uma política de regras faz o papel do "guarda de trânsito".
+
+export const DEFAULT_AGENT_PARAMS: AgentParams = { maxSteps: 6 };
+
+const DEFAULT_K = 5;
+const MAX_K = 10;
+const NEIGHBOURHOOD_BUDGET = 800;   // Tokens por chamada de vizinhança no grafo
+const OBSERVATION_PREVIEW = 160;
+
+export interface AgentEnvironment {
+  graph: GraphData;
+  embeddings: EmbeddingVector[];
+  bm25Index: BM25Index;
+  embedQuery: (text: string) => Promise<number[]>;
+  expansionParams: GraphExpansionParams;
+}
+
+// --- FERRAMENTAS ---
+
+const withReason = (properties: Record<string, LLMJsonSchema>, required: string[] = []): LLMJsonSchema => ({
+  type: 'object',
+  properties: { ...properties, reason: { type: 'string', description: 'Por que esta ferramenta agora (exibido no trace)' } },
+  required
+});
+
+export const AGENT_TOOLS: LLMToolDefinition[] = [
+  {
+    name: 'vector_search',
+    description: 'Busca semântica (embeddings) por trechos do corpus. Boa para perguntas conceituais ou parafraseadas.',
+    parameters: withReason({ query: { type: 'string' }, k: { type: 'integer' } }, ['query'])
+  },
+  {
+    name: 'bm25_search',
+    description: 'Busca léxica BM25. Boa para termos exatos, números de lei, prazos e citações ("Lei nº 8.666").',
+    parameters: withReason({ query: { type: 'string' }, k: { type: 'integer' } }, ['query'])
+  },
+  {
+    name: 'graph_neighbourhood',
+    description: 'Trechos ligados a um nó no grafo (hierarquia, sequência, citações, entidades). Use o id ou o rótulo de um trecho já observado.',
+    parameters: withReason({ node: { type: 'string' }, hops: { type: 'integer' } }, ['node'])
+  },
+  {
+    name: 'community_summary',
+    description: 'Consulta os relatórios de comunidade (resumos temáticos do corpus). Boa para perguntas amplas sobre temas.',
+    parameters: withReason({ query: { type: 'string' } }, ['query'])
+  },
+  {
+    name: 'fetch_chunk',
+    description: 'Recupera o trecho pelo rótulo do dispositivo, ex: "Art. 24", "§ 2º", "CAPÍTULO II".',
+    parameters: withReason({ label: { type: 'string' } }, ['label'])
+  },
+  {
+    name: 'answer',
+    description: 'Encerra a busca: o contexto acumulado é suficiente para responder.',
+    parameters: withReason({})
+  }
+];
+
+const toPassage = (node: GraphNode): ContextPassage =>
+  ({ kind: 'chunk', sourceId: node.id, label: node.label, source: node.source, text: node.fullContent });
+
+// "Art. 24" ≡ "art 24º" ≡ "Artigo 24"
+const normalizeLabel = (label: string): string => tokenizePortuguese(label.replace(/\bartigo\b/gi, 'art')).join(' ');
+
+const resolveNode = (graph: GraphData, ref: string): GraphNode | undefined => {
+  const byId = graph.nodes.find(n => n.id === ref);
+  if (byId) return byId;
+  const target = normalizeLabel(ref);
+  return graph.nodes.find(n => n.kind !== 'entity' && normalizeLabel(n.label) === target)
+    || graph.nodes.find(n => normalizeLabel(n.label) === target);
+};
+
+const clampK = (k: any): number => Math.min(MAX_K, Math.max(1, parseInt(k, 10) || DEFAULT_K));
+
+const executeTool = async (call: LLMToolCall, question: string, env: AgentEnvironment): Promise<{ passages: ContextPassage[]; observation: string }> => {
+  const nodeById = new Map(env.graph.nodes.map(n => [n.id, n]));
+  const query = String(call.args.query || question);
+
+  switch (call.name) {
+    case 'vector_search': {
+      const vector = await env.embedQuery(query);
+      const hits = env.embeddings
+        .map(emb => ({ id: emb.id, score: cosineSimilarity(vector, emb.vector) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, clampK(call.args.k))
+        .filter(h => nodeById.has(h.id));
+      return { passages: hits.map(h => toPassage(nodeById.get(h.id)!)), observation: `${hits.length} trechos (cosseno máx. ${hits[0]?.score.toFixed(3) ?? '—'})` };
+    }
+    case 'bm25_search': {
+      const hits = searchBM25(env.bm25Index, query, clampK(call.args.k)).filter(h => nodeById.has(h.id));
+      return { passages: hits.map(h => toPassage(nodeById.get(h.id)!)), observation: `${hits.length} trechos com casamento léxico` };
+    }
+    case 'graph_neighbourhood': {
+      const node = resolveNode(env.graph, String(call.args.node || ''));
+      if (!node) return { passages: [], observation: `Nó "${call.args.node}" não encontrado no grafo.` };
+      const hops = Math.min(4, Math.max(1, parseInt(call.args.hops, 10) || env.expansionParams.maxHops));
+      const expansion = expandFromSeeds(env.graph, [node.id], { ...env.expansionParams, maxHops: hops, tokenBudget: NEIGHBOURHOOD_BUDGET });
+      return {
+          passages: expansion.nodes.map(e => toPassage(nodeById.get(e.nodeId)!)),
+          observation: `${expansion.nodes.length} vizinhos de ${node.label}: ${expansion.nodes.slice(0, 3).map(formatExpansionPath).join('; ')}`
+      };
+    }
+    case 'community_summary': {
+      if (!env.graph.communityReports) return { passages: [], observation: 'Relatórios de comunidade ainda não gerados (etapa Grafo → Resumir Comunidades).' };
+      const reports = getTopLevelReports(env.graph);
+      const text = (r: typeof reports[number]) => `${r.summary}\n${r.findings.map(f => `- ${f.summary}: ${f.explanation}`).join('\n')}`;
+      const index = buildBM25Index(reports.map(r => ({ id: r.id, text: `${r.title} ${text(r)}` })));
+      const hits = searchBM25(index, query, 3);
+      const selected = hits.length > 0 ? hits.map(h => reports.find(r => r.id === h.id)!) : [...reports].sort((a, b) => b.rating - a.rating).slice(0, 3);
+      return {
+          passages: selected.map(r => ({ kind: 'community' as const, sourceId: r.id, label: r.title, source: `Comunidade (nível ${r.level})`, text: text(r) })),
+          observation: `${selected.length} relatórios: ${selected.map(r => r.title).join('; ')}`
+      };
+    }
+    case 'fetch_chunk': {
+      const node = resolveNode(env.graph, String(call.args.label || ''));
+      return node
+        ? { passages: [toPassage(node)], observation: `Trecho "${node.label}" encontrado.` }
+        : { passages: [], observation: `Nenhum trecho com rótulo "${call.args.label}".` };
+    }
+    default:
+      return { passages: [], observation: `Ferramenta desconhecida: ${call.name}` };
+  }
+};
+
+// --- POLÍTICA DE DECISÃO ---
+
+const ARTICLE_LABEL = /\b(?:art(?:igo)?\.?\s*\d+[º°]?(?:-[a-z])?|§\s*\d+[º°]?)/gi;
+const GLOBAL_QUESTION = /principa(?:l|is)|temas?\b|vis[aã]o geral|panorama|resum[oa]|em geral|como um todo/i;
+
+const callKey = (call: LLMToolCall): string => {
+  const { reason, ...args } = call.args;
+  return `${call.name}:${JSON.stringify(args)}`;
+};
+
+// Sem LLM: rótulos citados → visão temática → vetor → BM25 → vizinhança do melhor trecho → resposta
+const nextRuleCall = (question: string, steps: AgentStep[], passages: ContextPassage[]): LLMToolCall => {
+  const done = new Set(steps.map(s => s.tool === 'fetch_chunk' ? `fetch_chunk:${normalizeLabel(s.args.label)}` : s.tool));
+  const label = (question.match(ARTICLE_LABEL) || []).find(l => !done.has(`fetch_chunk:${normalizeLabel(l)}`));
+  if (label) return { name: 'fetch_chunk', args: { label, reason: 'A pergunta cita um dispositivo específico.' } };
+  if (GLOBAL_QUESTION.test(question) && !done.has('community_summary')) return { name: 'community_summary', args: { query: question, reason: 'Pergunta ampla sobre temas do corpus.' } };
+  if (!done.has('vector_search')) return { name: 'vector_search', args: { query: question, reason: 'Busca semântica inicial.' } };
+  if (!done.has('bm25_search')) return { name: 'bm25_search', args: { query: question, reason: 'Complementa com termos exatos.' } };
+  const seed = passages.find(p => p.kind === 'chunk');
+  if (seed && !done.has('graph_neighbourhood')) return { name: 'graph_neighbourhood', args: { node: seed.sourceId, reason: `Vizinhança de ${seed.label} no grafo.` } };
+  return { name: 'answer', args: { reason: 'Todas as fontes consultadas.' } };
+};
+
+const buildAgentPrompt = (question: string, steps: AgentStep[], passages: ContextPassage[], remaining: number): string => `
+  Você é um agente de recuperação sobre um corpus jurídico indexado como grafo de conhecimento.
+  Escolha UMA ferramenta por vez para reunir o contexto necessário à PERGUNTA. Não responda à pergunta:
+  quando o contexto acumulado bastar, chame "answer".
+
+  PERGUNTA: "${question}"
+
+  PASSOS ANTERIORES:
+  ${steps.length === 0 ? '(nenhum)' : steps.map(s => `${s.step}. ${s.tool} ${JSON.stringify(s.args)} → ${s.observation}`).join('\n')}
+
+  CONTEXTO ACUMULADO (${passages.length} trechos):
+  ${passages.map(p => `[${p.sourceId}] ${p.label}: ${p.text.substring(0, OBSERVATION_PREVIEW).replace(/\s+/g, ' ')}`).join('\n') || '(vazio)'}
+
+  Passos restantes: ${remaining}.
+`;
+
+export const runAgent = async (
+  question: string,
+  env: AgentEnvironment,
+  params: AgentParams = DEFAULT_AGENT_PARAMS,
+  onStep: (step: AgentStep) => void = () => {},
+  signal?: AbortSignal
+): Promise<{ passages: ContextPassage[]; steps: AgentStep[]; finished: boolean }> => {
+  const passages: ContextPassage[] = [];
+  const seen = new Set<string>();
+  const steps: AgentStep[] = [];
+  const calls = new Set<string>();
+
+  for (let i = 1; i <= params.maxSteps; i++) {
+      if (signal?.aborted) break;
+
+      let call: LLMToolCall | null = null;
+      let method: AgentStep['method'] = 'rules';
+      const llm = getActiveLLMProvider();
+      // CIRCUIT BREAKER CHECK
+      if (llm.isAvailable()) {
+          try {
+            call = await llm.generateToolCall(buildAgentPrompt(question, steps, passages, params.maxSteps - i + 1), AGENT_TOOLS, { temperature: 0, signal });
+            if (call) method = 'llm';
+          } catch (error) {
+            call = null;
+          }
+      }
+      // Resposta em texto, falha ou ferramenta repetida: a política de regras decide
+      if (!call || calls.has(callKey(call))) {
+          call = nextRuleCall(question, steps, passages);
+          method = 'rules';
+      }
+
+      const reason = call.args.reason ? String(call.args.reason) : undefined;
+      if (call.name === 'answer' || calls.has(callKey(call))) {
+          const step: AgentStep = { step: i, tool: 'answer', args: {}, reason, observation: `Contexto final: ${passages.length} trechos.`, passages: 0, method };
+          steps.push(step);
+          onStep(step);
+          return { passages, steps, finished: true };
+      }
+      calls.add(callKey(call));
+
+      const result = await executeTool(call, question, env);
+      const fresh = result.passages.filter(p => {
+          const key = `${p.sourceId}:${p.text}`;
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+      });
+      passages.push(...fresh);
+
+      const { reason: _, ...args } = call.args;
+      const step: AgentStep = { step: i, tool: call.name, args, reason, observation: result.observation, passages: fresh.length, method };
+      steps.push(step);
+      onStep(step);
+  }
+  return { passages, steps, finished: false };
+};
@@ -0,0 +1,213 @@
+import { PipelineStage, ProjectSnapshot, ProjectBundle, PipelineConfigSnapshot, TrainingMetrics } from '../types';
+import { createZip, readZip } from './zipService';
+import { packVectors } from './projectStoreService';
+import { stripAccents } from './entityResolutionService';
+
+// Pacote portátil (.zip): manifest.json com chunks, clusters, grafo, métricas e configuração do pipeline,
+// mais os vetores completos em binário. Um colega abre o mesmo grafo e consulta sem reprocessar nada.
+
+export const BUNDLE_FORMAT = 'graphrag-project-bundle';
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = '.graphrag.zip';
+
+const MANIFEST_FILE = 'manifest.json';
+const VECTORS_FILE = 'vectors.bin';          // Float32 little-endian, vetores concatenados
+const OFFSETS_FILE = 'vector-offsets.bin';   // Uint32 little-endian, count + 1 offsets
+const MAX_REPORTED_ERRORS = 10;
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  createdAt: string;
+  generator: string;
+  name: string;
+  vectors: { file: string; offsetsFile: string; dtype: 'float32-le'; count: number; values: number };
+  snapshot: ProjectSnapshot; // embeddings[].vector vazio
+  pipeline: Partial<PipelineConfigSnapshot>;
+  trainingMetrics: TrainingMetrics | null;
+}
+
+// --- EXPORTAÇÃO ---
+
+export const buildProjectBundle = (
+  name: string,
+  snapshot: ProjectSnapshot,
+  pipeline: PipelineConfigSnapshot,
+  trainingMetrics: TrainingMetrics | null
+): Blob => {
+  const { data, offsets } = packVectors(snapshot.embeddings.map(e => e.vector));
+  const vectorBytes = new Uint8Array(data.length * 4);
+  const offsetBytes = new Uint8Array(offsets.length * 4);
+  const vectorView = new DataView(vectorBytes.buffer);
+  const offsetView = new DataView(offsetBytes.buffer);
+  // Little-endian explícito: o pacote não depende da arquitetura de quem exporta
+  data.forEach((v, i) => vectorView.setFloat32(i * 4, v, true));
+  offsets.forEach((o, i) => offsetView.setUint32(i * 4, o, true));
+
+  const { apiKey, ...embeddingConfig } = snapshot.embeddingConfig;
+  const manifest: BundleManifest = {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      createdAt: new Date().toISOString(),
+      generator: 'GraphRAG Pipeline Visualizer',
+      name,
+      vectors: { file: VECTORS_FILE, offsetsFile: OFFSETS_FILE, dtype: 'float32-le', count: snapshot.embeddings.length, values: data.length },
+      snapshot: { ...snapshot, embeddingConfig, embeddings: snapshot.embeddings.map(e => ({ ...e, vector: [] })) },
+      pipeline,
+      trainingMetrics
+  };
+
+  const zip = createZip([
+      { name: MANIFEST_FILE, data: new TextEncoder().encode(JSON.stringify(manifest)) },
+      { name: VECTORS_FILE, data: vectorBytes },
+      { name: OFFSETS_FILE, data: offsetBytes }
+  ]);
+  return new Blob([zip], { type: 'application/zip' });
+};
+
+export const bundleFilename = (name: string): string =>
+  `${stripAccents(name).replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '') || 'projeto'}${BUNDLE_EXTENSION}`;
+
+// --- MIGRAÇÃO ---
+
+// Migrações vN → vN+1, aplicadas em sequência até BUNDLE_VERSION (a v1 é a primeira versão publicada)
+const MIGRATIONS: Record<number, (manifest: any) => any> = {};
+
+const migrateManifest = (manifest: any): any => {
+  let current = manifest;
+  while (current.version < BUNDLE_VERSION) {
+      const migrate = MIGRATIONS[current.version];
+      if (!migrate) throw new Error(`Não há migração do formato v${current.version} para v${current.version + 1}.`);
+      current = { ...migrate(current), version: current.version + 1 };
+  }
+  return current;
+};
+
+// Campos opcionais ausentes recebem valores neutros (pacotes editados à mão ou de exportações parciais)
+const withSnapshotDefaults = (snapshot: any): any => ({
+  rawDocs: [],
+  totalCharsExtracted: 0,
+  chunkingStrategyId: 'structure-aware',
+  aiEnhanced: false,
+  embeddingConfig: { providerId: 'local-ngram' },
+  embeddingModel: null,
+  clusters: [],
+  graphData: null,
+  acceptedMerges: [],
+  chatHistory: [],
+  conversationMemory: { summary: '', summarizedCount: 0 },
+  ...snapshot,
+  stage: snapshot.stage || (snapshot.graphData ? PipelineStage.GRAPH : snapshot.clusters?.length ? PipelineStage.CLUSTERING : snapshot.embeddings?.length ? PipelineStage.EMBEDDINGS : PipelineStage.UPLOAD)
+});
+
+// --- VALIDAÇÃO ---
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+const linkEndpointId = (endpoint: any): unknown => (endpoint && typeof endpoint === 'object' ? endpoint.id : endpoint);
+
+const validateSnapshot = (snapshot: any): string[] => {
+  const errors: string[] = [];
+  if (!Object.values(PipelineStage).includes(snapshot.stage)) errors.push(`Etapa desconhecida: ${snapshot.stage}`);
+  ['rawDocs', 'chunks', 'embeddings', 'clusters', 'acceptedMerges', 'chatHistory'].forEach(key => {
+      if (!Array.isArray(snapshot[key])) errors.push(`"${key}" deve ser uma lista.`);
+  });
+  if (errors.length > 0) return errors;
+
+  const chunkIds = new Set<string>();
+  snapshot.chunks.forEach((c: any, i: number) => {
+      if (!isString(c?.id) || !isString(c?.content)) errors.push(`Chunk ${i} sem id/content.`);
+      else if (chunkIds.has(c.id)) errors.push(`Chunk duplicado: ${c.id}`);
+      else chunkIds.add(c.id);
+  });
+  snapshot.embeddings.forEach((e: any, i: number) => {
+      if (!isString(e?.id)) errors.push(`Embedding ${i} sem id.`);
+  });
+  snapshot.clusters.forEach((c: any, i: number) => {
+      if (!isString(c?.id) || !isNumber(c?.x) || !isNumber(c?.y) || !isNumber(c?.clusterId)) errors.push(`Ponto de cluster ${i} inválido.`);
+  });
+  snapshot.chatHistory.forEach((m: any, i: number) => {
+      if (!['user', 'assistant', 'system'].includes(m?.role) || !isString(m?.content)) errors.push(`Mensagem ${i} do histórico inválida.`);
+  });
+
+  const graph = snapshot.graphData;
+  if (graph !== null) {
+      if (!Array.isArray(graph?.nodes) || !Array.isArray(graph?.links)) {
+          errors.push('Grafo sem listas de nós e arestas.');
+      } else {
+          const nodeIds = new Set<string>(graph.nodes.map((n: any) => n?.id));
+          graph.nodes.forEach((n: any, i: number) => { if (!isString(n?.id)) errors.push(`Nó ${i} sem id.`); });
+          graph.links.forEach((l: any, i: number) => {
+              const source = linkEndpointId(l?.source);
+              const target = linkEndpointId(l?.target);
+              if (!nodeIds.has(source as string) || !nodeIds.has(target as string)) errors.push(`Aresta ${i} aponta para nó inexistente (${source} → ${target}).`);
+          });
+      }
+  }
+  return errors;
+};
+
+const readVectors = (manifest: BundleManifest, files: Map<string, Uint8Array>): { vectors: number[][]; errors: string[] } => {
+  const { count, values } = manifest.vectors || ({} as BundleManifest['vectors']);
+  const vectorBytes = files.get(manifest.vectors?.file);
+  const offsetBytes = files.get(manifest.vectors?.offsetsFile);
+  if (!vectorBytes || !offsetBytes) return { vectors: [], errors: ['Arquivos de vetores ausentes no pacote.'] };
+  if (manifest.vectors.dtype !== 'float32-le') return { vectors: [], errors: [`Tipo de vetor não suportado: ${manifest.vectors.dtype}`] };
+  if (count !== manifest.snapshot.embeddings.length) return { vectors: [], errors: [`Manifesto declara ${count} vetores para ${manifest.snapshot.embeddings.length} embeddings.`] };
+  if (offsetBytes.length !== (count + 1) * 4 || vectorBytes.length !== values * 4) return { vectors: [], errors: ['Tamanho dos arquivos de vetores não confere com o manifesto.'] };
+
+  const offsetView = new DataView(offsetBytes.buffer, offsetBytes.byteOffset, offsetBytes.byteLength);
+  const vectorView = new DataView(vectorBytes.buffer, vectorBytes.byteOffset, vectorBytes.byteLength);
+  const offsets = Array.from({ length: count + 1 }, (_, i) => offsetView.getUint32(i * 4, true));
+  if (offsets[0] !== 0 || offsets[count] !== values || offsets.some((o, i) => i > 0 && o < offsets[i - 1])) {
+      return { vectors: [], errors: ['Offsets dos vetores inconsistentes.'] };
+  }
+
+  const errors: string[] = [];
+  const vectors = offsets.slice(0, -1).map((start, i) => {
+      const vector = Array.from({ length: offsets[i + 1] - start }, (_, j) => vectorView.getFloat32((start + j) * 4, true));
+      if (vector.some(v => !isFinite(v))) errors.push(`Vetor ${i} contém valores não finitos.`);
+      return vector;
+  });
+  return { vectors, errors };
+};
+
+// --- IMPORTAÇÃO ---
+
+export const parseProjectBundle = async (bytes: Uint8Array): Promise<ProjectBundle> => {
+  const files = await readZip(bytes);
+  const manifestBytes = files.get(MANIFEST_FILE);
+  if (!manifestBytes) throw new Error(`Pacote sem ${MANIFEST_FILE}.`);
+
+  let raw: any;
+  try {
+    raw = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch (e) {
+    throw new Error(`${MANIFEST_FILE} não é um JSON válido.`);
+  }
+  if (raw?.format !== BUNDLE_FORMAT) throw new Error(`Formato desconhecido: ${raw?.format ?? '(ausente)'}.`);
+  if (!Number.isInteger(raw.version) || raw.version < 1) throw new Error(`Versão do pacote inválida: ${raw.version}.`);
+  if (raw.version > BUNDLE_VERSION) throw new Error(`Pacote gerado por uma versão mais nova (v${raw.version}); esta aplicação lê até v${BUNDLE_VERSION}.`);
+  if (!raw.snapshot || typeof raw.snapshot !== 'object') throw new Error('Pacote sem os dados do projeto.');
+
+  const sourceVersion: number = raw.version;
+  const migrated = migrateManifest(raw);
+  const manifest: BundleManifest = { ...migrated, snapshot: withSnapshotDefaults(migrated.snapshot) };
+
+  const snapshotErrors = validateSnapshot(manifest.snapshot);
+  const { vectors, errors: vectorErrors } = snapshotErrors.length > 0 ? { vectors: [], errors: [] } : readVectors(manifest, files);
+  const errors = [...snapshotErrors, ...vectorErrors];
+  if (errors.length > 0) {
+      const extra = errors.length > MAX_REPORTED_ERRORS ? `\n(+${errors.length - MAX_REPORTED_ERRORS} erros)` : '';
+      throw new Error(`Pacote inválido:\n- ${errors.slice(0, MAX_REPORTED_ERRORS).join('\n- ')}${extra}`);
+  }
+
+  return {
+      name: isString(manifest.name) && manifest.name.trim() ? manifest.name : 'Projeto importado',
+      createdAt: manifest.createdAt,
+      sourceVersion,
+      snapshot: { ...manifest.snapshot, embeddings: manifest.snapshot.embeddings.map((e, i) => ({ ...e, vector: vectors[i] })) },
+      pipeline: manifest.pipeline && typeof manifest.pipeline === 'object' ? manifest.pipeline : {},
+      trainingMetrics: manifest.trainingMetrics || null
+  };
+};
@@ -0,0 +1,174 @@
+import { openDatabase, requestResult, transactionDone, isIndexedDBAvailable } from './indexedDbService';
+
+// Cache endereçado por conteúdo para chamadas pagas (enriquecimento, embeddings, HyDE, juiz de relevância):
+// chave = hash(conteúdo) + modelo + versão do prompt. Reenviar o mesmo PDF não consome cota de novo,
+// independentemente dos ids aleatórios dos chunks. Só respostas do modelo são gravadas, nunca fallbacks.
+
+export type CacheNamespace = 'enrichment' | 'embedding' | 'hyde' | 'relevance';
+
+export const CACHE_NAMESPACE_LABELS: Record<CacheNamespace, string> = {
+  enrichment: 'Enriquecimento',
+  embedding: 'Embeddings',
+  hyde: 'HyDE',
+  relevance: 'Relevância (CRAG)'
+};
+
+interface CacheEntry {
+  key: string;
+  namespace: CacheNamespace;
+  model: string;
+  promptVersion: number;
+  value: unknown;
+  createdAt: string;
+}
+
+const DB_NAME = 'graphrag-cache';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+const MODEL_INDEX = 'model';
+const MEMORY_LIMIT = 5000; // Fallback em memória quando o IndexedDB não existe
+// Provedores locais/determinísticos não custam cota; cachear o roteirizado tornaria os testes dependentes de estado
+const UNCACHED_PROVIDERS = ['scripted', 'local-ngram', 'none'];
+
+const memoryCache = new Map<string, CacheEntry>();
+const stats: Record<CacheNamespace, { hits: number; misses: number }> = {
+  enrichment: { hits: 0, misses: 0 },
+  embedding: { hits: 0, misses: 0 },
+  hyde: { hits: 0, misses: 0 },
+  relevance: { hits: 0, misses: 0 }
+};
+
+const openCacheDatabase = (): Promise<IDBDatabase> => openDatabase(DB_NAME, DB_VERSION, db => {
+  if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+      db.createObjectStore(ENTRY_STORE, { keyPath: 'key' }).createIndex(MODEL_INDEX, 'model');
+  }
+});
+
+// --- CHAVES ---
+
+export const modelCacheKey = (provider: { id: string; model: string }): string => `${provider.id}:${provider.model}`;
+
+const isCacheableModel = (model: string): boolean => !UNCACHED_PROVIDERS.some(id => model.startsWith(`${id}:`));
+
+// FNV-1a 2×32 bits: usado fora de contexto seguro (http em rede local), onde crypto.subtle não existe
+const fallbackHash = (text: string): string => {
+  let h1 = 0x811c9dc5, h2 = 0x01000193 ^ text.length;
+  for (let i = 0; i < text.length; i++) {
+      const c = text.charCodeAt(i);
+      h1 = Math.imul(h1 ^ c, 0x01000193);
+      h2 = Math.imul(h2 ^ c, 0x5bd1e995);
+  }
+  return `fnv${(h1 >>> 0).toString(16).padStart(8, '0')}${(h2 >>> 0).toString(16).padStart(8, '0')}`;
+};
+
+export const hashContent = async (text: string): Promise<string> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return fallbackHash(text);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const cacheKey = async (namespace: CacheNamespace, model: string, promptVersion: number, content: string): Promise<string> =>
+  `${namespace}|${model}|v${promptVersion}|${await hashContent(content)}`;
+
+// --- LEITURA / ESCRITA ---
+
+export const getCached = async <T>(namespace: CacheNamespace, model: string, promptVersion: number, content: string): Promise<T | undefined> => {
+  if (!isCacheableModel(model)) return undefined;
+  const key = await cacheKey(namespace, model, promptVersion, content);
+  let entry: CacheEntry | undefined;
+  try {
+    entry = isIndexedDBAvailable()
+      ? await requestResult<CacheEntry | undefined>((await openCacheDatabase()).transaction(ENTRY_STORE, 'readonly').objectStore(ENTRY_STORE).get(key))
+      : memoryCache.get(key);
+  } catch (e) {
+    console.warn('[Cache] Falha na leitura:', e);
+  }
+  if (entry) stats[namespace].hits++;
+  else stats[namespace].misses++;
+  return entry?.value as T | undefined;
+};
+
+export const putCached = async (namespace: CacheNamespace, model: string, promptVersion: number, content: string, value: unknown): Promise<void> => {
+  if (!isCacheableModel(model)) return;
+  const entry: CacheEntry = {
+      key: await cacheKey(namespace, model, promptVersion, content),
+      namespace,
+      model,
+      promptVersion,
+      value,
+      createdAt: new Date().toISOString()
+  };
+  try {
+    if (!isIndexedDBAvailable()) {
+        if (memoryCache.size >= MEMORY_LIMIT) memoryCache.delete(memoryCache.keys().next().value!);
+        memoryCache.set(entry.key, entry);
+        return;
+    }
+    const tx = (await openCacheDatabase()).transaction(ENTRY_STORE, 'readwrite');
+    tx.objectStore(ENTRY_STORE).put(entry);
+    await transactionDone(tx);
+  } catch (e) {
+    // Cache é otimização: falha de escrita (ex: cota do navegador) não interrompe o pipeline
+    console.warn('[Cache] Falha na escrita:', e);
+  }
+};
+
+// --- ESTATÍSTICAS ---
+
+export const getCacheStats = (namespace: CacheNamespace) => ({ ...stats[namespace] });
+
+export const resetCacheStats = (namespace: CacheNamespace) => {
+  stats[namespace] = { hits: 0, misses: 0 };
+};
+
+export const formatCacheStats = (namespace: CacheNamespace): string => {
+  const { hits, misses } = stats[namespace];
+  return `cache: ${hits} acertos / ${misses} faltas`;
+};
+
+// --- INVALIDAÇÃO ---
+
+export const listCachedModels = async (): Promise<Array<{ model: string; count: number }>> => {
+  const counts = new Map<string, number>();
+  if (!isIndexedDBAvailable()) {
+      memoryCache.forEach(e => counts.set(e.model, (counts.get(e.model) || 0) + 1));
+  } else {
+      const tx = (await openCacheDatabase()).transaction(ENTRY_STORE, 'readonly');
+      await new Promise<void>((resolve, reject) => {
+          // Cursor só de chaves: não carrega os vetores em memória
+          const request = tx.objectStore(ENTRY_STORE).index(MODEL_INDEX).openKeyCursor();
+          request.onsuccess = () => {
+              const cursor = request.result;
+              if (!cursor) return resolve();
+              const model = String(cursor.key);
+              counts.set(model, (counts.get(model) || 0) + 1);
+              cursor.continue();
+          };
+          request.onerror = () => reject(request.error);
+      });
+  }
+  return Array.from(counts, ([model, count]) => ({ model, count })).sort((a, b) => b.count - a.count);
+};
+
+// Troca ou atualização de modelo: descarta só as entradas dele
+export const invalidateModel = async (model: string): Promise<number> => {
+  if (!isIndexedDBAvailable()) {
+      const keys = Array.from(memoryCache.values()).filter(e => e.model === model).map(e => e.key);
+      keys.forEach(k => memoryCache.delete(k));
+      return keys.length;
+  }
+  const tx = (await openCacheDatabase()).transaction(ENTRY_STORE, 'readwrite');
+  const store = tx.objectStore(ENTRY_STORE);
+  const keys = await requestResult(store.index(MODEL_INDEX).getAllKeys(IDBKeyRange.only(model)));
+  keys.forEach(k => store.delete(k));
+  await transactionDone(tx);
+  return keys.length;
+};
+
+export const clearCache = async (): Promise<void> => {
+  memoryCache.clear();
+  if (!isIndexedDBAvailable()) return;
+  const tx = (await openCacheDatabase()).transaction(ENTRY_STORE, 'readwrite');
+  tx.objectStore(ENTRY_STORE).clear();
+  await transactionDone(tx);
+};
@@ -0,0 +1,469 @@
+import { DocumentChunk, ChunkingStrategy, ChunkingStrategyId, ChunkingParams, ChunkingStats, EmbeddingProvider } from '../types';
+import { uuid, getRandomDueDate, identifyEntityHierarchy, processRealPDFsToChunks, DEFAULT_SLIDING_WINDOW } from './mockDataService';
+import { embedTextLocally, embedTexts } from './embeddingService';
+import { cosineSimilarity } from './cnnRefinementService';
+
+// --- STRUCTURE-AWARE LEGAL CHUNKER ---
+// Segmenta textos normativos nas fronteiras estatutárias (Título, Capítulo, Seção, Art., §, Inciso, Alínea)
+// preservando a relação pai/filho. Textos sem estrutura legal caem para janelas orientadas a sentenças.
+
+export interface StructuredChunkingOptions {
+  maxChars: number;         // Tamanho máximo de um chunk antes da subdivisão por sentenças
+  minChars: number;         // Fragmentos menores são anexados ao chunk anterior (exceto marcadores estruturais)
+  overlapSentences: number; // Sentenças repetidas entre janelas consecutivas (modo prosa)
+}
+
+export const DEFAULT_STRUCTURED_CHUNKING_OPTIONS: StructuredChunkingOptions = {
+  maxChars: 1200,
+  minChars: 15,
+  overlapSentences: 1
+};
+
+interface LegalMarkerRule {
+  level: number;
+  type: string;
+  pattern: RegExp;
+  label: (match: RegExpExecArray) => string;
+}
+
+interface LegalMarker {
+  index: number;
+  level: number;
+  type: string;
+  label: string;
+}
+
+// Evita confundir citações ("nos termos do Art. 5º", "no § 2º") com o início de um dispositivo
+const NOT_A_CITATION = '(?<!\\b(?:do|da|dos|das|no|na|nos|nas|ao|aos|o|os|pelo|pela|e|ou|com|deste|desta)\\s)';
+
+const LEGAL_MARKER_RULES: LegalMarkerRule[] = [
+  { level: 1, type: 'ESTRUTURA_MACRO', pattern: /\b(?:LIVRO|PARTE)\s+(?:[IVXLCDM]+|ÚNIC[OA]|GERAL|ESPECIAL)\b/g, label: m => m[0].toUpperCase() },
+  { level: 2, type: 'ESTRUTURA_MACRO', pattern: /\bT[ÍI]TULO\s+(?:[IVXLCDM]+|ÚNICO)\b/g, label: m => m[0].toUpperCase() },
+  { level: 3, type: 'ESTRUTURA_MACRO', pattern: /\bCAP[ÍI]TULO\s+(?:[IVXLCDM]+|ÚNICO)\b/g, label: m => m[0].toUpperCase() },
+  { level: 4, type: 'ESTRUTURA_MACRO', pattern: new RegExp(`${NOT_A_CITATION}\\b(?:SE[ÇC][ÃA]O|Seção)\\s+(?:[IVXLCDM]+|ÚNICA|Única)\\b`, 'g'), label: m => m[0].toUpperCase() },
+  { level: 5, type: 'ESTRUTURA_MACRO', pattern: new RegExp(`${NOT_A_CITATION}\\b(?:SUBSE[ÇC][ÃA]O|Subseção)\\s+(?:[IVXLCDM]+|ÚNICA|Única)\\b`, 'g'), label: m => m[0].toUpperCase() },
+  { level: 6, type: 'ARTIGO', pattern: new RegExp(`${NOT_A_CITATION}\\bArt\\.\\s*\\d+(?:\\.\\d+)*\\s*(?:º|°|o\\b)?(?:-[A-Z]\\b)?`, 'g'), label: m => m[0].replace(/\s+/g, ' ').replace(/\.\s*(?=\d)/, '. ').trim() },
+  { level: 7, type: 'PARAGRAFO', pattern: new RegExp(`${NOT_A_CITATION}(?:§\\s*\\d+\\s*(?:º|°)?|Parágrafo\\s+único)`, 'g'), label: m => m[0].replace(/\s+/g, ' ').trim() },
+  { level: 8, type: 'INCISO', pattern: /(?<=(?:^|[:;.]\s))([IVXLCDM]+)\s*[-–—]\s/g, label: m => `Inciso ${m[1]}` },
+  { level: 9, type: 'ALINEA', pattern: /(?<=(?:^|[:;]\s))([a-z])\)\s/g, label: m => `Alínea ${m[1]})` },
+];
+
+const DOCUMENT_TITLE_PATTERN = /\b(?:LEI(?:\s+COMPLEMENTAR)?|DECRETO(?:-LEI)?|MEDIDA PROVIS[ÓO]RIA|EMENDA CONSTITUCIONAL|RESOLU[ÇC][ÃA]O|PORTARIA|INSTRU[ÇC][ÃA]O NORMATIVA)\s+N[º°o.]*\s*[\d\.\/]+/i;
+
+export const findLegalMarkers = (text: string): LegalMarker[] => {
+  const byIndex = new Map<number, LegalMarker>();
+  LEGAL_MARKER_RULES.forEach(rule => {
+    rule.pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = rule.pattern.exec(text)) !== null) {
+      const existing = byIndex.get(match.index);
+      // Em caso de colisão no mesmo offset prevalece o nível mais alto da hierarquia
+      if (!existing || rule.level < existing.level) {
+        byIndex.set(match.index, { index: match.index, level: rule.level, type: rule.type, label: rule.label(match) });
+      }
+    }
+  });
+  return Array.from(byIndex.values()).sort((a, b) => a.index - b.index);
+};
+
+// Divide em sentenças e agrupa em janelas de até maxChars, repetindo `overlap` sentenças entre janelas
+export const splitIntoSentenceWindows = (text: string, maxChars: number, overlap: number = 0): string[] => {
+  const sentences = text
+    .split(/(?<=[.!?;])\s+(?=[A-ZÀ-Ý0-9§"“(])/)
+    .flatMap(sentence => {
+      if (sentence.length <= maxChars) return [sentence];
+      // Sentença gigante (tabelas, OCR sem pontuação): corte em fronteira de palavra
+      const parts: string[] = [];
+      let rest = sentence;
+      while (rest.length > maxChars) {
+        const cut = rest.lastIndexOf(' ', maxChars);
+        const end = cut > maxChars * 0.5 ? cut : maxChars;
+        parts.push(rest.slice(0, end).trim());
+        rest = rest.slice(end).trim();
+      }
+      if (rest) parts.push(rest);
+      return parts;
+    })
+    .filter(s => s.trim().length > 0);
+
+  const windows: string[] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+
+  sentences.forEach(sentence => {
+    if (currentLength + sentence.length > maxChars && current.length > 0) {
+      windows.push(current.join(' '));
+      const carried = overlap > 0 ? current.slice(-overlap).filter(s => s.length < maxChars / 2) : [];
+      current = [...carried];
+      currentLength = carried.reduce((acc, s) => acc + s.length + 1, 0);
+    }
+    current.push(sentence);
+    currentLength += sentence.length + 1;
+  });
+  if (current.length > 0) windows.push(current.join(' '));
+  return windows;
+};
+
+// Cria chunks sequenciais de um documento mantendo o padrão de IDs do pipeline
+const createChunkFactory = (filename: string, target: DocumentChunk[]) => {
+  const filenameSafe = filename.replace(/[^a-zA-Z0-9]/g, '').substring(0, 5);
+  let chunkIndex = 0;
+  return (content: string, type: string, label: string, parentId: string | undefined, path: string[] | undefined, level: number | undefined): DocumentChunk => {
+    const chunk: DocumentChunk = {
+      id: `chk_${filenameSafe}_${chunkIndex}_${uuid()}`,
+      source: filename,
+      content,
+      tokens: content.split(/\s+/).length,
+      dueDate: getRandomDueDate(),
+      entityType: type,
+      entityLabel: label,
+      keywords: [],
+      parentId,
+      hierarchyPath: path,
+      hierarchyLevel: level
+    };
+    target.push(chunk);
+    chunkIndex++;
+    return chunk;
+  };
+};
+
+// Converte janelas de texto (estratégias não estruturais) em chunks rotulados heuristicamente
+const windowsToChunks = (filename: string, windows: string[], minChars: number = 1): DocumentChunk[] => {
+  const chunks: DocumentChunk[] = [];
+  const pushChunk = createChunkFactory(filename, chunks);
+  windows
+    .map(window => window.replace(/\s+/g, ' ').trim())
+    .filter(window => window.length >= minChars)
+    .forEach(window => {
+      const { type, label } = identifyEntityHierarchy(window);
+      const finalLabel = type === 'FRAGMENTO_TEXTO' ? `${window.substring(0, 30).replace(/[^\w\s]/gi, '')}...` : label;
+      pushChunk(window, type, finalLabel, undefined, undefined, undefined);
+    });
+  return chunks;
+};
+
+export const processStructuredPDFsToChunks = (
+  rawDocs: { filename: string, text: string }[],
+  options: StructuredChunkingOptions = DEFAULT_STRUCTURED_CHUNKING_OPTIONS
+): DocumentChunk[] => {
+  const chunks: DocumentChunk[] = [];
+
+  rawDocs.forEach(doc => {
+    const fullText = doc.text.replace(/\s+/g, ' ').trim();
+    if (fullText.length === 0) return;
+
+    const pushChunk = createChunkFactory(doc.filename, chunks);
+
+    const markers = findLegalMarkers(fullText);
+    const articleCount = markers.filter(m => m.type === 'ARTIGO').length;
+    const documentLabel = fullText.substring(0, 500).match(DOCUMENT_TITLE_PATTERN)?.[0].replace(/\s+/g, ' ') || doc.filename.replace(/\.[^.]+$/, '');
+
+    // --- Fallback: prosa sem estrutura normativa (menos de 2 artigos) ---
+    if (articleCount < 2) {
+      console.log(`[Chunker] ${doc.filename}: estrutura legal não detectada, usando janelas por sentença.`);
+      splitIntoSentenceWindows(fullText, options.maxChars, options.overlapSentences)
+        .filter(window => window.length >= options.minChars)
+        .forEach(window => {
+          const { type, label } = identifyEntityHierarchy(window);
+          const finalLabel = type === 'FRAGMENTO_TEXTO' ? `${window.substring(0, 30).replace(/[^\w\s]/gi, '')}...` : label;
+          pushChunk(window, type, finalLabel, undefined, [documentLabel, finalLabel], 1);
+        });
+      return;
+    }
+
+    console.log(`[Chunker] ${doc.filename}: ${markers.length} marcadores estruturais (${articleCount} artigos).`);
+
+    // --- Raiz (Lei): preâmbulo/ementa anterior ao primeiro dispositivo ---
+    const preamble = fullText.slice(0, markers[0].index).trim();
+    const rootContent = preamble.length > 0 ? preamble : documentLabel;
+    const [rootWindow, ...preambleRest] = splitIntoSentenceWindows(rootContent, options.maxChars, 0);
+    const root = pushChunk(rootWindow, 'LEI', documentLabel, undefined, [documentLabel], 0);
+    preambleRest.forEach((window, i) => pushChunk(window, 'LEI', `${documentLabel} (cont. ${i + 2})`, root.id, [documentLabel], 0));
+
+    // Pilha de ancestrais: ao encontrar um marcador de nível L, desempilha até o topo ter nível < L
+    const stack: Array<{ level: number; id: string; label: string }> = [{ level: 0, id: root.id, label: documentLabel }];
+
+    markers.forEach((marker, i) => {
+      const end = i + 1 < markers.length ? markers[i + 1].index : fullText.length;
+      const segment = fullText.slice(marker.index, end).trim();
+      const isStructural = marker.type === 'ESTRUTURA_MACRO';
+      // Preservação total: fragmentos curtos demais são anexados ao chunk anterior em vez de descartados
+      if (segment.length < options.minChars && !isStructural) {
+        const previous = chunks[chunks.length - 1];
+        previous.content = `${previous.content} ${segment}`;
+        previous.tokens = previous.content.split(/\s+/).length;
+        return;
+      }
+
+      while (stack.length > 1 && stack[stack.length - 1].level >= marker.level) stack.pop();
+      const parent = stack[stack.length - 1];
+      const path = [...stack.map(s => s.label), marker.label];
+
+      // Dispositivos extensos são subdivididos por sentenças; os filhos referenciam a primeira parte
+      const [firstWindow, ...rest] = segment.length > options.maxChars
+        ? splitIntoSentenceWindows(segment, options.maxChars, 0)
+        : [segment];
+      const head = pushChunk(firstWindow, marker.type, marker.label, parent.id, path, stack.length);
+      rest.forEach((window, partIdx) => pushChunk(window, marker.type, `${marker.label} (cont. ${partIdx + 2})`, parent.id, path, stack.length));
+
+      stack.push({ level: marker.level, id: head.id, label: marker.label });
+    });
+  });
+
+  console.log(`[Chunker] Extração Estruturada Finalizada: ${chunks.length} chunks gerados.`);
+  return chunks;
+};
+
+// --- ESTRATÉGIAS NÃO ESTRUTURAIS ---
+
+// Parágrafos (quebras duplas de linha); parágrafos curtos são agrupados até maxChars
+export const splitIntoParagraphs = (text: string, maxChars: number, minChars: number): string[] => {
+  const paragraphs = text.split(/\n\s*\n/).map(p => p.replace(/\s+/g, ' ').trim()).filter(p => p.length > 0);
+  const merged: string[] = [];
+  paragraphs.forEach(paragraph => {
+    const last = merged[merged.length - 1];
+    if (last !== undefined && last.length < minChars && last.length + paragraph.length + 1 <= maxChars) {
+      merged[merged.length - 1] = `${last} ${paragraph}`;
+    } else {
+      merged.push(paragraph);
+    }
+  });
+  // Parágrafos maiores que o limite caem para janelas por sentença
+  return merged.flatMap(p => p.length > maxChars ? splitIntoSentenceWindows(p, maxChars, 0) : [p]);
+};
+
+const RECURSIVE_SEPARATORS = ['\n\n', '\n', '. ', '; ', ', ', ' ', ''];
+
+// Divisor recursivo por caracteres: tenta o separador mais "forte" antes de descer para os mais fracos
+export const splitRecursively = (text: string, chunkSize: number, chunkOverlap: number, separators: string[] = RECURSIVE_SEPARATORS): string[] => {
+  const split = (segment: string, seps: string[]): string[] => {
+    if (segment.length <= chunkSize) return [segment];
+    const [sep, ...rest] = seps;
+    if (sep === undefined || sep === '') {
+      const slices: string[] = [];
+      for (let i = 0; i < segment.length; i += chunkSize) slices.push(segment.slice(i, i + chunkSize));
+      return slices;
+    }
+    const out: string[] = [];
+    let current = '';
+    segment.split(sep).forEach(piece => {
+      const candidate = current ? `${current}${sep}${piece}` : piece;
+      if (candidate.length <= chunkSize) {
+        current = candidate;
+        return;
+      }
+      if (current) out.push(current);
+      if (piece.length > chunkSize) {
+        out.push(...split(piece, rest));
+        current = '';
+      } else {
+        current = piece;
+      }
+    });
+    if (current) out.push(current);
+    return out;
+  };
+
+  const pieces = split(text, separators).map(p => p.trim()).filter(p => p.length > 0);
+  if (chunkOverlap <= 0) return pieces;
+  // Overlap: prefixa o final do chunk anterior (cortado em fronteira de palavra)
+  return pieces.map((piece, i) => {
+    if (i === 0) return piece;
+    const tail = pieces[i - 1].slice(-chunkOverlap);
+    const wordStart = tail.indexOf(' ');
+    return `${wordStart >= 0 ? tail.slice(wordStart + 1) : tail} ${piece}`;
+  });
+};
+
+// Breakpoints semânticos: corta onde a distância de cosseno entre sentenças consecutivas excede o percentil
+export const splitBySemanticBreakpoints = async (
+  text: string,
+  percentile: number,
+  maxChars: number,
+  embeddingProvider?: EmbeddingProvider,
+  onWarning?: (message: string) => void
+): Promise<string[]> => {
+  const sentences = splitIntoSentenceWindows(text, maxChars, 0).flatMap(w => w.split(/(?<=[.!?;])\s+(?=[A-ZÀ-Ý0-9§"“(])/));
+  if (sentences.length < 3) return [sentences.join(' ')];
+
+  // Falha do provedor: o documento inteiro usa o embedder local (distâncias não misturam espaços) e o fallback é reportado
+  let vectors: number[][] | null = null;
+  if (embeddingProvider) {
+    try {
+      vectors = await embedTexts(sentences, embeddingProvider);
+      if (vectors.length !== sentences.length) throw new Error(`${vectors.length} vetores para ${sentences.length} sentenças`);
+    } catch (e: any) {
+      console.warn('[Chunker] Falha ao vetorizar sentenças, usando embedder local.', e);
+      onWarning?.(`Breakpoints calculados com o embedder local: ${e?.message || e}`);
+      vectors = null;
+    }
+  }
+  if (!vectors) vectors = sentences.map(s => embedTextLocally(s, 512));
+
+  const distances = sentences.slice(1).map((_, i) => 1 - cosineSimilarity(vectors[i], vectors[i + 1]));
+  const sorted = [...distances].sort((a, b) => a - b);
+  const threshold = sorted[Math.min(sorted.length - 1, Math.floor((percentile / 100) * sorted.length))];
+
+  const windows: string[] = [];
+  let current: string[] = [sentences[0]];
+  let currentLength = sentences[0].length;
+  distances.forEach((distance, i) => {
+    const next = sentences[i + 1];
+    if (distance >= threshold || currentLength + next.length > maxChars) {
+      windows.push(current.join(' '));
+      current = [];
+      currentLength = 0;
+    }
+    current.push(next);
+    currentLength += next.length + 1;
+  });
+  if (current.length > 0) windows.push(current.join(' '));
+  return windows;
+};
+
+// --- REGISTRY ---
+
+const chunkingStrategyRegistry: Record<string, ChunkingStrategy> = {};
+
+export const registerChunkingStrategy = (strategy: ChunkingStrategy) => {
+  chunkingStrategyRegistry[strategy.id] = strategy;
+};
+
+export const listChunkingStrategies = (): ChunkingStrategy[] => Object.values(chunkingStrategyRegistry);
+
+export const getChunkingStrategy = (id: ChunkingStrategyId): ChunkingStrategy => {
+  const strategy = chunkingStrategyRegistry[id];
+  if (!strategy) throw new Error(`Estratégia de chunking desconhecida: ${id}`);
+  return strategy;
+};
+
+export const getDefaultChunkingParams = (id: ChunkingStrategyId): ChunkingParams =>
+  Object.fromEntries(getChunkingStrategy(id).parameters.map(p => [p.key, p.defaultValue]));
+
+registerChunkingStrategy({
+  id: 'fixed-window',
+  name: 'Janela Fixa (Sliding Window)',
+  description: 'Janelas de tamanho fixo com sobreposição. Alta granularidade, ignora fronteiras semânticas.',
+  parameters: [
+    { key: 'windowSize', label: 'Janela (chars)', min: 100, max: 4000, step: 50, defaultValue: DEFAULT_SLIDING_WINDOW.windowSize },
+    { key: 'overlap', label: 'Overlap (chars)', min: 0, max: 1000, step: 10, defaultValue: DEFAULT_SLIDING_WINDOW.overlap },
+    { key: 'minChunkSize', label: 'Mínimo (chars)', min: 1, max: 200, step: 1, defaultValue: DEFAULT_SLIDING_WINDOW.minChunkSize },
+  ],
+  chunk: async (docs, params) => processRealPDFsToChunks(docs, {
+    windowSize: params.windowSize,
+    overlap: params.overlap,
+    minChunkSize: params.minChunkSize
+  })
+});
+
+registerChunkingStrategy({
+  id: 'sentence',
+  name: 'Sentenças',
+  description: 'Agrupa sentenças completas até o limite de caracteres.',
+  parameters: [
+    { key: 'maxChars', label: 'Máximo (chars)', min: 100, max: 4000, step: 50, defaultValue: 800 },
+    { key: 'overlapSentences', label: 'Overlap (sentenças)', min: 0, max: 5, step: 1, defaultValue: 1 },
+  ],
+  chunk: async (docs, params) => docs.flatMap(doc =>
+    windowsToChunks(doc.filename, splitIntoSentenceWindows(doc.text.replace(/\s+/g, ' ').trim(), params.maxChars, params.overlapSentences))
+  )
+});
+
+registerChunkingStrategy({
+  id: 'paragraph',
+  name: 'Parágrafos',
+  description: 'Respeita quebras de parágrafo; agrupa parágrafos curtos.',
+  parameters: [
+    { key: 'maxChars', label: 'Máximo (chars)', min: 200, max: 6000, step: 100, defaultValue: 1500 },
+    { key: 'minChars', label: 'Agrupar abaixo de (chars)', min: 0, max: 1000, step: 10, defaultValue: 150 },
+  ],
+  chunk: async (docs, params) => docs.flatMap(doc =>
+    windowsToChunks(doc.filename, splitIntoParagraphs(doc.text, params.maxChars, params.minChars))
+  )
+});
+
+registerChunkingStrategy({
+  id: 'recursive-character',
+  name: 'Recursivo por Caracteres',
+  description: 'Separadores hierárquicos (parágrafo → linha → frase → palavra) até caber no tamanho.',
+  parameters: [
+    { key: 'chunkSize', label: 'Tamanho (chars)', min: 100, max: 4000, step: 50, defaultValue: 1000 },
+    { key: 'chunkOverlap', label: 'Overlap (chars)', min: 0, max: 1000, step: 10, defaultValue: 150 },
+  ],
+  chunk: async (docs, params) => docs.flatMap(doc =>
+    windowsToChunks(doc.filename, splitRecursively(doc.text, params.chunkSize, params.chunkOverlap))
+  )
+});
+
+registerChunkingStrategy({
+  id: 'structure-aware',
+  name: 'Estrutural (Legal)',
+  description: 'Fronteiras estatutárias (Título/Capítulo/Art./§/Inciso/Alínea) com hierarquia pai/filho.',
+  parameters: [
+    { key: 'maxChars', label: 'Máximo (chars)', min: 200, max: 6000, step: 100, defaultValue: DEFAULT_STRUCTURED_CHUNKING_OPTIONS.maxChars },
+    { key: 'minChars', label: 'Mínimo (chars)', min: 1, max: 200, step: 1, defaultValue: DEFAULT_STRUCTURED_CHUNKING_OPTIONS.minChars },
+    { key: 'overlapSentences', label: 'Overlap prosa (sentenças)', min: 0, max: 5, step: 1, defaultValue: DEFAULT_STRUCTURED_CHUNKING_OPTIONS.overlapSentences },
+  ],
+  chunk: async (docs, params) => processStructuredPDFsToChunks(docs, {
+    maxChars: params.maxChars,
+    minChars: params.minChars,
+    overlapSentences: params.overlapSentences
+  })
+});
+
+registerChunkingStrategy({
+  id: 'semantic-breakpoint',
+  name: 'Breakpoint Semântico',
+  description: 'Corta onde a distância de embedding entre sentenças consecutivas é atípica (percentil).',
+  parameters: [
+    { key: 'breakpointPercentile', label: 'Percentil de corte', min: 50, max: 99, step: 1, defaultValue: 90 },
+    { key: 'maxChars', label: 'Máximo (chars)', min: 200, max: 6000, step: 100, defaultValue: 1500 },
+  ],
+  chunk: async (docs, params, embeddingProvider, onWarning) => {
+    const chunks: DocumentChunk[] = [];
+    for (const doc of docs) {
+      const windows = await splitBySemanticBreakpoints(
+        doc.text.replace(/\s+/g, ' ').trim(), params.breakpointPercentile, params.maxChars, embeddingProvider,
+        onWarning && (message => onWarning(`${doc.filename}: ${message}`))
+      );
+      chunks.push(...windowsToChunks(doc.filename, windows));
+    }
+    return chunks;
+  }
+});
+
+export const runChunkingStrategy = async (
+  id: ChunkingStrategyId,
+  docs: { filename: string, text: string }[],
+  params: ChunkingParams = getDefaultChunkingParams(id),
+  embeddingProvider?: EmbeddingProvider,
+  onWarning?: (message: string) => void
+): Promise<DocumentChunk[]> => {
+  const strategy = getChunkingStrategy(id);
+  const chunks = await strategy.chunk(docs, { ...getDefaultChunkingParams(id), ...params }, embeddingProvider, onWarning);
+  console.log(`[Chunker] Estratégia "${strategy.name}": ${chunks.length} chunks gerados.`);
+  return chunks;
+};
+
+// --- ESTATÍSTICAS PARA COMPARAÇÃO ---
+
+export const computeChunkingStats = (chunks: DocumentChunk[], bucketCount: number = 10): ChunkingStats => {
+  if (chunks.length === 0) return { chunkCount: 0, avgTokens: 0, minTokens: 0, maxTokens: 0, histogram: [] };
+  const tokens = chunks.map(c => c.tokens);
+  const minTokens = Math.min(...tokens);
+  const maxTokens = Math.max(...tokens);
+  const bucketWidth = Math.max(1, Math.ceil((maxTokens - minTokens + 1) / bucketCount));
+  const histogram = Array.from({ length: bucketCount }, (_, i) => ({
+    range: `${minTokens + i * bucketWidth}-${minTokens + (i + 1) * bucketWidth - 1}`,
+    count: 0
+  }));
+  tokens.forEach(t => { histogram[Math.min(bucketCount - 1, Math.floor((t - minTokens) / bucketWidth))].count++; });
+  return {
+    chunkCount: chunks.length,
+    avgTokens: tokens.reduce((a, b) => a + b, 0) / tokens.length,
+    minTokens,
+    maxTokens,
+    histogram
+  };
+};
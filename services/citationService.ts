@@ -0,0 +1,44 @@
+import { ContextPassage, AnswerCitation } from '../types';
+
+// Citações inline: o contexto é numerado ([1], [2], ...) no prompt e a resposta é analisada para ligar
+// cada número ao trecho (chunk, fonte externa ou visão global). Números sem trecho são marcados inválidos.
+
+// "[1, 3]", "[2-4]" e "[1][2]" são aceitos; colchetes sem números (ex: "[...]") são texto comum
+export const CITATION_PATTERN = /\[(\d+(?:\s*[-–,]\s*\d+)*)\]/g;
+
+export const expandRefs = (group: string): number[] =>
+  group.split(',').flatMap(part => {
+      const [start, end] = part.split(/[-–]/).map(n => parseInt(n.trim(), 10));
+      if (end === undefined || isNaN(end)) return [start];
+      if (end < start || end - start > 20) return [start, end];
+      return Array.from({ length: end - start + 1 }, (_, i) => start + i);
+  });
+
+export const formatPassagesForPrompt = (passages: ContextPassage[]): string =>
+  passages
+    .map((p, i) => `[${i + 1}] (${p.label}${p.source ? ` — ${p.source}` : ''})\n${p.text}`)
+    .join('\n---\n');
+
+export const extractCitations = (answer: string, passages: ContextPassage[]): AnswerCitation[] => {
+  const refs = new Set<number>();
+  Array.from(answer.matchAll(CITATION_PATTERN)).forEach(match => expandRefs(match[1]).forEach(ref => refs.add(ref)));
+  return Array.from(refs)
+    .sort((a, b) => a - b)
+    .map(ref => {
+        const passage = passages[ref - 1];
+        return passage ? { ref, valid: true, passage } : { ref, valid: false };
+    });
+};
+
+// Segmentos de texto intercalados com grupos de referências, para renderizar chips
+export const splitAnswerByCitations = (answer: string): Array<string | number[]> => {
+  const segments: Array<string | number[]> = [];
+  let last = 0;
+  Array.from(answer.matchAll(CITATION_PATTERN)).forEach(match => {
+      if (match.index! > last) segments.push(answer.slice(last, match.index));
+      segments.push(expandRefs(match[1]));
+      last = match.index! + match[0].length;
+  });
+  if (last < answer.length) segments.push(answer.slice(last));
+  return segments;
+};
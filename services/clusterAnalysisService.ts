@@ -1,10 +1,12 @@
 
-import { GraphNode, ClusterProfile, ClusterSimilarity } from '../types';
+import { GraphNode, ClusterProfile, ClusterSimilarity, AliasTable } from '../types';
+import { resolveTerm } from './entityResolutionService';
 
 /**
  * Agrega palavras-chave de todos os nós em cada cluster para criar um "Perfil de Cluster".
+ * Com a tabela de aliases, variantes da mesma entidade são contadas sob a forma canônica.
  */
-export const analyzeClusterProfiles = (nodes: GraphNode[]): ClusterProfile[] => {
+export const analyzeClusterProfiles = (nodes: GraphNode[], aliasTable: AliasTable | null = null): ClusterProfile[] => {
   const clusters: Record<number, { keywords: string[]; nodeCount: number }> = {};
 
   // 1. Coletar todas as keywords por cluster
@@ -22,7 +24,7 @@ export const analyzeClusterProfiles = (nodes: GraphNode[]): ClusterProfile[] =>
   return Object.entries(clusters).map(([id, data]) => {
     const frequency: Record<string, number> = {};
     data.keywords.forEach(k => {
-      const normalized = k.toLowerCase().trim();
+      const normalized = aliasTable ? resolveTerm(aliasTable, k) : k.toLowerCase().trim();
       frequency[normalized] = (frequency[normalized] || 0) + 1;
     });
 
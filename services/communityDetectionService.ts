@@ -0,0 +1,253 @@
+import { GraphNode, GraphLink, GraphData, CommunityDetectionParams, CommunityDetectionResult } from '../types';
+
+// Detecção de comunidades nativa do grafo (Louvain / Leiden) sobre as arestas ponderadas (GraphLink.value).
+// Arestas direcionadas são tratadas como não-direcionadas; arestas paralelas somam peso.
+// A ordem de visita é determinística (índice do nó) para que a auditoria seja reprodutível.
+
+export const DEFAULT_COMMUNITY_DETECTION_PARAMS: CommunityDetectionParams = { algorithm: 'leiden', resolution: 1.0 };
+
+const MAX_LEVELS = 10;
+
+interface WeightedGraph {
+  n: number;
+  adj: Array<Map<number, number>>; // A_ij simétrica; A_ii = 2 × peso interno (convenção de agregação)
+  degree: number[];                 // k_i = Σ_j A_ij
+  m2: number;                       // 2m = Σ_i k_i
+}
+
+const buildWeightedGraph = (nodes: GraphNode[], links: GraphLink[]): WeightedGraph => {
+  const indexById = new Map(nodes.map((node, idx) => [node.id, idx]));
+  const adj = nodes.map(() => new Map<number, number>());
+  links.forEach(link => {
+      const u = indexById.get(link.source);
+      const v = indexById.get(link.target);
+      if (u === undefined || v === undefined || link.value <= 0) return;
+      if (u === v) {
+          adj[u].set(u, (adj[u].get(u) || 0) + 2 * link.value);
+          return;
+      }
+      adj[u].set(v, (adj[u].get(v) || 0) + link.value);
+      adj[v].set(u, (adj[v].get(u) || 0) + link.value);
+  });
+  const degree = adj.map(row => Array.from(row.values()).reduce((acc, w) => acc + w, 0));
+  return { n: nodes.length, adj, degree, m2: degree.reduce((acc, k) => acc + k, 0) };
+};
+
+/**
+ * Modularidade de Newman com parâmetro de resolução:
+ * Q = (1/2m) Σ_c [ Σ_in(c) − γ · Σ_tot(c)² / 2m ]
+ */
+const modularityOf = (graph: WeightedGraph, partition: number[], resolution: number = 1): number => {
+  if (graph.m2 === 0) return 0;
+  const internal = new Map<number, number>();
+  const total = new Map<number, number>();
+  graph.adj.forEach((row, i) => {
+      const ci = partition[i];
+      total.set(ci, (total.get(ci) || 0) + graph.degree[i]);
+      row.forEach((w, j) => {
+          if (partition[j] === ci) internal.set(ci, (internal.get(ci) || 0) + w);
+      });
+  });
+  let q = 0;
+  total.forEach((tot, c) => {
+      q += (internal.get(c) || 0) - resolution * (tot * tot) / graph.m2;
+  });
+  return q / graph.m2;
+};
+
+export const computeModularity = (nodes: GraphNode[], links: GraphLink[], partition: number[], resolution: number = 1): number =>
+  modularityOf(buildWeightedGraph(nodes, links), partition, resolution);
+
+const renumber = (partition: number[]): { partition: number[]; count: number } => {
+  const ids = new Map<number, number>();
+  const result = partition.map(c => {
+      if (!ids.has(c)) ids.set(c, ids.size);
+      return ids.get(c)!;
+  });
+  return { partition: result, count: ids.size };
+};
+
+// Fase de movimentação local: move cada nó para a comunidade vizinha de maior ganho de modularidade
+const moveNodesLocally = (graph: WeightedGraph, partition: number[], resolution: number): void => {
+  const communityTotal = new Map<number, number>();
+  partition.forEach((c, i) => communityTotal.set(c, (communityTotal.get(c) || 0) + graph.degree[i]));
+
+  let moved = true;
+  while (moved) {
+      moved = false;
+      for (let i = 0; i < graph.n; i++) {
+          const current = partition[i];
+          const ki = graph.degree[i];
+          communityTotal.set(current, communityTotal.get(current)! - ki);
+
+          const weightsToCommunity = new Map<number, number>();
+          graph.adj[i].forEach((w, j) => {
+              if (j !== i) weightsToCommunity.set(partition[j], (weightsToCommunity.get(partition[j]) || 0) + w);
+          });
+
+          let best = current;
+          let bestGain = (weightsToCommunity.get(current) || 0) - resolution * communityTotal.get(current)! * ki / graph.m2;
+          weightsToCommunity.forEach((w, c) => {
+              const gain = w - resolution * (communityTotal.get(c) || 0) * ki / graph.m2;
+              if (gain > bestGain + 1e-12) {
+                  best = c;
+                  bestGain = gain;
+              }
+          });
+
+          communityTotal.set(best, (communityTotal.get(best) || 0) + ki);
+          if (best !== current) {
+              partition[i] = best;
+              moved = true;
+          }
+      }
+  }
+};
+
+// Refinamento do Leiden: dentro de cada comunidade, nós isolados só se juntam a subcomunidades
+// bem conectadas, garantindo comunidades internamente conexas
+const refinePartition = (graph: WeightedGraph, partition: number[], resolution: number): number[] => {
+  const refined = partition.map((_, i) => i);
+  const members = new Map<number, number[]>();
+  partition.forEach((c, i) => {
+      if (!members.has(c)) members.set(c, []);
+      members.get(c)!.push(i);
+  });
+
+  members.forEach((nodesInCommunity, c) => {
+      const communityDegree = nodesInCommunity.reduce((acc, i) => acc + graph.degree[i], 0);
+      const weightToRest = (i: number) => {
+          let w = 0;
+          graph.adj[i].forEach((weight, j) => { if (j !== i && partition[j] === c) w += weight; });
+          return w;
+      };
+
+      const subDegree = new Map<number, number>();
+      const subExternal = new Map<number, number>(); // w(T, C − T)
+      const subSize = new Map<number, number>();
+      nodesInCommunity.forEach(i => {
+          subDegree.set(i, graph.degree[i]);
+          subExternal.set(i, weightToRest(i));
+          subSize.set(i, 1);
+      });
+
+      const wellConnected = (external: number, degree: number) =>
+        external >= resolution * degree * (communityDegree - degree) / graph.m2;
+
+      nodesInCommunity.forEach(v => {
+          if (subSize.get(refined[v]) !== 1) return;
+          const kv = graph.degree[v];
+          if (!wellConnected(subExternal.get(refined[v])!, kv)) return;
+
+          const weightsToSub = new Map<number, number>();
+          graph.adj[v].forEach((w, j) => {
+              if (j !== v && partition[j] === c) weightsToSub.set(refined[j], (weightsToSub.get(refined[j]) || 0) + w);
+          });
+
+          let best = -1;
+          let bestGain = 0;
+          weightsToSub.forEach((w, t) => {
+              if (t === refined[v] || !wellConnected(subExternal.get(t)!, subDegree.get(t)!)) return;
+              const gain = w - resolution * subDegree.get(t)! * kv / graph.m2;
+              if (gain >= bestGain) {
+                  best = t;
+                  bestGain = gain;
+              }
+          });
+          if (best === -1) return;
+
+          const own = refined[v];
+          const wvt = weightsToSub.get(best)!;
+          subExternal.set(best, subExternal.get(best)! + subExternal.get(own)! - 2 * wvt);
+          subDegree.set(best, subDegree.get(best)! + kv);
+          subSize.set(best, subSize.get(best)! + 1);
+          subSize.set(own, 0);
+          refined[v] = best;
+      });
+  });
+  return refined;
+};
+
+const aggregateGraph = (graph: WeightedGraph, partition: number[], count: number): WeightedGraph => {
+  const adj = Array.from({ length: count }, () => new Map<number, number>());
+  graph.adj.forEach((row, i) => {
+      const ci = partition[i];
+      row.forEach((w, j) => {
+          const cj = partition[j];
+          adj[ci].set(cj, (adj[ci].get(cj) || 0) + w);
+      });
+  });
+  const degree = adj.map(row => Array.from(row.values()).reduce((acc, w) => acc + w, 0));
+  return { n: count, adj, degree, m2: graph.m2 };
+};
+
+export const detectCommunities = (nodes: GraphNode[], links: GraphLink[], params: CommunityDetectionParams = DEFAULT_COMMUNITY_DETECTION_PARAMS): CommunityDetectionResult => {
+  const original = buildWeightedGraph(nodes, links);
+  let graph = original;
+  let partition = graph.adj.map((_, i) => i);
+  let nodeOf = nodes.map((_, i) => i); // nó original → nó do grafo agregado atual
+  const levels: number[][] = [];
+
+  for (let level = 0; level < MAX_LEVELS && graph.m2 > 0; level++) {
+      moveNodesLocally(graph, partition, params.resolution);
+      const { partition: communities, count } = renumber(partition);
+
+      const levelPartition = nodeOf.map(node => communities[node]);
+      if (levels.length === 0 || renumber(levels[levels.length - 1]).count !== count) levels.push(levelPartition);
+      if (count === graph.n) break; // Nenhuma fusão possível: hierarquia concluída
+
+      const { partition: refined, count: refinedCount } = params.algorithm === 'leiden'
+        ? renumber(refinePartition(graph, communities, params.resolution))
+        : { partition: communities, count };
+
+      // Leiden agrega pela partição refinada; se o refinamento não fundiu nada, agrega como o Louvain
+      if (params.algorithm === 'leiden' && refinedCount < graph.n) {
+          // Partição inicial do grafo agregado: comunidade (não refinada) de cada subcomunidade
+          const initial = new Array<number>(refinedCount);
+          refined.forEach((sub, i) => { initial[sub] = communities[i]; });
+          graph = aggregateGraph(graph, refined, refinedCount);
+          nodeOf = nodeOf.map(node => refined[node]);
+          partition = initial;
+      } else {
+          graph = aggregateGraph(graph, communities, count);
+          nodeOf = nodeOf.map(node => communities[node]);
+          partition = graph.adj.map((_, i) => i);
+      }
+  }
+
+  if (levels.length === 0) levels.push(nodes.map((_, i) => i)); // Grafo sem arestas: cada nó é uma comunidade
+
+  return {
+    algorithm: params.algorithm,
+    resolution: params.resolution,
+    levels,
+    modularityByLevel: levels.map(level => modularityOf(original, level, 1))
+  };
+};
+
+/**
+ * Substitui o cluster K-Means (preservado em kmeansClusterId) pela comunidade do nível mais alto
+ * e registra a hierarquia completa em communityLevels (0 = mais fino).
+ * Densidade, grau e componentes não dependem da partição; apenas a modularidade é atualizada.
+ */
+export const applyCommunityDetection = (graph: GraphData, params: CommunityDetectionParams = DEFAULT_COMMUNITY_DETECTION_PARAMS): GraphData => {
+  const result = detectCommunities(graph.nodes, graph.links, params);
+  const topLevel = result.levels.length - 1;
+  const top = result.levels[topLevel];
+  const nodes = graph.nodes.map((node, i) => ({
+      ...node,
+      kmeansClusterId: node.kmeansClusterId ?? node.group,
+      group: top[i],
+      communityLevels: result.levels.map(level => level[i])
+  }));
+
+  const metrics = graph.metrics && {
+      ...graph.metrics,
+      modularity: result.modularityByLevel[topLevel],
+      communityCount: new Set(top).size,
+      communityAlgorithm: `${params.algorithm === 'leiden' ? 'Leiden' : 'Louvain'} (γ=${params.resolution.toFixed(2)})`,
+      modularityByLevel: result.modularityByLevel
+  };
+
+  return { ...graph, nodes, metrics, communities: result };
+};
@@ -0,0 +1,217 @@
+import { GraphData, GraphNode, CommunityReport, CommunityFinding, LLMJsonSchema } from '../types';
+import { delay } from './geminiClient';
+import { getActiveLLMProvider } from './llmService';
+
+// Relatórios de comunidade no estilo GraphRAG "global search": cada comunidade recebe título, resumo,
+// entidades-chave, achados e nota de importância. Os níveis são resumidos de baixo para cima; níveis
+// superiores partem dos relatórios das subcomunidades em vez do texto bruto.
+
+const CONTEXT_BUDGET = 6000;    // Caracteres de contexto por comunidade
+const CHUNK_PREVIEW_CHARS = 600;
+const MIN_COMMUNITY_SIZE = 2;   // Comunidades unitárias não recebem relatório
+
+const KG_LINK_TYPES = new Set(['cita', 'revoga', 'altera', 'define', 'obriga', 'hierarquico']);
+
+interface LLMCommunityReport {
+  title: string;
+  summary: string;
+  key_entities: string[];
+  findings: CommunityFinding[];
+  rating: number;
+  rating_explanation: string;
+}
+
+const COMMUNITY_REPORT_SCHEMA: LLMJsonSchema = {
+    type: 'object',
+    properties: {
+        title: { type: 'string' },
+        summary: { type: 'string' },
+        key_entities: { type: 'array', items: { type: 'string' } },
+        findings: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { summary: { type: 'string' }, explanation: { type: 'string' } },
+                required: ['summary', 'explanation']
+            }
+        },
+        rating: { type: 'number' },
+        rating_explanation: { type: 'string' }
+    },
+    required: ['title', 'summary', 'key_entities', 'findings', 'rating', 'rating_explanation']
+};
+
+interface CommunityContext {
+  level: number;
+  communityId: number;
+  members: GraphNode[];
+  children: CommunityReport[];
+}
+
+const firstSentence = (text: string) => (text.split(/(?<=[.;])\s+/)[0] || text).slice(0, 200).trim();
+
+const takeWithinBudget = (lines: string[], budget: number): string[] => {
+  const taken: string[] = [];
+  let used = 0;
+  for (const line of lines) {
+      if (used + line.length > budget) break;
+      taken.push(line);
+      used += line.length;
+  }
+  return taken;
+};
+
+const buildContextText = (context: CommunityContext, graph: GraphData): string => {
+  if (context.children.length > 0) {
+      return takeWithinBudget(
+        [...context.children]
+          .sort((a, b) => b.rating - a.rating)
+          .map(child => `SUBCOMUNIDADE "${child.title}" (nota ${child.rating}): ${child.summary}\n${child.findings.map(f => `- ${f.summary}`).join('\n')}`),
+        CONTEXT_BUDGET
+      ).join('\n\n');
+  }
+
+  const memberIds = new Set(context.members.map(n => n.id));
+  const labelById = new Map(context.members.map(n => [n.id, n.label]));
+  const entities = context.members.filter(n => n.kind === 'entity').map(n => `${n.label} (${n.entityType})`);
+  const relations = graph.links
+    .filter(l => KG_LINK_TYPES.has(l.type) && memberIds.has(l.source) && memberIds.has(l.target))
+    .map(l => `${labelById.get(l.source)} -${l.type}-> ${labelById.get(l.target)}`);
+  const chunks = context.members
+    .filter(n => n.kind !== 'entity')
+    .sort((a, b) => b.centrality - a.centrality)
+    .map(n => `TRECHO [${n.label}]: ${n.fullContent.slice(0, CHUNK_PREVIEW_CHARS)}`);
+
+  return [
+    entities.length > 0 ? `ENTIDADES: ${entities.join('; ')}` : '',
+    relations.length > 0 ? `RELAÇÕES:\n${relations.slice(0, 30).join('\n')}` : '',
+    ...takeWithinBudget(chunks, CONTEXT_BUDGET)
+  ].filter(Boolean).join('\n\n');
+};
+
+// --- HEURISTIC FALLBACK ---
+const heuristicCommunityReport = (context: CommunityContext, graph: GraphData): Omit<CommunityReport, 'id' | 'level' | 'communityId' | 'nodeIds' | 'childIds'> => {
+  const byCentrality = [...context.members].sort((a, b) => b.centrality - a.centrality);
+  const entities = byCentrality.filter(n => n.kind === 'entity').map(n => n.label);
+  const keywordCounts: Record<string, number> = {};
+  context.members.forEach(n => n.keywords?.forEach(k => { keywordCounts[k] = (keywordCounts[k] || 0) + 1; }));
+  const topKeywords = Object.entries(keywordCounts).sort((a, b) => b[1] - a[1]).slice(0, 3).map(([k]) => k);
+  const keyEntities = (entities.length > 0 ? entities : topKeywords).slice(0, 8);
+
+  const memberIds = new Set(context.members.map(n => n.id));
+  const labelById = new Map(context.members.map(n => [n.id, n.label]));
+  const relationFindings: CommunityFinding[] = graph.links
+    .filter(l => KG_LINK_TYPES.has(l.type) && l.type !== 'hierarquico' && memberIds.has(l.source) && memberIds.has(l.target))
+    .slice(0, 5)
+    .map(l => ({ summary: `${labelById.get(l.source)} ${l.type} ${labelById.get(l.target)}`, explanation: 'Relação extraída do texto normativo.' }));
+
+  const findings: CommunityFinding[] = context.children.length > 0
+    ? context.children.slice(0, 5).map(child => ({ summary: child.title, explanation: firstSentence(child.summary) }))
+    : relationFindings.length > 0
+      ? relationFindings
+      : byCentrality.filter(n => n.kind !== 'entity').slice(0, 3).map(n => ({ summary: n.label, explanation: firstSentence(n.fullContent) }));
+
+  const summarySources = context.children.length > 0
+    ? context.children.slice(0, 3).map(child => firstSentence(child.summary))
+    : byCentrality.filter(n => n.kind !== 'entity').slice(0, 3).map(n => firstSentence(n.fullContent));
+
+  return {
+    title: `Comunidade ${context.communityId}: ${(topKeywords.length > 0 ? topKeywords : keyEntities.slice(0, 3)).join(', ') || 'Sem rótulo'}`,
+    summary: summarySources.join(' '),
+    keyEntities,
+    findings,
+    rating: Math.min(10, Math.round((2 + Math.log2(context.members.length) * 1.5) * 10) / 10),
+    ratingExplanation: `Estimativa pelo tamanho da comunidade (${context.members.length} nós).`,
+    method: 'heuristic'
+  };
+};
+
+const summarizeCommunity = async (context: CommunityContext, graph: GraphData): Promise<Omit<CommunityReport, 'id' | 'level' | 'communityId' | 'nodeIds' | 'childIds'>> => {
+  const llm = getActiveLLMProvider();
+
+  // CIRCUIT BREAKER CHECK
+  if (!llm.isAvailable()) {
+      return heuristicCommunityReport(context, graph);
+  }
+
+  try {
+    const prompt = `
+      Você é um analista jurídico. Escreva o relatório de uma comunidade de um grafo de conhecimento.
+      ${context.children.length > 0 ? 'A comunidade agrega as subcomunidades resumidas abaixo.' : 'A comunidade contém as entidades, relações e trechos abaixo.'}
+      CONTEXTO:
+      ${buildContextText(context, graph)}
+
+      TASK: title (curto e específico), summary (1 parágrafo), key_entities, 3-5 findings (summary + explanation fundamentada no contexto),
+      rating (importância 0-10 para quem consulta o corpus) e rating_explanation.
+    `;
+
+    const result = await llm.generateJSON<LLMCommunityReport>(prompt, COMMUNITY_REPORT_SCHEMA, { temperature: 0.2 });
+    if (!result.title || !result.summary) return heuristicCommunityReport(context, graph);
+
+    return {
+      title: result.title,
+      summary: result.summary,
+      keyEntities: result.key_entities || [],
+      findings: (result.findings || []).filter(f => f && f.summary),
+      rating: Math.min(10, Math.max(0, Number(result.rating) || 0)),
+      ratingExplanation: result.rating_explanation || '',
+      method: 'llm'
+    };
+  } catch (error) {
+    return heuristicCommunityReport(context, graph);
+  }
+};
+
+export const buildCommunityReports = async (graph: GraphData, onProgress: (progress: number) => void): Promise<CommunityReport[]> => {
+  const levels = graph.communities?.levels || [graph.nodes.map(n => n.group)];
+  const reports: CommunityReport[] = [];
+  let previousLevel = new Map<number, CommunityReport>();
+
+  const totalCommunities = levels.reduce((acc, level) => acc + new Set(level).size, 0);
+  let processed = 0;
+
+  for (let levelIdx = 0; levelIdx < levels.length; levelIdx++) {
+    const partition = levels[levelIdx];
+    const memberIndices = new Map<number, number[]>();
+    partition.forEach((communityId, nodeIdx) => {
+        if (!memberIndices.has(communityId)) memberIndices.set(communityId, []);
+        memberIndices.get(communityId)!.push(nodeIdx);
+    });
+
+    const currentLevel = new Map<number, CommunityReport>();
+    for (const [communityId, indices] of Array.from(memberIndices.entries())) {
+        processed++;
+        if (indices.length < MIN_COMMUNITY_SIZE) continue;
+
+        const members = indices.map(idx => graph.nodes[idx]);
+        const children = levelIdx === 0 ? [] : Array.from(new Set(indices.map(idx => levels[levelIdx - 1][idx])))
+          .map(childId => previousLevel.get(childId))
+          .filter((r): r is CommunityReport => r !== undefined);
+
+        const base = { id: `cr_L${levelIdx}_C${communityId}`, level: levelIdx, communityId, nodeIds: members.map(n => n.id), childIds: children.map(c => c.id) };
+
+        // Comunidade idêntica à única subcomunidade: reaproveita o relatório sem nova chamada ao LLM
+        if (children.length === 1 && children[0].nodeIds.length === members.length) {
+            currentLevel.set(communityId, { ...children[0], ...base });
+        } else {
+            const content = await summarizeCommunity({ level: levelIdx, communityId, members, children }, graph);
+            currentLevel.set(communityId, { ...content, ...base });
+            if (content.method === 'llm') await delay(500);
+        }
+        onProgress(Math.round((processed / totalCommunities) * 100));
+    }
+
+    reports.push(...Array.from(currentLevel.values()));
+    previousLevel = currentLevel;
+  }
+
+  onProgress(100);
+  return reports;
+};
+
+// Relatórios do nível mais alto (um por comunidade em GraphNode.group)
+export const getTopLevelReports = (graph: GraphData): CommunityReport[] => {
+  const reports = graph.communityReports || [];
+  const topLevel = Math.max(-1, ...reports.map(r => r.level));
+  return reports.filter(r => r.level === topLevel).sort((a, b) => b.rating - a.rating);
+};
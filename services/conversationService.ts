@@ -0,0 +1,115 @@
+import { ChatMessage, ConversationMemory } from '../types';
+import { getActiveLLMProvider } from './llmService';
+import { tokenizePortuguese } from './lexicalSearchService';
+
+// Memória conversacional: perguntas de seguimento ("e o parágrafo seguinte?") são condensadas em consultas
+// autônomas antes do HyDE/recuperação; sessões longas mantêm só a janela recente + um resumo incremental.
+
+export const EMPTY_CONVERSATION_MEMORY: ConversationMemory = { summary: '', summarizedCount: 0 };
+
+const RECENT_WINDOW = 4;        // Mensagens enviadas literalmente aos prompts
+const SUMMARY_TRIGGER = 8;      // Mensagens fora da janela acumuladas antes de resumir
+const SUMMARY_MAX_CHARS = 1500;
+const MESSAGE_PREVIEW_CHARS = 300;
+
+// Só anáforas inequívocas (casadas no texto original, com acentos): "e o prazo?", "o seguinte", "desse artigo".
+// Pronomes soltos ("ele", "esse", "outro") e "está" aparecem em perguntas autônomas e não entram aqui
+const FOLLOW_UP_PATTERN = /^(e|mas e)\s|(^|\s)(o|a|os|as|no|na|do|da|artigo|inciso|parágrafo|item|capítulo)\s+(seguinte|anterior)(\s|[?.,!]|$)|(^|\s)(desse|dessa|deste|desta|disso|nesse|nessa|neste|nesta|nisso)(\s|[?.,!]|$)/i;
+const FOLLOW_UP_PREFIX = /^(e|mas e)\s+/i;
+const MIN_STANDALONE_TOKENS = 3;
+const TOPIC_MAX_CHARS = 160;    // Assunto herdado na condensação heurística
+
+// --- HISTÓRICO NOS PROMPTS ---
+
+const recentMessages = (history: ChatMessage[]): ChatMessage[] => history.filter(m => m.role !== 'system').slice(-RECENT_WINDOW);
+
+// Resumo (mensagem 'system') + janela recente, no formato aceito pelos geradores
+export const withConversationSummary = (history: ChatMessage[], memory: ConversationMemory): ChatMessage[] =>
+  memory.summary
+    ? [{ role: 'system', content: `Resumo da conversa anterior: ${memory.summary}`, timestamp: '' }, ...recentMessages(history)]
+    : recentMessages(history);
+
+export const formatHistoryForPrompt = (history: ChatMessage[]): string => {
+  const summary = history.filter(m => m.role === 'system');
+  return [...summary, ...recentMessages(history)].map(m => `${m.role}: ${m.content}`).join('\n');
+};
+
+// --- CONDENSAÇÃO DA PERGUNTA ---
+
+export const isFollowUpQuestion = (query: string): boolean =>
+  FOLLOW_UP_PATTERN.test(query.trim()) || tokenizePortuguese(query).length < MIN_STANDALONE_TOKENS;
+
+// Sem LLM: a pergunta de seguimento herda o assunto da última pergunta autônoma do usuário (texto original,
+// nunca a consulta já condensada, que acumularia a cadeia inteira a cada turno)
+const heuristicCondense = (query: string, history: ChatMessage[]): string => {
+  const userQuestions = history.filter(m => m.role === 'user').map(m => m.content.trim()).reverse();
+  const topic = userQuestions.find(q => !isFollowUpQuestion(q)) || userQuestions[0];
+  if (!topic) return query;
+  const followUp = query.trim().replace(FOLLOW_UP_PREFIX, '').replace(/\?+$/, '');
+  const trimmedTopic = topic.replace(/\?+$/, '');
+  const cappedTopic = trimmedTopic.length > TOPIC_MAX_CHARS ? `${trimmedTopic.substring(0, TOPIC_MAX_CHARS)}...` : trimmedTopic;
+  return `${followUp} (em continuação a: ${cappedTopic})`;
+};
+
+export const condenseQuery = async (
+  query: string,
+  history: ChatMessage[],
+  memory: ConversationMemory
+): Promise<{ query: string; method: 'llm' | 'heuristic' | 'none' }> => {
+  if (!history.some(m => m.role === 'user')) return { query, method: 'none' };
+
+  const llm = getActiveLLMProvider();
+  // CIRCUIT BREAKER CHECK
+  if (!llm.isAvailable()) return isFollowUpQuestion(query) ? { query: heuristicCondense(query, history), method: 'heuristic' } : { query, method: 'none' };
+
+  try {
+    const text = await llm.generateText(
+      `Reescreva a PERGUNTA DE SEGUIMENTO como uma pergunta autônoma, resolvendo pronomes e referências ` +
+      `("o parágrafo seguinte", "essa lei") com base na conversa. Se ela já for autônoma, repita-a sem mudanças. ` +
+      `Responda apenas com a pergunta.\n\nCONVERSA:\n${formatHistoryForPrompt(withConversationSummary(history, memory))}\n\n` +
+      `PERGUNTA DE SEGUIMENTO: "${query}"`,
+      { temperature: 0 }
+    );
+    const condensed = (text || '').replace(/^["'\s]+|["'\s]+$/g, '').split('\n')[0];
+    if (!condensed) return { query: heuristicCondense(query, history), method: 'heuristic' };
+    return { query: condensed, method: 'llm' };
+  } catch (e) {
+    return isFollowUpQuestion(query) ? { query: heuristicCondense(query, history), method: 'heuristic' } : { query, method: 'none' };
+  }
+};
+
+// --- RESUMO INCREMENTAL ---
+
+const heuristicSummary = (previous: string, messages: ChatMessage[]): string => {
+  const lines = messages
+    .filter(m => m.role === 'user')
+    .map(m => `o usuário perguntou "${m.content.trim().substring(0, MESSAGE_PREVIEW_CHARS)}"`);
+  const merged = [previous, ...lines].filter(Boolean).join('; ');
+  // Mantém o trecho mais recente quando o resumo estoura o limite
+  return merged.length > SUMMARY_MAX_CHARS ? `...${merged.slice(-SUMMARY_MAX_CHARS)}` : merged;
+};
+
+// Incorpora ao resumo as mensagens que saíram da janela recente (em lotes, para não chamar o LLM a cada turno)
+export const updateConversationMemory = async (memory: ConversationMemory, history: ChatMessage[]): Promise<ConversationMemory> => {
+  const cutoff = Math.max(0, history.length - RECENT_WINDOW);
+  if (cutoff - memory.summarizedCount < SUMMARY_TRIGGER) return memory;
+
+  const pending = history.slice(memory.summarizedCount, cutoff).filter(m => m.role !== 'system');
+  const llm = getActiveLLMProvider();
+  if (!llm.isAvailable()) return { summary: heuristicSummary(memory.summary, pending), summarizedCount: cutoff };
+
+  try {
+    const text = await llm.generateText(
+      `Atualize o RESUMO de uma conversa sobre documentos jurídicos com as NOVAS MENSAGENS. Preserve dispositivos ` +
+      `citados (artigos, leis, prazos) e o assunto em discussão, em no máximo ${SUMMARY_MAX_CHARS} caracteres.\n\n` +
+      `RESUMO: ${memory.summary || '(vazio)'}\n\nNOVAS MENSAGENS:\n` +
+      pending.map(m => `${m.role}: ${m.content.substring(0, MESSAGE_PREVIEW_CHARS * 2)}`).join('\n') +
+      `\n\nRESUMO ATUALIZADO:`,
+      { temperature: 0 }
+    );
+    const summary = (text || '').trim();
+    return { summary: summary ? summary.substring(0, SUMMARY_MAX_CHARS) : heuristicSummary(memory.summary, pending), summarizedCount: cutoff };
+  } catch (e) {
+    return { summary: heuristicSummary(memory.summary, pending), summarizedCount: cutoff };
+  }
+};
@@ -0,0 +1,181 @@
+import { CRAGAction, CRAGParams, KnowledgeStrip, ExternalDocument, LLMJsonSchema } from '../types';
+import { getActiveLLMProvider } from './llmService';
+import { evaluateChunkRelevance } from './geminiService';
+import { queryCoverage } from './rerankService';
+import { buildBM25Index, searchBM25 } from './lexicalSearchService';
+import { PORTUGUESE_STOPWORDS, stripAccents } from './entityResolutionService';
+
+// Corrective RAG (Yan et al., 2024): o avaliador classifica a recuperação em Correto (refina o conhecimento
+// em faixas), Incorreto (reescreve a pergunta e busca de novo / base externa) ou Ambíguo (ambos).
+
+export const DEFAULT_CRAG_PARAMS: CRAGParams = { upperThreshold: 0.7, lowerThreshold: 0.3, stripThreshold: 0.5 };
+
+export const CRAG_ACTION_LABELS: Record<CRAGAction, string> = {
+  correct: 'CORRETO',
+  incorrect: 'INCORRETO',
+  ambiguous: 'AMBÍGUO'
+};
+
+const MAX_STRIPS = 60;          // Faixas avaliadas por chamada ao LLM (documentos maiores são pontuados em lotes)
+const STRIP_MIN_CHARS = 80;     // Frases curtas ("§ 1º") são unidas à seguinte
+const STRIP_MAX_CHARS = 400;
+
+// --- AVALIAÇÃO ---
+
+const heuristicRelevance = (query: string, text: string): number => {
+  const { coverage, phrase } = queryCoverage(query, text);
+  return Math.min(1, 0.8 * coverage + 0.2 * phrase);
+};
+
+export const gradeDocuments = async <T extends { content: string }>(query: string, docs: T[]): Promise<Array<T & { relevance: number }>> => {
+  const graded: Array<T & { relevance: number }> = [];
+  for (const doc of docs) {
+      // Julgamentos em cache valem mesmo com o circuit breaker aberto; sem eles, o juiz devolve 0.5 fixo
+      // (o que tornaria toda recuperação "Ambígua") e a relevância cai para a heurística
+      const result = await evaluateChunkRelevance(query, doc.content);
+      graded.push({ ...doc, relevance: result.judged ? Math.min(1, Math.max(0, result.score)) : heuristicRelevance(query, doc.content) });
+  }
+  return graded;
+};
+
+export const decideCRAGAction = (scores: number[], params: CRAGParams = DEFAULT_CRAG_PARAMS): CRAGAction => {
+  if (scores.some(s => s >= params.upperThreshold)) return 'correct';
+  if (scores.every(s => s < params.lowerThreshold)) return 'incorrect';
+  return 'ambiguous';
+};
+
+// --- REFINAMENTO (decompor → filtrar → recompor) ---
+
+export const splitIntoStrips = (text: string): string[] => {
+  const sentences = text.split(/(?<=[.;:!?])\s+|\n+/).map(s => s.trim()).filter(Boolean);
+  const strips: string[] = [];
+  let current = '';
+  sentences.forEach(sentence => {
+      if (current && (current.length >= STRIP_MIN_CHARS || current.length + sentence.length > STRIP_MAX_CHARS)) {
+          strips.push(current);
+          current = '';
+      }
+      current = current ? `${current} ${sentence}` : sentence;
+  });
+  if (current) strips.push(current);
+  return strips;
+};
+
+interface LLMStripResponse {
+  scores: Array<{ index: number; score: number }>;
+}
+
+const STRIP_SCHEMA: LLMJsonSchema = {
+    type: 'object',
+    properties: {
+        scores: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { index: { type: 'number' }, score: { type: 'number' } },
+                required: ['index', 'score']
+            }
+        }
+    },
+    required: ['scores']
+};
+
+const scoreStrips = async (query: string, strips: string[]): Promise<{ scores: number[]; method: 'llm' | 'heuristic' }> => {
+  const heuristic = () => ({ scores: strips.map(s => heuristicRelevance(query, s)), method: 'heuristic' as const });
+  const llm = getActiveLLMProvider();
+
+  // CIRCUIT BREAKER CHECK
+  if (!llm.isAvailable()) return heuristic();
+
+  try {
+    const prompt = `
+      PERGUNTA: "${query}"
+      FAIXAS DE TEXTO:
+      ${strips.map((s, i) => `[${i}] ${s}`).join('\n')}
+
+      TASK: para cada índice, score de 0 (inútil) a 10 (essencial) para responder à pergunta.
+    `;
+    const result = await llm.generateJSON<LLMStripResponse>(prompt, STRIP_SCHEMA, { temperature: 0 });
+    const fallback = heuristic().scores;
+    const scores = [...fallback];
+    (result.scores || []).forEach(s => {
+        if (Number.isInteger(s.index) && s.index >= 0 && s.index < strips.length) scores[s.index] = Math.min(1, Math.max(0, Number(s.score) / 10));
+    });
+    return { scores, method: 'llm' };
+  } catch (error) {
+    return heuristic();
+  }
+};
+
+export const refineKnowledge = async (
+  query: string,
+  docs: Array<{ id: string; label: string; content: string }>,
+  params: CRAGParams = DEFAULT_CRAG_PARAMS
+): Promise<{ strips: KnowledgeStrip[]; total: number; method: 'llm' | 'heuristic' }> => {
+  const candidates = docs.flatMap(doc => splitIntoStrips(doc.content).map(text => ({ sourceId: doc.id, sourceLabel: doc.label, text })));
+  if (candidates.length === 0) return { strips: [], total: 0, method: 'heuristic' };
+
+  // Todas as faixas de todos os documentos são pontuadas; o limite vale por chamada, não pelo total
+  const scores: number[] = [];
+  let method: 'llm' | 'heuristic' = 'llm';
+  for (let i = 0; i < candidates.length; i += MAX_STRIPS) {
+      const batch = await scoreStrips(query, candidates.slice(i, i + MAX_STRIPS).map(c => c.text));
+      scores.push(...batch.scores);
+      if (batch.method === 'heuristic') method = 'heuristic';
+  }
+  const scored = candidates.map((c, i) => ({ ...c, score: scores[i] }));
+
+  // Documento aprovado pelo avaliador contribui ao menos com a sua melhor faixa
+  const kept = new Set(scored.filter(s => s.score >= params.stripThreshold));
+  docs.forEach(doc => {
+      const own = scored.filter(s => s.sourceId === doc.id);
+      if (own.length > 0 && !own.some(s => kept.has(s))) kept.add(own.reduce((a, b) => (b.score > a.score ? b : a)));
+  });
+
+  return { strips: scored.filter(s => kept.has(s)), total: candidates.length, method };
+};
+
+// --- REESCRITA DA PERGUNTA ---
+
+const QUESTION_WORDS = new Set(['qual', 'quais', 'como', 'quando', 'onde', 'quem', 'porque', 'quanto', 'quantos', 'quantas', 'existe', 'existem', 'ha', 'sobre', 'sao', 'esta', 'estao']);
+
+// Sem LLM: remove interrogativos e stopwords, mantendo as grafias originais (números de artigo inclusive)
+export const heuristicRewrite = (query: string): string =>
+  query
+    .replace(/[?¿!"]/g, ' ')
+    .split(/\s+/)
+    .filter(w => {
+        const bare = stripAccents(w).toLowerCase().replace(/[^a-z0-9]/g, '');
+        return bare.length > 0 && !PORTUGUESE_STOPWORDS.has(bare) && !QUESTION_WORDS.has(bare);
+    })
+    .join(' ') || query;
+
+export const rewriteQuery = async (query: string): Promise<{ query: string; method: 'llm' | 'heuristic' }> => {
+  const llm = getActiveLLMProvider();
+  if (!llm.isAvailable()) return { query: heuristicRewrite(query), method: 'heuristic' };
+  try {
+    const text = await llm.generateText(
+      `Reescreva a pergunta abaixo como uma consulta de busca para um corpus jurídico brasileiro: termos técnicos, ` +
+      `sinônimos normativos e citações explícitas. Responda apenas com a consulta.\nPERGUNTA: "${query}"`
+    );
+    const rewritten = (text || '').replace(/^["'\s]+|["'\s]+$/g, '').split('\n')[0];
+    return rewritten ? { query: rewritten, method: 'llm' } : { query: heuristicRewrite(query), method: 'heuristic' };
+  } catch (e) {
+    return { query: heuristicRewrite(query), method: 'heuristic' };
+  }
+};
+
+// --- BASE EXTERNA (substitui a busca web) ---
+
+export const searchExternalDocuments = (documents: ExternalDocument[], query: string, limit: number = 3): KnowledgeStrip[] => {
+  const strips = documents.flatMap(doc => splitIntoStrips(doc.text).map((text, i) => ({ id: `${doc.id}#${i}`, doc, text })));
+  if (strips.length === 0) return [];
+  const index = buildBM25Index(strips.map(s => ({ id: s.id, text: s.text })));
+  const byId = new Map(strips.map(s => [s.id, s]));
+  return searchBM25(index, query, limit).map(r => ({
+      sourceId: byId.get(r.id)!.doc.id,
+      sourceLabel: byId.get(r.id)!.doc.title,
+      text: byId.get(r.id)!.text,
+      score: r.score
+  }));
+};
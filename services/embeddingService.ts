@@ -0,0 +1,265 @@
+import { DocumentChunk, EmbeddingVector, EmbeddingProvider, EmbeddingProviderConfig, EmbeddingProviderId, EmbeddingModelInfo } from '../types';
+import { ai, retryOperation, isQuotaExceeded, hasGeminiApiKey, delay } from './geminiClient';
+import { getCached, putCached, modelCacheKey } from './cacheService';
+
+// --- LOCAL EMBEDDER (Hashed Character N-gram Projection) ---
+// Determinístico e offline: cada n-grama é projetado em uma dimensão via hashing (FNV-1a)
+// com sinal aleatório (feature hashing), ponderado por TF sublinear e normalizado (L2).
+
+const fnv1a = (str: string, seed: number = 0x811c9dc5): number => {
+  let hash = seed >>> 0;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash >>> 0;
+};
+
+const normalizeForHashing = (text: string): string =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9§ºª\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const embedTextLocally = (text: string, dimensions: number): number[] => {
+  const vector = new Array(dimensions).fill(0);
+  const normalized = normalizeForHashing(text);
+  if (normalized.length === 0) return vector;
+
+  const termFrequency = new Map<string, number>();
+  const addTerm = (term: string) => termFrequency.set(term, (termFrequency.get(term) || 0) + 1);
+
+  // Unigramas de palavras (sinal lexical forte)
+  normalized.split(' ').forEach(word => { if (word.length > 1) addTerm(`w:${word}`); });
+
+  // N-gramas de caracteres (3 a 5) com padding de palavra: robusto a flexões e erros de OCR
+  normalized.split(' ').forEach(word => {
+    const padded = ` ${word} `;
+    for (let n = 3; n <= 5; n++) {
+      for (let i = 0; i + n <= padded.length; i++) addTerm(`c:${padded.slice(i, i + n)}`);
+    }
+  });
+
+  termFrequency.forEach((tf, term) => {
+    const hash = fnv1a(term);
+    const index = hash % dimensions;
+    const sign = (fnv1a(term, 0x9747b28c) & 1) === 0 ? 1 : -1;
+    const weight = term.startsWith('w:') ? 2 : 1;
+    vector[index] += sign * weight * (1 + Math.log(tf));
+  });
+
+  const norm = Math.sqrt(vector.reduce((acc, v) => acc + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+};
+
+// --- PROVIDER FACTORIES ---
+
+const createGeminiEmbeddingProvider = (config: EmbeddingProviderConfig): EmbeddingProvider => {
+  const model = config.model || 'text-embedding-004';
+  return {
+    id: 'gemini',
+    name: `Gemini ${model}`,
+    model,
+    dimensions: 768,
+    embed: async (texts: string[]) => {
+      const result = await retryOperation(async () => {
+        return await ai.models.embedContent({
+          model,
+          contents: texts,
+        });
+      }, 2, 2000);
+      return (result.embeddings || []).map(e => e.values || []);
+    }
+  };
+};
+
+const createOpenAICompatibleEmbeddingProvider = (config: EmbeddingProviderConfig): EmbeddingProvider => {
+  const baseUrl = (config.baseUrl || 'http://localhost:11434/v1').replace(/\/+$/, '');
+  const model = config.model || 'nomic-embed-text';
+  const provider: EmbeddingProvider = {
+    id: 'openai-compatible',
+    name: `OpenAI-Compatible ${model}`,
+    model,
+    dimensions: config.dimensions || 768,
+    embed: async (texts: string[]) => {
+      const response = await fetch(`${baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+        },
+        body: JSON.stringify({ model, input: texts })
+      });
+      if (!response.ok) throw new Error(`[Embedding API] ${response.status} ${response.statusText}`);
+      const json = await response.json();
+      const vectors: number[][] = (json.data || [])
+        .sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0))
+        .map((d: any) => d.embedding as number[]);
+      // A dimensão real só é conhecida após a primeira resposta do servidor
+      if (vectors[0]?.length) provider.dimensions = vectors[0].length;
+      return vectors;
+    }
+  };
+  return provider;
+};
+
+const createLocalEmbeddingProvider = (config: EmbeddingProviderConfig): EmbeddingProvider => {
+  const dimensions = config.dimensions || 512;
+  return {
+    id: 'local-ngram',
+    name: 'Local Hashed N-gram',
+    model: `hashed-char-ngram-${dimensions}`,
+    dimensions,
+    embed: async (texts: string[]) => texts.map(t => embedTextLocally(t, dimensions))
+  };
+};
+
+// --- REGISTRY ---
+
+type EmbeddingProviderFactory = (config: EmbeddingProviderConfig) => EmbeddingProvider;
+
+const embeddingProviderRegistry: Record<string, EmbeddingProviderFactory> = {
+  'gemini': createGeminiEmbeddingProvider,
+  'openai-compatible': createOpenAICompatibleEmbeddingProvider,
+  'local-ngram': createLocalEmbeddingProvider,
+};
+
+// Opções exibidas na UI de seleção de provedor
+export const EMBEDDING_PROVIDER_OPTIONS: Array<{ id: EmbeddingProviderId; label: string; requiresBaseUrl: boolean }> = [
+  { id: 'gemini', label: 'Google Gemini (text-embedding-004)', requiresBaseUrl: false },
+  { id: 'openai-compatible', label: 'OpenAI-Compatible / Ollama (HTTP)', requiresBaseUrl: true },
+  { id: 'local-ngram', label: 'Local Offline (Hashed N-gram)', requiresBaseUrl: false },
+];
+
+export const registerEmbeddingProvider = (id: EmbeddingProviderId, factory: EmbeddingProviderFactory) => {
+  embeddingProviderRegistry[id] = factory;
+};
+
+export const createEmbeddingProvider = (config: EmbeddingProviderConfig): EmbeddingProvider => {
+  const factory = embeddingProviderRegistry[config.providerId];
+  if (!factory) throw new Error(`Provedor de embedding desconhecido: ${config.providerId}`);
+  return factory(config);
+};
+
+// Sem chave Gemini o pipeline inicia diretamente no embedder local
+export const getDefaultEmbeddingConfig = (): EmbeddingProviderConfig =>
+  hasGeminiApiKey() ? { providerId: 'gemini', model: 'text-embedding-004' } : { providerId: 'local-ngram', dimensions: 512 };
+
+export const describeEmbeddingProvider = (provider: EmbeddingProvider): EmbeddingModelInfo => ({
+  providerId: provider.id,
+  name: provider.name,
+  model: provider.model,
+  dimensions: provider.dimensions
+});
+
+export const formatEmbeddingModel = (info: EmbeddingModelInfo): string => `${info.name} (${info.dimensions}d)`;
+
+// Recria o provedor que gerou o índice (projeto reaberto): novos vetores e consultas precisam do mesmo espaço.
+// Endpoint e chave vêm da configuração atual quando ela aponta para o mesmo provedor
+export const createEmbeddingProviderForModel = (info: EmbeddingModelInfo, current: EmbeddingProviderConfig): EmbeddingProvider =>
+  createEmbeddingProvider({
+    ...(current.providerId === info.providerId ? current : {}),
+    providerId: info.providerId,
+    model: info.model,
+    dimensions: info.dimensions
+  });
+
+// Cota excedida interrompe a vetorização: o embedder local vive em outro espaço vetorial e misturá-lo ao índice
+// (mesma dimensão) tornaria a similaridade ruído. Vetores já obtidos ficam no cache para a nova tentativa.
+const EMBEDDING_CACHE_VERSION = 1; // Incrementar ao mudar o texto enviado ao embedder (Type/Label/Content)
+
+const isProviderBlocked = (provider: EmbeddingProvider): boolean => provider.id === 'gemini' && isQuotaExceeded();
+
+const quotaExceededError = (provider: EmbeddingProvider): Error =>
+  new Error(`Cota do provedor de embedding ${provider.name} excedida. Aguarde e tente novamente ou gere todo o índice com o embedder local.`);
+
+const buildEmbeddingVector = (chunk: DocumentChunk, vector: number[], modelUsed: string): EmbeddingVector => ({
+  id: chunk.id,
+  vector,
+  contentSummary: chunk.content.substring(0, 50) + '...',
+  fullContent: chunk.content,
+  dueDate: chunk.dueDate,
+  entityType: chunk.entityType,
+  entityLabel: chunk.entityLabel,
+  keywords: chunk.keywords,
+  modelUsed
+});
+
+const embeddingBatchSize = (provider: EmbeddingProvider): number => (provider.id === 'local-ngram' ? 32 : 3);
+
+// Um lote: vetores do mesmo texto/modelo vêm do cache (gravados como Float32Array); só as faltas vão ao provedor.
+// Cota excedida, erro ou resposta incompleta interrompem a vetorização (nada é completado com outro espaço)
+const embedBatch = async (texts: string[], provider: EmbeddingProvider, label: string): Promise<{ vectors: number[][]; fetched: number }> => {
+  const cacheModel = modelCacheKey(provider);
+  const cached = await Promise.all(texts.map(text => getCached<Float32Array>('embedding', cacheModel, EMBEDDING_CACHE_VERSION, text)));
+  const missing = texts.map((_, idx) => idx).filter(idx => !cached[idx]);
+  const vectors: Array<number[] | null> = cached.map(v => (v ? Array.from(v) : null));
+
+  if (missing.length > 0 && isProviderBlocked(provider)) throw quotaExceededError(provider);
+
+  if (missing.length > 0) {
+    try {
+      const fresh = await provider.embed(missing.map(idx => texts[idx]));
+      await Promise.all(missing.map(async (idx, j) => {
+          vectors[idx] = fresh[j] || null;
+          if (fresh[j]) await putCached('embedding', cacheModel, EMBEDDING_CACHE_VERSION, texts[idx], Float32Array.from(fresh[j]));
+      }));
+    } catch (e: any) {
+      console.error(`[Embedding] Falha no ${label} (${provider.name}):`, e);
+      if (isProviderBlocked(provider)) throw quotaExceededError(provider);
+      throw new Error(`Falha ao gerar embeddings com ${provider.name}: ${e?.message || e}`);
+    }
+    if (missing.some(idx => !vectors[idx])) throw new Error(`${provider.name} não retornou vetores para todos os textos do ${label}.`);
+  }
+  return { vectors: vectors as number[][], fetched: missing.length };
+};
+
+export const generateEmbeddings = async (
+  chunks: DocumentChunk[],
+  provider: EmbeddingProvider,
+  onProgress: (progress: number) => void
+): Promise<EmbeddingVector[]> => {
+  const embeddings: EmbeddingVector[] = [];
+  const isRemote = provider.id !== 'local-ngram';
+  const batchSize = embeddingBatchSize(provider);
+  // Dimensão de provedores remotos só é conhecida após a primeira resposta
+  const modelUsed = () => formatEmbeddingModel(describeEmbeddingProvider(provider));
+
+  for (let i = 0; i < chunks.length; i += batchSize) {
+    const batch = chunks.slice(i, i + batchSize);
+    const texts = batch.map(chunk => `Type: ${chunk.entityType}\nLabel: ${chunk.entityLabel}\nContent: ${chunk.content}`);
+    const { vectors, fetched } = await embedBatch(texts, provider, `lote ${i / batchSize}`);
+    embeddings.push(...batch.map((chunk, idx) => buildEmbeddingVector(chunk, vectors[idx], modelUsed())));
+
+    onProgress(Math.round(((i + batch.length) / chunks.length) * 100));
+    if (fetched > 0) await delay(isRemote ? 500 : 0);
+  }
+  return embeddings;
+};
+
+// Textos avulsos (ex: sentenças do chunking semântico) com os mesmos lotes, cache e circuit breaker
+export const embedTexts = async (texts: string[], provider: EmbeddingProvider): Promise<number[][]> => {
+  const vectors: number[][] = [];
+  const batchSize = embeddingBatchSize(provider);
+  for (let i = 0; i < texts.length; i += batchSize) {
+    const { vectors: batch, fetched } = await embedBatch(texts.slice(i, i + batchSize), provider, `lote ${i / batchSize}`);
+    vectors.push(...batch);
+    if (fetched > 0 && provider.id !== 'local-ngram') await delay(500);
+  }
+  return vectors;
+};
+
+export const generateSingleEmbedding = async (text: string, provider: EmbeddingProvider): Promise<number[]> => {
+  const input = text.substring(0, 2048);
+  const cached = await getCached<Float32Array>('embedding', modelCacheKey(provider), EMBEDDING_CACHE_VERSION, input);
+  if (cached) return Array.from(cached);
+  // A consulta precisa estar no mesmo espaço do índice: sem o provedor, a busca vetorial falha explicitamente
+  if (isProviderBlocked(provider)) throw quotaExceededError(provider);
+  const [vector] = await provider.embed([input]);
+  if (!vector) throw new Error(`${provider.name} não retornou o vetor da consulta.`);
+  await putCached('embedding', modelCacheKey(provider), EMBEDDING_CACHE_VERSION, input, Float32Array.from(vector));
+  return vector;
+};
@@ -0,0 +1,263 @@
+import { AliasEntry, AliasTable, EmbeddingProvider, EntityMergeSuggestion } from '../types';
+import { cosineSimilarity } from './cnnRefinementService';
+
+// Resolução de entidades: "Lei 8.666", "Lei nº 8.666/93" e "lei 8666" devem convergir para uma única
+// forma canônica usada pelo grafo, pelos perfis de cluster e pelas exportações.
+
+// --- NORMALIZAÇÃO (PT-BR) ---
+
+export const PORTUGUESE_STOPWORDS = new Set([
+  'a', 'o', 'as', 'os', 'de', 'da', 'do', 'das', 'dos', 'e', 'em', 'no', 'na', 'nos', 'nas',
+  'um', 'uma', 'para', 'por', 'pela', 'pelo', 'pelas', 'pelos', 'com', 'sem', 'ao', 'aos', 'que', 'se'
+]);
+
+export const stripAccents = (text: string): string => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Exceções da etapa de plural do RSLP: plurais que só perdem o "s" e palavras terminadas em "s" que não são plurais
+const STEM_EXCEPTIONS: Record<string, string> = {
+  leis: 'lei', reis: 'rei', bois: 'boi', herois: 'heroi',
+  mais: 'mais', pais: 'pais', cais: 'cais', seis: 'seis', tres: 'tres', pois: 'pois', depois: 'depois',
+  simples: 'simples', lapis: 'lapis', onibus: 'onibus', virus: 'virus', atlas: 'atlas'
+};
+
+// Stemmer leve (sufixos de plural do RSLP); suficiente para agrupar singular/plural
+export const stemPortuguese = (word: string): string => {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+  if (STEM_EXCEPTIONS[word]) return STEM_EXCEPTIONS[word];
+  const rules: Array<[RegExp, string]> = [
+    [/coes$/, 'cao'], [/oes$/, 'ao'], [/aes$/, 'ao'], [/ais$/, 'al'], [/eis$/, 'el'],
+    [/ois$/, 'ol'], [/ns$/, 'm'], [/res$/, 'r'], [/les$/, 'l'], [/([^su])s$/, '$1']
+  ];
+  for (const [pattern, replacement] of rules) {
+    if (pattern.test(word)) return word.replace(pattern, replacement);
+  }
+  return word;
+};
+
+export const normalizePortugueseTerm = (term: string): string =>
+  stripAccents(term)
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(w => w.length > 0 && !PORTUGUESE_STOPWORDS.has(w))
+    .map(stemPortuguese)
+    .join(' ');
+
+// --- CITAÇÕES LEGAIS ---
+
+export interface LegalCitation {
+  kind: string;   // Ex: Lei, Lei Complementar, Decreto
+  number: string; // Sem separadores de milhar (8666)
+  year?: string;  // Sempre com 4 dígitos
+}
+
+const LEGAL_KINDS: Array<[RegExp, string]> = [
+  [/^lei complementar$/, 'Lei Complementar'],
+  [/^decreto[\s-]lei$/, 'Decreto-Lei'],
+  [/^lei$/, 'Lei'],
+  [/^decreto$/, 'Decreto'],
+  [/^medida provisoria$/, 'Medida Provisória'],
+  [/^emenda constitucional$/, 'Emenda Constitucional'],
+  [/^resolucao$/, 'Resolução'],
+  [/^portaria$/, 'Portaria'],
+  [/^instrucao normativa$/, 'Instrução Normativa']
+];
+
+const CITATION_PATTERN = /^(lei complementar|decreto[\s-]lei|lei|decreto|medida provisoria|emenda constitucional|resolucao|portaria|instrucao normativa)\s*(?:n\s*[º°o.]*\s*|numero\s*)?(\d[\d.]*)\s*(?:\/\s*(\d{2,4})|,?\s*de\s+\d{1,2}[º°o]?\s+de\s+[a-z]+\s+de\s+(\d{4}))?(.*)$/;
+
+const expandYear = (year: string): string => {
+  if (year.length === 4) return year;
+  const yy = parseInt(year, 10);
+  return String(yy > 30 ? 1900 + yy : 2000 + yy);
+};
+
+// Reconhece apenas termos que SÃO a citação (resto curto); "prazos da Lei 8.666" continua termo comum
+export const parseLegalCitation = (text: string): LegalCitation | null => {
+  const match = stripAccents(text).toLowerCase().replace(/\s+/g, ' ').trim().match(CITATION_PATTERN);
+  if (!match || match[5].replace(/[^a-z0-9]/g, '').length > 3) return null;
+  const kind = LEGAL_KINDS.find(([pattern]) => pattern.test(match[1]))?.[1] || match[1];
+  const year = match[3] || match[4];
+  return { kind, number: match[2].replace(/\./g, ''), year: year ? expandYear(year) : undefined };
+};
+
+export const formatLegalCitation = (citation: LegalCitation): string => {
+  const number = citation.number.length > 3 ? citation.number.replace(/\B(?=(\d{3})+(?!\d))/g, '.') : citation.number;
+  return `${citation.kind} nº ${number}${citation.year ? `/${citation.year}` : ''}`;
+};
+
+// Chave de agrupamento: citações por (espécie, número); demais termos pela forma normalizada + stemming
+export const canonicalKey = (term: string): string => {
+  const citation = parseLegalCitation(term);
+  if (citation) return `${stripAccents(citation.kind).toLowerCase()}:${citation.number}`;
+  return normalizePortugueseTerm(term);
+};
+
+const isLegalKey = (key: string) => key.includes(':');
+
+// --- FUZZY MATCHING ---
+
+const levenshtein = (a: string, b: string): number => {
+  const prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const temp = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = temp;
+    }
+  }
+  return prev[b.length];
+};
+
+export const fuzzySimilarity = (a: string, b: string): number => {
+  const maxLen = Math.max(a.length, b.length);
+  return maxLen === 0 ? 1 : 1 - levenshtein(a, b) / maxLen;
+};
+
+const ROMAN_NUMERAL = /^m{0,4}(cm|cd|d?c{0,3})(xc|xl|l?x{0,3})(ix|iv|v?i{0,3})$/;
+
+// Números e algarismos romanos identificam prazos e dispositivos ("15 dias" ≠ "10 dias", "inciso III" ≠ "inciso II")
+const numberTokens = (text: string): string => {
+  const words = stripAccents(text).toLowerCase().replace(/(\d)\.(?=\d)/g, '$1').split(/[^a-z0-9]+/).filter(Boolean);
+  return words.filter(w => /^\d+$/.test(w) || ROMAN_NUMERAL.test(w)).join(' ');
+};
+
+const sameNumberTokens = (a: string, b: string): boolean => numberTokens(a) === numberTokens(b);
+
+// --- TABELA DE ALIASES ---
+
+export interface EntityResolutionOptions {
+  fuzzyThreshold: number; // Similaridade mínima (1 - Levenshtein normalizado) para fusão automática
+  minFuzzyLength: number; // Termos curtos (siglas) nunca são fundidos por fuzzy
+}
+
+export const DEFAULT_ENTITY_RESOLUTION_OPTIONS: EntityResolutionOptions = { fuzzyThreshold: 0.88, minFuzzyLength: 6 };
+
+// Forma de exibição: citações no padrão "Lei nº 8.666/1993" (com o ano, se algum alias o trouxer);
+// demais termos pela grafia mais frequente, desempatando pela mais longa
+const chooseCanonical = (surfaceCounts: Map<string, number>): string => {
+  const surfaces = Array.from(surfaceCounts.keys());
+  const citations = surfaces.map(parseLegalCitation).filter((c): c is LegalCitation => c !== null);
+  if (citations.length > 0) {
+    return formatLegalCitation(citations.find(c => c.year) || citations[0]);
+  }
+  return surfaces.sort((a, b) => (surfaceCounts.get(b)! - surfaceCounts.get(a)!) || (b.length - a.length))[0];
+};
+
+export const buildAliasTable = (terms: string[], options: EntityResolutionOptions = DEFAULT_ENTITY_RESOLUTION_OPTIONS): AliasTable => {
+  // 1. Agrupamento exato pela chave canônica
+  const groups = new Map<string, Map<string, number>>();
+  terms.forEach(raw => {
+    const surface = raw.replace(/\s+/g, ' ').trim();
+    if (!surface) return;
+    const key = canonicalKey(surface);
+    if (!key) return;
+    if (!groups.has(key)) groups.set(key, new Map());
+    const counts = groups.get(key)!;
+    counts.set(surface, (counts.get(surface) || 0) + 1);
+  });
+
+  // 2. Fusão fuzzy entre chaves (Union-Find); citações legais só se fundem pela chave exata
+  const keys = Array.from(groups.keys());
+  const parent = new Map(keys.map(k => [k, k]));
+  const find = (k: string): string => {
+    while (parent.get(k) !== k) k = parent.get(k)!;
+    return k;
+  };
+  const fuzzyKeys = keys.filter(k => !isLegalKey(k) && k.length >= options.minFuzzyLength);
+  for (let i = 0; i < fuzzyKeys.length; i++) {
+    for (let j = i + 1; j < fuzzyKeys.length; j++) {
+      const a = fuzzyKeys[i];
+      const b = fuzzyKeys[j];
+      if (Math.abs(a.length - b.length) > a.length * (1 - options.fuzzyThreshold) + 1) continue;
+      if (!sameNumberTokens(a, b)) continue;
+      if (fuzzySimilarity(a, b) >= options.fuzzyThreshold) parent.set(find(b), find(a));
+    }
+  }
+
+  // 3. Entradas e lookup chave → forma canônica
+  const merged = new Map<string, { keys: string[]; counts: Map<string, number> }>();
+  keys.forEach(key => {
+    const root = find(key);
+    if (!merged.has(root)) merged.set(root, { keys: [], counts: new Map() });
+    const target = merged.get(root)!;
+    target.keys.push(key);
+    groups.get(key)!.forEach((count, surface) => target.counts.set(surface, (target.counts.get(surface) || 0) + count));
+  });
+
+  const entries: AliasEntry[] = [];
+  const lookup: Record<string, string> = {};
+  merged.forEach(({ keys: memberKeys, counts }, root) => {
+    const canonical = chooseCanonical(counts);
+    entries.push({
+      canonical,
+      aliases: Array.from(counts.keys()),
+      kind: isLegalKey(root) ? 'citacao-legal' : 'termo',
+      occurrences: Array.from(counts.values()).reduce((a, b) => a + b, 0)
+    });
+    memberKeys.forEach(k => { lookup[k] = canonical; });
+  });
+
+  return { entries: entries.sort((a, b) => b.occurrences - a.occurrences), lookup };
+};
+
+// Termos fora da tabela ainda se beneficiam da chave canônica (variantes inéditas de uma citação conhecida)
+export const resolveTerm = (table: AliasTable | null | undefined, term: string): string => {
+  const surface = term.replace(/\s+/g, ' ').trim();
+  if (!table) return surface;
+  return table.lookup[canonicalKey(surface)] || surface;
+};
+
+// --- SUGESTÕES DE FUSÃO POR EMBEDDING ---
+
+export const suggestEmbeddingMerges = async (
+  table: AliasTable,
+  provider: EmbeddingProvider,
+  threshold: number = 0.9,
+  maxSuggestions: number = 20
+): Promise<EntityMergeSuggestion[]> => {
+  const candidates = table.entries.filter(e => e.kind === 'termo');
+  if (candidates.length < 2) return [];
+
+  const vectors: number[][] = [];
+  const batchSize = 32;
+  for (let i = 0; i < candidates.length; i += batchSize) {
+    vectors.push(...await provider.embed(candidates.slice(i, i + batchSize).map(e => e.canonical)));
+  }
+
+  const suggestions: EntityMergeSuggestion[] = [];
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      if (!sameNumberTokens(candidates[i].canonical, candidates[j].canonical)) continue;
+      const score = cosineSimilarity(vectors[i], vectors[j]);
+      if (score >= threshold) {
+        // A entrada mais frequente absorve a outra
+        const [keep, merge] = candidates[i].occurrences >= candidates[j].occurrences ? [candidates[i], candidates[j]] : [candidates[j], candidates[i]];
+        suggestions.push({ keep: keep.canonical, merge: merge.canonical, score });
+      }
+    }
+  }
+  return suggestions.sort((a, b) => b.score - a.score).slice(0, maxSuggestions);
+};
+
+export const applyMergeSuggestion = (table: AliasTable, suggestion: EntityMergeSuggestion): AliasTable => {
+  const keep = table.entries.find(e => e.canonical === suggestion.keep);
+  const merge = table.entries.find(e => e.canonical === suggestion.merge);
+  if (!keep || !merge || keep === merge) return table;
+
+  const combined: AliasEntry = {
+    ...keep,
+    aliases: Array.from(new Set([...keep.aliases, ...merge.aliases])),
+    occurrences: keep.occurrences + merge.occurrences
+  };
+  const lookup: Record<string, string> = {};
+  Object.entries(table.lookup).forEach(([key, canonical]) => {
+    lookup[key] = canonical === merge.canonical ? keep.canonical : canonical;
+  });
+
+  return {
+    entries: table.entries.filter(e => e !== merge).map(e => (e === keep ? combined : e)),
+    lookup
+  };
+};
@@ -34,7 +34,10 @@ export const downloadCSV = (data: any[], filename: string) => {
   ];
 
   const csvString = csvRows.join('\n');
-  const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' });
+  downloadBlob(new Blob([csvString], { type: 'text/csv;charset=utf-8;' }), filename);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
   const url = URL.createObjectURL(blob);
   
   const link = document.createElement('a');
@@ -44,4 +47,5 @@ export const downloadCSV = (data: any[], filename: string) => {
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
+  URL.revokeObjectURL(url);
 };
\ No newline at end of file
@@ -0,0 +1,125 @@
+import { ContextPassage, ClaimCheck, FaithfulnessReport, FaithfulnessParams, LLMJsonSchema } from '../types';
+import { getActiveLLMProvider } from './llmService';
+import { formatPassagesForPrompt, CITATION_PATTERN, expandRefs } from './citationService';
+import { queryCoverage } from './rerankService';
+import { tokenizePortuguese } from './lexicalSearchService';
+
+// Verificação pós-geração: a resposta é decomposta em afirmações e cada uma é checada contra o contexto
+// recuperado (juiz NLI via LLM; sem LLM, cobertura léxica). Mede a alucinação que o pipeline quer mitigar.
+
+export const DEFAULT_FAITHFULNESS_PARAMS: FaithfulnessParams = { enabled: true, minScore: 0.7, regenerate: false };
+
+const SUPPORT_THRESHOLD = 0.6;  // Cobertura mínima (heurística) para considerar a afirmação sustentada
+const MAX_CLAIMS = 25;
+const MIN_CLAIM_TOKENS = 2;     // "Sim." / "Veja abaixo:" não são afirmações verificáveis
+
+// Abreviações jurídicas que terminam em ponto sem encerrar a frase ("Art. 5º", "inc. II", "Lei nº 8.666")
+const ABBREVIATION_END = /(?:^|\s)(?:art|arts|inc|al|cf|ex|n|nº|p|pág|fls|par|dec)\.$/i;
+
+// --- DECOMPOSIÇÃO EM AFIRMAÇÕES ---
+
+export const splitIntoClaims = (answer: string): Array<{ text: string; refs: number[] }> => {
+  const pieces = answer
+    .split(/(?<=[.!?])\s+(?=[A-ZÀ-Ú"“(])|\n+/)
+    .map(p => p.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim())
+    .filter(Boolean);
+
+  const sentences: string[] = [];
+  pieces.forEach(piece => {
+      const last = sentences[sentences.length - 1];
+      if (last && ABBREVIATION_END.test(last)) sentences[sentences.length - 1] = `${last} ${piece}`;
+      else sentences.push(piece);
+  });
+
+  return sentences
+    .map(sentence => {
+        const refs = Array.from(new Set(Array.from(sentence.matchAll(CITATION_PATTERN)).flatMap(m => expandRefs(m[1]))));
+        return { text: sentence.replace(CITATION_PATTERN, '').replace(/\s+([.,;:])/g, '$1').trim(), refs };
+    })
+    .filter(c => tokenizePortuguese(c.text).length >= MIN_CLAIM_TOKENS)
+    .slice(0, MAX_CLAIMS);
+};
+
+// --- VERIFICAÇÃO ---
+
+// Trechos citados pela afirmação têm prioridade; sem citação, vale o melhor trecho do contexto
+const heuristicCheck = (claim: { text: string; refs: number[] }, passages: ContextPassage[]): ClaimCheck => {
+  const cited = claim.refs.filter(r => passages[r - 1]);
+  const candidates = cited.length > 0 ? cited : passages.map((_, i) => i + 1);
+  let best = { ref: 0, coverage: 0 };
+  candidates.forEach(ref => {
+      const { coverage } = queryCoverage(claim.text, passages[ref - 1].text);
+      if (coverage > best.coverage) best = { ref, coverage };
+  });
+  return {
+      claim: claim.text,
+      supported: best.coverage >= SUPPORT_THRESHOLD,
+      score: best.coverage,
+      evidenceRef: best.ref || undefined,
+      method: 'heuristic'
+  };
+};
+
+interface LLMVerifyResponse {
+  results: Array<{ index: number; verdict: string; score?: number; evidence?: number }>;
+}
+
+const VERIFY_SCHEMA: LLMJsonSchema = {
+    type: 'object',
+    properties: {
+        results: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    index: { type: 'number' },
+                    verdict: { type: 'string', enum: ['sustentada', 'nao_sustentada', 'contradita'] },
+                    score: { type: 'number' },
+                    evidence: { type: 'number' }
+                },
+                required: ['index', 'verdict']
+            }
+        }
+    },
+    required: ['results']
+};
+
+export const verifyAnswer = async (answer: string, passages: ContextPassage[]): Promise<Omit<FaithfulnessReport, 'regenerated'>> => {
+  const claims = splitIntoClaims(answer);
+  if (claims.length === 0 || passages.length === 0) return { claims: [], score: 1 };
+
+  const heuristic = () => claims.map(c => heuristicCheck(c, passages));
+  const summarize = (checks: ClaimCheck[]) => ({ claims: checks, score: checks.filter(c => c.supported).length / checks.length });
+  const llm = getActiveLLMProvider();
+
+  // CIRCUIT BREAKER CHECK
+  if (!llm.isAvailable()) return summarize(heuristic());
+
+  try {
+    const prompt = `
+      Você é um verificador de fidelidade (NLI). Para cada AFIRMAÇÃO, diga se ela é implicada pelo CONTEXTO.
+      CONTEXTO:
+      ${formatPassagesForPrompt(passages)}
+
+      AFIRMAÇÕES:
+      ${claims.map((c, i) => `(${i}) ${c.text}`).join('\n')}
+
+      TASK: para cada índice, verdict "sustentada" (o contexto implica a afirmação), "nao_sustentada" (ausente do contexto)
+      ou "contradita"; score de 0 a 1; evidence = número [n] do trecho que a sustenta (0 se nenhum).
+    `;
+    const result = await llm.generateJSON<LLMVerifyResponse>(prompt, VERIFY_SCHEMA, { temperature: 0 });
+    const fallback = heuristic();
+    const byIndex = new Map((result.results || []).map(r => [Number(r.index), r]));
+    // Afirmações omitidas pelo juiz ficam com a verificação heurística
+    return summarize(claims.map((c, i) => {
+        const judged = byIndex.get(i);
+        if (!judged) return fallback[i];
+        const supported = judged.verdict === 'sustentada';
+        const score = typeof judged.score === 'number' && !isNaN(judged.score) ? Math.min(1, Math.max(0, judged.score)) : (supported ? 1 : 0);
+        const evidence = Number(judged.evidence);
+        return { claim: c.text, supported, score, evidenceRef: passages[evidence - 1] ? evidence : undefined, method: 'llm' };
+    }));
+  } catch (error) {
+    return summarize(heuristic());
+  }
+};
@@ -0,0 +1,54 @@
+import { GoogleGenAI } from "@google/genai";
+
+// Inicializa o cliente Gemini (compartilhado pelos provedores de LLM e Embedding)
+export const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+// Indica se há chave configurada; sem ela o pipeline deve operar com provedores locais
+export const hasGeminiApiKey = (): boolean => !!process.env.API_KEY && process.env.API_KEY !== 'undefined';
+
+// --- CIRCUIT BREAKER STATE ---
+// Se true, interrompe chamadas à API para evitar erros em cascata e bloqueios
+let globalQuotaExceeded = false;
+
+export const isQuotaExceeded = (): boolean => globalQuotaExceeded;
+
+export const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Wrapper de Retry com detecção de Cota
+export async function retryOperation<T>(operation: () => Promise<T>, maxRetries: number = 3, initialDelay: number = 2000): Promise<T> {
+  if (globalQuotaExceeded) throw new Error("Circuit Breaker Open: Quota Exceeded");
+
+  let lastError: any;
+
+  for (let i = 0; i < maxRetries; i++) {
+    try {
+      return await operation();
+    } catch (error: any) {
+      lastError = error;
+
+      const isRateLimit = error.message?.includes('429') || error.status === 429 || error.code === 429 || error.message?.includes('Quota exceeded') || error.message?.includes('Resource has been exhausted');
+      const isServerOverload = error.message?.includes('503') || error.status === 503;
+
+      if (isRateLimit) {
+        console.warn(`[Gemini API] Cota atingida (Tentativa ${i + 1}/${maxRetries}).`);
+        if (i === maxRetries - 1) {
+            // Se falhou na última tentativa por cota, ativa o Circuit Breaker
+            console.error("[Gemini API] COTA EXCEDIDA CRITICAMENTE. ATIVANDO MODO HEURÍSTICO GLOBAL.");
+            globalQuotaExceeded = true;
+        } else {
+            // Backoff agressivo para rate limit
+            const waitTime = initialDelay * Math.pow(3, i) + (Math.random() * 2000);
+            await delay(waitTime);
+            continue;
+        }
+      } else if (isServerOverload) {
+        const waitTime = initialDelay * Math.pow(2, i);
+        await delay(waitTime);
+        continue;
+      }
+
+      throw error;
+    }
+  }
+  throw lastError;
+}
@@ -1,17 +1,13 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { DocumentChunk, EmbeddingVector } from "../types";
+import { DocumentChunk, LLMJsonSchema, ContextPassage } from "../types";
+import { delay } from "./geminiClient";
+import { getActiveLLMProvider } from "./llmService";
+import { formatPassagesForPrompt } from "./citationService";
+import { formatHistoryForPrompt } from "./conversationService";
+import { getCached, putCached, modelCacheKey } from "./cacheService";
 
-// Inicializa o cliente Gemini
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-// Configuração dos Modelos
-const modelName = 'gemini-3-flash-preview'; 
-const embeddingModelName = 'text-embedding-004';
-
-// --- CIRCUIT BREAKER STATE ---
-// Se true, interrompe chamadas à API para evitar erros em cascata e bloqueios
-let globalQuotaExceeded = false;
+// Os prompts abaixo são independentes de provedor: o modelo efetivo vem de getActiveLLMProvider()
+// (Gemini, OpenAI-compatible/Ollama ou roteirizado), selecionável em tempo de execução na UI.
 
 interface GeminiChunkResponse {
   cleaned_text?: string;
@@ -20,47 +16,6 @@ interface GeminiChunkResponse {
   keywords: string[];
 }
 
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// Wrapper de Retry com detecção de Cota
-async function retryOperation<T>(operation: () => Promise<T>, maxRetries: number = 3, initialDelay: number = 2000): Promise<T> {
-  if (globalQuotaExceeded) throw new Error("Circuit Breaker Open: Quota Exceeded");
-
-  let lastError: any;
-  
-  for (let i = 0; i < maxRetries; i++) {
-    try {
-      return await operation();
-    } catch (error: any) {
-      lastError = error;
-      
-      const isRateLimit = error.message?.includes('429') || error.status === 429 || error.code === 429 || error.message?.includes('Quota exceeded') || error.message?.includes('Resource has been exhausted');
-      const isServerOverload = error.message?.includes('503') || error.status === 503;
-      
-      if (isRateLimit) {
-        console.warn(`[Gemini API] Cota atingida (Tentativa ${i + 1}/${maxRetries}).`);
-        if (i === maxRetries - 1) {
-            // Se falhou na última tentativa por cota, ativa o Circuit Breaker
-            console.error("[Gemini API] COTA EXCEDIDA CRITICAMENTE. ATIVANDO MODO HEURÍSTICO GLOBAL.");
-            globalQuotaExceeded = true;
-        } else {
-            // Backoff agressivo para rate limit
-            const waitTime = initialDelay * Math.pow(3, i) + (Math.random() * 2000);
-            await delay(waitTime);
-            continue;
-        }
-      } else if (isServerOverload) {
-        const waitTime = initialDelay * Math.pow(2, i);
-        await delay(waitTime);
-        continue;
-      }
-      
-      throw error; 
-    }
-  }
-  throw lastError;
-}
-
 // --- HEURISTIC FALLBACK (Regex) ---
 const heuristicEnrichment = (chunk: DocumentChunk): DocumentChunk => {
     const cleanContent = chunk.content.trim();
@@ -93,76 +48,122 @@ const heuristicEnrichment = (chunk: DocumentChunk): DocumentChunk => {
     };
 };
 
+// Versões dos prompts no cache: incrementar ao alterar o prompt invalida as respostas antigas
+const ENRICHMENT_PROMPT_VERSION = 1;
+const HYDE_PROMPT_VERSION = 1;
+const RELEVANCE_PROMPT_VERSION = 1;
+
+const RELEVANCE_SCHEMA: LLMJsonSchema = {
+    type: 'object',
+    properties: { score: { type: 'number' }, relevant: { type: 'boolean' } },
+    required: ['score', 'relevant']
+};
+
+const CHUNK_ANALYSIS_SCHEMA: LLMJsonSchema = {
+    type: 'object',
+    properties: {
+        cleaned_text: { type: 'string' },
+        entity_type: { type: 'string' },
+        entity_label: { type: 'string' },
+        keywords: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['entity_type', 'entity_label', 'keywords']
+};
+
 export const generateHyDEAnswer = async (query: string): Promise<string> => {
-    if (globalQuotaExceeded) return query; // Fail fast
+    const llm = getActiveLLMProvider();
+    const cached = await getCached<string>('hyde', modelCacheKey(llm), HYDE_PROMPT_VERSION, query);
+    if (cached !== undefined) return cached;
+    if (!llm.isAvailable()) return query; // Fail fast
     try {
-        const response = await retryOperation(async () => {
-            return await ai.models.generateContent({
-                model: modelName,
-                contents: `Atue como um jurista. Query: "${query}". Escreva um parágrafo de resposta ideal técnica.`,
-            });
-        });
-        return response.text || "";
+        const text = await llm.generateText(`Atue como um jurista. Query: "${query}". Escreva um parágrafo de resposta ideal técnica.`);
+        if (text) await putCached('hyde', modelCacheKey(llm), HYDE_PROMPT_VERSION, query, text);
+        return text || "";
     } catch (e) {
         return query; 
     }
 };
 
-export const evaluateChunkRelevance = async (query: string, chunkContent: string): Promise<{relevant: boolean, score: number, reasoning: string}> => {
-    if (globalQuotaExceeded) return { relevant: true, score: 0.5, reasoning: "Circuit Breaker Active" };
+// judged: score veio do modelo (resposta nova ou em cache); false = valor neutro de fallback
+export const evaluateChunkRelevance = async (query: string, chunkContent: string): Promise<{relevant: boolean, score: number, reasoning: string, judged: boolean}> => {
+    const llm = getActiveLLMProvider();
+    const prompt = `Query: "${query}"\nContext: "${chunkContent.substring(0, 500)}"\nIs relevant? JSON: { "score": 0.0-1.0, "relevant": bool }`;
+    const cached = await getCached<{ score?: number, relevant?: boolean }>('relevance', modelCacheKey(llm), RELEVANCE_PROMPT_VERSION, prompt);
+    if (!cached && !llm.isAvailable()) return { relevant: true, score: 0.5, reasoning: "Circuit Breaker Active", judged: false };
     try {
-        const response = await retryOperation(async () => {
-            return await ai.models.generateContent({
-                model: modelName,
-                contents: `Query: "${query}"\nContext: "${chunkContent.substring(0, 500)}"\nIs relevant? JSON: { "score": 0.0-1.0, "relevant": bool }`,
-                config: { responseMimeType: "application/json" }
-            });
-        });
-        const result = JSON.parse(response.text || "{}");
+        const result = cached || await llm.generateJSON<{ score?: number, relevant?: boolean }>(prompt, RELEVANCE_SCHEMA);
+        if (!cached) await putCached('relevance', modelCacheKey(llm), RELEVANCE_PROMPT_VERSION, prompt, result);
         return {
             relevant: result.relevant === true || (result.score || 0) > 0.6,
             score: result.score ?? 0,
-            reasoning: "AI Evaluation"
+            reasoning: `AI Evaluation (${llm.name})`,
+            judged: true
         };
     } catch (e) {
-        return { relevant: true, score: 0.5, reasoning: "Evaluation Failed" };
+        return { relevant: true, score: 0.5, reasoning: "Evaluation Failed", judged: false };
     }
 };
 
-export const generateSingleEmbedding = async (text: string): Promise<number[]> => {
-    if (globalQuotaExceeded) return new Array(768).fill(0);
-    try {
-        const result = await retryOperation(async () => {
-            return await ai.models.embedContent({
-                model: embeddingModelName,
-                contents: text.substring(0, 2048),
-            });
-        });
-        return result.embedding?.values || [];
-    } catch (e) {
-        return new Array(768).fill(0);
-    }
+export interface RAGStreamOptions {
+  onToken: (delta: string) => void;
+  signal?: AbortSignal;
+}
+
+const PASSAGE_PREVIEW_CHARS = 300;
+
+// Sem provedor de LLM configurado: devolve os trechos recuperados, citados com [n] como numa resposta gerada
+const passagesOnlyResponse = (passages: ContextPassage[]): string => {
+    const header = "Nenhum provedor de LLM configurado: não é possível gerar uma resposta. Selecione um provedor em “Provedores de IA”.";
+    if (passages.length === 0) return header;
+    const excerpts = passages.map((p, i) => {
+        const text = p.text.length > PASSAGE_PREVIEW_CHARS ? `${p.text.slice(0, PASSAGE_PREVIEW_CHARS).trimEnd()}...` : p.text;
+        return `[${i + 1}] ${p.label}: ${text}`;
+    });
+    return `${header}\n\nTrechos recuperados:\n${excerpts.join('\n\n')}`;
 };
 
-export const generateRAGResponse = async (query: string, context: string, chatHistory: any[]): Promise<string> => {
-    if (globalQuotaExceeded) return "O limite de requisições da IA foi excedido. Não é possível gerar uma nova resposta agora.";
+// Contexto numerado: a resposta cita cada afirmação com [n] (ver citationService.extractCitations)
+// unsupportedClaims: afirmações reprovadas na verificação de fidelidade de uma tentativa anterior
+// stream: renderização incremental; cancelamento ou queda do stream preservam a resposta parcial
+export const generateRAGResponse = async (query: string, passages: ContextPassage[], chatHistory: any[], unsupportedClaims: string[] = [], stream?: RAGStreamOptions): Promise<string> => {
+    const llm = getActiveLLMProvider();
+    if (llm.id === 'none') return passagesOnlyResponse(passages);
+    if (!llm.isAvailable()) return "O limite de requisições da IA foi excedido. Não é possível gerar uma nova resposta agora.";
+    const historyText = formatHistoryForPrompt(chatHistory);
+    const feedback = unsupportedClaims.length > 0
+      ? `\nUma resposta anterior continha afirmações sem suporte no contexto; não as repita:\n${unsupportedClaims.map(c => `- ${c}`).join('\n')}\n`
+      : '';
+    const prompt =
+        `CONTEXTO (trechos numerados):\n${formatPassagesForPrompt(passages)}\n\nHISTÓRICO:\n${historyText}\n\nPERGUNTA: ${query}\n\n` +
+        `INSTRUÇÕES: responda apenas com base no contexto e cite o trecho que sustenta cada afirmação com o número entre colchetes, ex: [1] ou [2, 3]. ` +
+        `Não cite números que não estão no contexto.\n${feedback}\nRESPOSTA:`;
+
+    let partial = "";
     try {
-        const historyText = chatHistory.slice(-4).map(m => `${m.role}: ${m.content}`).join('\n');
-        const response = await retryOperation(async () => {
-            return await ai.models.generateContent({
-                model: modelName,
-                contents: `CONTEXTO:\n${context}\n\nHISTÓRICO:\n${historyText}\n\nPERGUNTA: ${query}\n\nRESPOSTA:`
-            });
-        });
-        return response.text || "Erro na geração.";
+        const text = stream
+          ? await llm.streamText(prompt, delta => { partial += delta; stream.onToken(delta); }, { signal: stream.signal })
+          : await llm.generateText(prompt);
+        return text || "Erro na geração.";
     } catch (e) {
-        return "Erro de geração.";
+        if (stream?.signal?.aborted) return partial ? `${partial.trimEnd()}\n\n[Geração interrompida pelo usuário]` : "Geração interrompida pelo usuário.";
+        return partial ? `${partial.trimEnd()}\n\n[Conexão interrompida: resposta parcial]` : "Erro de geração.";
     }
 };
 
+const applyChunkAnalysis = (chunk: DocumentChunk, result: GeminiChunkResponse): DocumentChunk => ({
+  ...chunk,
+  content: result.cleaned_text || chunk.content,
+  entityType: result.entity_type || "Texto",
+  entityLabel: result.entity_label || "Auto",
+  keywords: result.keywords || []
+});
+
+// O cache é consultado em lote por enhanceChunksWithAI; aqui só se grava a resposta do modelo
 export const analyzeChunkWithGemini = async (chunk: DocumentChunk): Promise<DocumentChunk> => {
+  const llm = getActiveLLMProvider();
+
   // CIRCUIT BREAKER CHECK
-  if (globalQuotaExceeded) {
+  if (!llm.isAvailable()) {
       return heuristicEnrichment(chunk);
   }
 
@@ -176,27 +177,9 @@ export const analyzeChunkWithGemini = async (chunk: DocumentChunk): Promise<Docu
       OUTPUT JSON: { "cleaned_text": "string", "entity_type": "string", "entity_label": "string", "keywords": ["k1"] }
     `;
 
-    const response = await retryOperation(async () => {
-      return await ai.models.generateContent({
-        model: modelName,
-        contents: prompt,
-        config: {
-          temperature: 0.1,
-          responseMimeType: "application/json"
-        }
-      });
-    }, 2, 2000); // Mais delay inicial
-
-    const text = response.text || "{}";
-    const result = JSON.parse(text) as GeminiChunkResponse;
-
-    return {
-      ...chunk,
-      content: result.cleaned_text || chunk.content,
-      entityType: result.entity_type || "Texto",
-      entityLabel: result.entity_label || "Auto",
-      keywords: result.keywords || []
-    };
+    const result = await llm.generateJSON<GeminiChunkResponse>(prompt, CHUNK_ANALYSIS_SCHEMA, { temperature: 0.1 });
+    await putCached('enrichment', modelCacheKey(llm), ENRICHMENT_PROMPT_VERSION, safeContent, result);
+    return applyChunkAnalysis(chunk, result);
 
   } catch (error) {
     // Se falhar (incluindo Circuit Breaker ativando agora), usa Heurística
@@ -209,106 +192,41 @@ export const enhanceChunksWithAI = async (chunks: DocumentChunk[], onProgress: (
   // Better to reset and try again, but maybe flag sticks for session.
   // globalQuotaExceeded = false; // Uncomment to force retry on new button click
   
-  const enhancedChunks: DocumentChunk[] = [];
+  // Conteúdo já enriquecido pelo mesmo modelo/prompt sai do cache, sem chamada e sem delay de cota
+  const llm = getActiveLLMProvider();
+  const enhancedChunks: Array<DocumentChunk | null> = await Promise.all(chunks.map(async c => {
+      if (!c.content || c.content.length < 5) return null;
+      const cached = await getCached<GeminiChunkResponse>('enrichment', modelCacheKey(llm), ENRICHMENT_PROMPT_VERSION, c.content.slice(0, 1000));
+      return cached ? applyChunkAnalysis(c, cached) : null;
+  }));
+  const pending = chunks.map((c, index) => ({ c, index })).filter(({ index }) => !enhancedChunks[index]);
+  onProgress(Math.round(((chunks.length - pending.length) / chunks.length) * 100));
+
   // Reduzir batch size para evitar 429 agressivo
   const batchSize = 2; 
   
-  for (let i = 0; i < chunks.length; i += batchSize) {
-    const batch = chunks.slice(i, i + batchSize);
+  for (let i = 0; i < pending.length; i += batchSize) {
+    const batch = pending.slice(i, i + batchSize);
+    const progress = Math.round(((chunks.length - pending.length + i + batch.length) / chunks.length) * 100);
     
     // Se o Circuit Breaker abriu, processa o resto síncronamente (rápido)
-    if (globalQuotaExceeded) {
-        const results = batch.map(c => heuristicEnrichment(c));
-        enhancedChunks.push(...results);
-        onProgress(Math.round(((i + batch.length) / chunks.length) * 100));
+    if (!getActiveLLMProvider().isAvailable()) {
+        batch.forEach(({ c, index }) => { enhancedChunks[index] = heuristicEnrichment(c); });
+        onProgress(progress);
         await delay(5); // Pequeno respiro para UI
         continue;
     }
 
-    const results = await Promise.all(batch.map(async (c, idx) => {
+    const results = await Promise.all(batch.map(async ({ c }, idx) => {
         await delay(idx * 500); // Maior stagger entre requests do mesmo batch
         return analyzeChunkWithGemini(c);
     }));
     
-    enhancedChunks.push(...results);
-    const progress = Math.round(((i + batch.length) / chunks.length) * 100);
+    batch.forEach(({ index }, idx) => { enhancedChunks[index] = results[idx]; });
     onProgress(progress);
     
     // Delay entre batches
     await delay(1000);
   }
-  return enhancedChunks;
-};
-
-export const generateRealEmbeddingsWithGemini = async (chunks: DocumentChunk[], onProgress: (progress: number) => void): Promise<EmbeddingVector[]> => {
-  const embeddings: EmbeddingVector[] = [];
-  const batchSize = 3; 
-  
-  for (let i = 0; i < chunks.length; i += batchSize) {
-    const batch = chunks.slice(i, i + batchSize);
-    
-    // Fallback rápido se cota estourou
-    if (globalQuotaExceeded) {
-         const results = batch.map(chunk => ({
-                id: chunk.id,
-                vector: new Array(768).fill(0).map(() => Math.random() * 0.1), // Noise vector
-                contentSummary: chunk.content.substring(0, 50) + '...',
-                fullContent: chunk.content,
-                dueDate: chunk.dueDate,
-                entityType: chunk.entityType,
-                entityLabel: chunk.entityLabel,
-                keywords: chunk.keywords,
-                modelUsed: 'Heuristic/Offline'
-         }));
-         embeddings.push(...results);
-         onProgress(Math.round(((i + batch.length) / chunks.length) * 100));
-         await delay(5);
-         continue;
-    }
-
-    const batchResults = await Promise.all(batch.map(async (chunk, idx) => {
-        await delay(idx * 300); 
-
-        try {
-            const richContent = `Type: ${chunk.entityType}\nLabel: ${chunk.entityLabel}\nContent: ${chunk.content}`;
-            
-            const result = await retryOperation(async () => {
-                return await ai.models.embedContent({
-                    model: embeddingModelName,
-                    contents: richContent, 
-                });
-            }, 2, 2000);
-            
-            return {
-                id: chunk.id,
-                vector: result.embedding?.values || [],
-                contentSummary: chunk.content.substring(0, 50) + '...',
-                fullContent: chunk.content,
-                dueDate: chunk.dueDate,
-                entityType: chunk.entityType,
-                entityLabel: chunk.entityLabel,
-                keywords: chunk.keywords,
-                modelUsed: `Gemini ${embeddingModelName}`
-            };
-        } catch (e: any) {
-            // Em caso de erro individual ou CB ativando no meio do batch
-            return {
-                id: chunk.id,
-                vector: new Array(768).fill(0), 
-                contentSummary: chunk.content.substring(0, 50) + '...',
-                fullContent: chunk.content,
-                dueDate: chunk.dueDate,
-                entityType: chunk.entityType,
-                entityLabel: chunk.entityLabel,
-                keywords: chunk.keywords,
-                modelUsed: 'ERROR'
-            };
-        }
-    }));
-    embeddings.push(...batchResults);
-    const progress = Math.round(((i + batch.length) / chunks.length) * 100);
-    onProgress(progress);
-    await delay(500);
-  }
-  return embeddings;
+  return enhancedChunks as DocumentChunk[];
 };
@@ -0,0 +1,158 @@
+import { CommunityReport, GlobalSearchPoint, ChatMessage, LLMJsonSchema } from '../types';
+import { delay } from './geminiClient';
+import { getActiveLLMProvider } from './llmService';
+import { normalizePortugueseTerm } from './entityResolutionService';
+import { formatHistoryForPrompt } from './conversationService';
+
+// Busca global (GraphRAG map-reduce): a pergunta é respondida parcialmente sobre lotes de relatórios de
+// comunidade (MAP), os pontos recebem nota de utilidade e os melhores são sintetizados na resposta (REDUCE).
+
+const MAP_BATCH_BUDGET = 8000;  // Caracteres de relatórios por chamada MAP
+const REDUCE_BUDGET = 6000;     // Caracteres de pontos enviados ao REDUCE
+const MIN_POINT_SCORE = 1;      // Pontos com nota 0 ("não sei") são descartados
+
+interface LLMMapResponse {
+  points: Array<{ description: string; score: number; report_ids?: string[] }>;
+}
+
+const MAP_SCHEMA: LLMJsonSchema = {
+    type: 'object',
+    properties: {
+        points: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    description: { type: 'string' },
+                    score: { type: 'number' },
+                    report_ids: { type: 'array', items: { type: 'string' } }
+                },
+                required: ['description', 'score']
+            }
+        }
+    },
+    required: ['points']
+};
+
+const formatReport = (report: CommunityReport): string =>
+  `[${report.id}] ${report.title} (nota ${report.rating.toFixed(1)})\n${report.summary}\n${report.findings.map(f => `- ${f.summary}: ${f.explanation}`).join('\n')}`;
+
+// Lotes por orçamento de caracteres, relatórios mais importantes primeiro
+const batchReports = (reports: CommunityReport[]): CommunityReport[][] => {
+  const batches: CommunityReport[][] = [];
+  let current: CommunityReport[] = [];
+  let used = 0;
+  [...reports].sort((a, b) => b.rating - a.rating).forEach(report => {
+      const size = formatReport(report).length;
+      if (current.length > 0 && used + size > MAP_BATCH_BUDGET) {
+          batches.push(current);
+          current = [];
+          used = 0;
+      }
+      current.push(report);
+      used += size;
+  });
+  if (current.length > 0) batches.push(current);
+  return batches;
+};
+
+// --- HEURISTIC FALLBACK ---
+const queryTerms = (query: string): Set<string> =>
+  new Set(normalizePortugueseTerm(query).split(' ').filter(t => t.length > 2));
+
+// Sobreposição de termos entre a pergunta e cada achado; perguntas genéricas pontuam pela nota do relatório
+const heuristicMap = (query: string, batch: CommunityReport[]): GlobalSearchPoint[] => {
+  const terms = queryTerms(query);
+  return batch.flatMap(report => {
+      const findings = report.findings.length > 0 ? report.findings : [{ summary: report.title, explanation: report.summary }];
+      return findings.map(f => {
+          const text = normalizePortugueseTerm(`${report.title} ${f.summary} ${f.explanation}`);
+          const overlap = terms.size === 0 ? 0 : Array.from(terms).filter(t => text.includes(t)).length / terms.size;
+          return {
+              description: `${f.summary}: ${f.explanation}`,
+              score: Math.round(overlap * 70 + report.rating * 3),
+              reportIds: [report.id]
+          };
+      });
+  });
+};
+
+const mapBatch = async (query: string, batch: CommunityReport[]): Promise<GlobalSearchPoint[]> => {
+  const llm = getActiveLLMProvider();
+
+  // CIRCUIT BREAKER CHECK
+  if (!llm.isAvailable()) return heuristicMap(query, batch);
+
+  try {
+    const prompt = `
+      Você responde perguntas sobre um corpus jurídico usando APENAS os relatórios de comunidade abaixo.
+      PERGUNTA: "${query}"
+      RELATÓRIOS:
+      ${batch.map(formatReport).join('\n\n')}
+
+      TASK: liste os pontos que ajudam a responder a pergunta. Para cada ponto: description (afirmação completa),
+      score (0-100, utilidade para a pergunta; 0 se os relatórios não ajudam) e report_ids (IDs entre colchetes que o sustentam).
+    `;
+    const result = await llm.generateJSON<LLMMapResponse>(prompt, MAP_SCHEMA, { temperature: 0.1 });
+    const validIds = new Set(batch.map(r => r.id));
+    return (result.points || [])
+      .filter(p => p && p.description)
+      .map(p => ({
+          description: p.description,
+          score: Math.min(100, Math.max(0, Number(p.score) || 0)),
+          reportIds: (p.report_ids || []).filter(id => validIds.has(id))
+      }));
+  } catch (error) {
+    return heuristicMap(query, batch);
+  }
+};
+
+export const mapCommunityReports = async (
+  query: string,
+  reports: CommunityReport[],
+  onProgress: (progress: number) => void = () => {}
+): Promise<GlobalSearchPoint[]> => {
+  const batches = batchReports(reports);
+  const points: GlobalSearchPoint[] = [];
+  for (let i = 0; i < batches.length; i++) {
+      points.push(...await mapBatch(query, batches[i]));
+      onProgress(Math.round(((i + 1) / batches.length) * 100));
+      if (i < batches.length - 1 && getActiveLLMProvider().isAvailable()) await delay(500);
+  }
+  return points.filter(p => p.score >= MIN_POINT_SCORE).sort((a, b) => b.score - a.score);
+};
+
+// Pontos ordenados por nota dentro do orçamento do REDUCE (também usados como contexto no modo híbrido)
+export const formatGlobalPoints = (points: GlobalSearchPoint[], budget: number = REDUCE_BUDGET): string => {
+  const lines: string[] = [];
+  let used = 0;
+  for (const point of points) {
+      const line = `(nota ${point.score}) ${point.description}${point.reportIds.length > 0 ? ` [${point.reportIds.join(', ')}]` : ''}`;
+      if (used + line.length > budget) break;
+      lines.push(line);
+      used += line.length;
+  }
+  return lines.join('\n');
+};
+
+export const reduceGlobalAnswer = async (query: string, points: GlobalSearchPoint[], chatHistory: ChatMessage[]): Promise<string> => {
+  if (points.length === 0) return "Os relatórios de comunidade não contêm informação suficiente para responder a esta pergunta.";
+
+  const context = formatGlobalPoints(points);
+  const llm = getActiveLLMProvider();
+  // Sem LLM: os melhores pontos do MAP já são a resposta extrativa
+  const fallback = `Principais pontos encontrados nos relatórios de comunidade:\n${points.slice(0, 8).map(p => `- ${p.description}`).join('\n')}`;
+  if (!llm.isAvailable()) return fallback;
+
+  try {
+    const historyText = formatHistoryForPrompt(chatHistory);
+    const text = await llm.generateText(
+      `Você sintetiza respostas sobre um corpus jurídico inteiro a partir de pontos de analistas, ordenados por importância.\n` +
+      `PONTOS:\n${context}\n\nHISTÓRICO:\n${historyText}\n\nPERGUNTA: ${query}\n\n` +
+      `Combine os pontos em uma resposta organizada, sem repetir informação e sem inventar fatos ausentes dos pontos.\n\nRESPOSTA:`
+    );
+    return text || fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
@@ -0,0 +1,152 @@
+import { GraphData, GraphLinkType, GraphExpansionParams, GraphExpansionResult, ExpandedContextNode } from '../types';
+
+// Expansão de contexto multi-hop: a partir dos chunks aprovados pelo CRAG (sementes), os nós são
+// ranqueados por PageRank personalizado ou por BFS ponderada (peso × confiança da aresta), filtrados
+// pelo tipo de aresta e adicionados ao contexto até o orçamento de tokens.
+
+export const ALL_LINK_TYPES: GraphLinkType[] = [
+  'semantico', 'co-ocorrencia', 'hierarquico', 'sequencial', 'menciona', 'cita', 'revoga', 'altera', 'define', 'obriga'
+];
+
+export const DEFAULT_GRAPH_EXPANSION_PARAMS: GraphExpansionParams = {
+  method: 'ppr',
+  maxHops: 2,
+  damping: 0.85,
+  edgeTypes: ALL_LINK_TYPES,
+  tokenBudget: 1500
+};
+
+const PPR_MAX_ITERATIONS = 50;
+const PPR_TOLERANCE = 1e-6;
+
+// Mesma convenção de DocumentChunk.tokens (palavras)
+export const estimateTokens = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+interface Edge {
+  to: number;
+  weight: number;
+  type: GraphLinkType;
+}
+
+// Arestas direcionadas são percorridas nos dois sentidos: o contexto de um artigo inclui o pai e os filhos
+const buildAdjacency = (graph: GraphData, edgeTypes: Set<GraphLinkType>, indexById: Map<string, number>): Edge[][] => {
+  const adj: Edge[][] = graph.nodes.map(() => []);
+  graph.links.forEach(link => {
+      if (!edgeTypes.has(link.type)) return;
+      const u = indexById.get(link.source);
+      const v = indexById.get(link.target);
+      const weight = link.value * link.confidence;
+      if (u === undefined || v === undefined || u === v || weight <= 0) return;
+      adj[u].push({ to: v, weight, type: link.type });
+      adj[v].push({ to: u, weight, type: link.type });
+  });
+  return adj;
+};
+
+interface BestPath {
+  strength: number;  // Produto das forças normalizadas das arestas
+  hops: number;
+  prev: number;      // -1 nas sementes
+  via: GraphLinkType | null;
+}
+
+// Caminho mais forte de alguma semente até cada nó, limitado a maxHops (relaxação em camadas)
+const strongestPaths = (adj: Edge[][], seeds: number[], maxHops: number): Map<number, BestPath> => {
+  const maxWeight = Math.max(1e-9, ...adj.flatMap(edges => edges.map(e => e.weight)));
+  const best = new Map<number, BestPath>();
+  seeds.forEach(s => best.set(s, { strength: 1, hops: 0, prev: -1, via: null }));
+
+  let frontier = seeds;
+  for (let hop = 1; hop <= maxHops && frontier.length > 0; hop++) {
+      const improved = new Set<number>();
+      frontier.forEach(u => {
+          const from = best.get(u)!;
+          adj[u].forEach(edge => {
+              const strength = from.strength * (edge.weight / maxWeight);
+              const current = best.get(edge.to);
+              if (!current || strength > current.strength + 1e-12) {
+                  best.set(edge.to, { strength, hops: hop, prev: u, via: edge.type });
+                  improved.add(edge.to);
+              }
+          });
+      });
+      frontier = Array.from(improved);
+  }
+  return best;
+};
+
+// PageRank personalizado: r = (1 - d)·s + d·Pᵀr, com P normalizada por linha pelos pesos
+const personalizedPageRank = (adj: Edge[][], seeds: number[], damping: number): number[] => {
+  const n = adj.length;
+  const restart = new Array<number>(n).fill(0);
+  seeds.forEach(s => { restart[s] = 1 / seeds.length; });
+  const outWeight = adj.map(edges => edges.reduce((acc, e) => acc + e.weight, 0));
+
+  let rank = [...restart];
+  for (let iter = 0; iter < PPR_MAX_ITERATIONS; iter++) {
+      const next = restart.map(r => (1 - damping) * r);
+      let dangling = 0;
+      rank.forEach((r, u) => {
+          if (outWeight[u] === 0) {
+              dangling += r;
+              return;
+          }
+          adj[u].forEach(edge => { next[edge.to] += damping * r * edge.weight / outWeight[u]; });
+      });
+      // Massa de nós sem arestas volta às sementes
+      seeds.forEach(s => { next[s] += damping * dangling / seeds.length; });
+
+      const delta = next.reduce((acc, v, i) => acc + Math.abs(v - rank[i]), 0);
+      rank = next;
+      if (delta < PPR_TOLERANCE) break;
+  }
+  return rank;
+};
+
+export const expandFromSeeds = (
+  graph: GraphData,
+  seedIds: string[],
+  params: GraphExpansionParams = DEFAULT_GRAPH_EXPANSION_PARAMS
+): GraphExpansionResult => {
+  const indexById = new Map(graph.nodes.map((node, idx) => [node.id, idx]));
+  const seeds = Array.from(new Set(seedIds.map(id => indexById.get(id)).filter((idx): idx is number => idx !== undefined)));
+  if (seeds.length === 0 || params.maxHops < 1) return { nodes: [], candidates: 0, usedTokens: 0 };
+
+  const adj = buildAdjacency(graph, new Set(params.edgeTypes), indexById);
+  const paths = strongestPaths(adj, seeds, params.maxHops);
+  const ppr = params.method === 'ppr' ? personalizedPageRank(adj, seeds, params.damping) : null;
+
+  const pathOf = (idx: number) => {
+      const labels: string[] = [];
+      const types: GraphLinkType[] = [];
+      for (let cur = idx; cur !== -1; cur = paths.get(cur)!.prev) {
+          labels.unshift(graph.nodes[cur].label);
+          const via = paths.get(cur)!.via;
+          if (via) types.unshift(via);
+      }
+      return { labels, types };
+  };
+
+  // Entidades servem de ponte na caminhada, mas apenas trechos de texto entram no contexto
+  const candidates = Array.from(paths.entries())
+    .filter(([idx, path]) => path.hops > 0 && graph.nodes[idx].kind !== 'entity')
+    .map(([idx, path]) => ({ idx, path, score: ppr ? ppr[idx] : path.strength }))
+    .sort((a, b) => b.score - a.score);
+
+  const nodes: ExpandedContextNode[] = [];
+  let usedTokens = 0;
+  candidates.forEach(({ idx, path, score }) => {
+      const node = graph.nodes[idx];
+      const tokens = estimateTokens(node.fullContent);
+      if (usedTokens + tokens > params.tokenBudget) return; // Um trecho menor ainda pode caber
+      const { labels, types } = pathOf(idx);
+      nodes.push({ nodeId: node.id, label: node.label, score, hops: path.hops, path: labels, pathTypes: types, tokens });
+      usedTokens += tokens;
+  });
+
+  return { nodes, candidates: candidates.length, usedTokens };
+};
+
+// "Art. 5 -semantico-> Lei nº 8.666/1993 -menciona-> Art. 12"
+export const formatExpansionPath = (node: ExpandedContextNode): string =>
+  node.path.reduce((acc, label, i) => (i === 0 ? label : `${acc} -${node.pathTypes[i - 1]}-> ${label}`), '');
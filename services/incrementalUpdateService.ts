@@ -0,0 +1,395 @@
+import { AliasTable, ClusterPoint, CorpusChangeSummary, DocumentChunk, EmbeddingModelInfo, EmbeddingProvider, EmbeddingVector, GraphData, GraphLink, GraphNode, KnowledgeExtraction, SimilarityEdgeParams } from '../types';
+import { hashContent } from './cacheService';
+import { enhanceChunksWithAI } from './geminiService';
+import { generateEmbeddings } from './embeddingService';
+import { cosineSimilarity } from './cnnRefinementService';
+import { computeGraphMetrics } from './mockDataService';
+import { computeModularity } from './communityDetectionService';
+import { extractKnowledgeFromChunks, mergeKnowledgeIntoGraph } from './knowledgeGraphService';
+import { resolveTerm } from './entityResolutionService';
+
+// Ingestão incremental: documentos novos/alterados/removidos são detectados por hash e apenas o delta é
+// enriquecido e vetorizado. Os novos chunks entram no grafo existente por kNN e herdam a comunidade dos
+// vizinhos (propagação local); detecção de comunidades e relatórios completos ficam para quando o usuário pedir.
+
+export interface RawDocument {
+  filename: string;
+  text: string;
+}
+
+export interface CorpusState {
+  rawDocs: RawDocument[];
+  chunks: DocumentChunk[];
+  embeddings: EmbeddingVector[];
+  clusters: ClusterPoint[];
+  graphData: GraphData | null;
+}
+
+export interface CorpusUpdateOptions {
+  removeMissing: boolean;   // Documentos ausentes da nova seleção saem do corpus
+  enrich: boolean;          // O corpus atual foi enriquecido por LLM
+  refined: boolean;         // Vetores atuais passaram pelo refinamento da CNN
+  embeddingProvider: EmbeddingProvider;
+  corpusModel: EmbeddingModelInfo | null; // Modelo que gerou os vetores atuais
+  similarityParams: SimilarityEdgeParams;
+  aliasTable: AliasTable | null;
+  chunkDocuments: (docs: RawDocument[], onWarning?: (message: string) => void) => Promise<DocumentChunk[]>;
+  onStatus: (status: string) => void;
+}
+
+const PROPAGATION_PASSES = 3;
+
+// --- DIFF POR HASH ---
+
+export const diffCorpus = async (current: RawDocument[], incoming: RawDocument[], removeMissing: boolean) => {
+  const currentHashes = new Map<string, string>();
+  for (const doc of current) currentHashes.set(doc.filename, await hashContent(doc.text));
+
+  const added: RawDocument[] = [];
+  const changed: RawDocument[] = [];
+  const unchanged: string[] = [];
+  for (const doc of incoming) {
+      const previous = currentHashes.get(doc.filename);
+      if (previous === undefined) added.push(doc);
+      else if (previous !== await hashContent(doc.text)) changed.push(doc);
+      else unchanged.push(doc.filename);
+  }
+  const incomingNames = new Set(incoming.map(d => d.filename));
+  const removed = removeMissing ? current.filter(d => !incomingNames.has(d.filename)).map(d => d.filename) : [];
+  return { added, changed, removed, unchanged };
+};
+
+// --- CLUSTERS ---
+
+// Novo ponto vai para o cluster de centroide mais próximo e é posicionado junto aos pontos dele
+const assignToClusters = (clusters: ClusterPoint[], embeddings: EmbeddingVector[], fresh: EmbeddingVector[]): ClusterPoint[] => {
+  const vectorById = new Map(embeddings.map(e => [e.id, e.vector]));
+  const byCluster = new Map<number, { sum: number[]; count: number; x: number; y: number }>();
+  clusters.forEach(point => {
+      const vector = vectorById.get(point.id);
+      if (!vector) return;
+      const entry = byCluster.get(point.clusterId) || { sum: new Array(vector.length).fill(0), count: 0, x: 0, y: 0 };
+      vector.forEach((v, i) => { entry.sum[i] += v; });
+      entry.count++;
+      entry.x += point.x;
+      entry.y += point.y;
+      byCluster.set(point.clusterId, entry);
+  });
+  const centroids = Array.from(byCluster, ([clusterId, e]) => ({ clusterId, vector: e.sum.map(v => v / e.count), x: e.x / e.count, y: e.y / e.count }));
+
+  return fresh.map((emb, i) => {
+      let best = centroids[0];
+      let bestScore = -Infinity;
+      centroids.forEach(c => {
+          const score = cosineSimilarity(emb.vector, c.vector);
+          if (score > bestScore) { best = c; bestScore = score; }
+      });
+      return {
+          id: emb.id,
+          clusterId: best ? best.clusterId : 0,
+          x: (best ? best.x : 50) + (Math.random() * 10 - 5),
+          y: (best ? best.y : 50) + (Math.random() * 10 - 5),
+          label: emb.entityLabel || `Chunk ${clusters.length + i}`,
+          fullContent: emb.fullContent,
+          dueDate: emb.dueDate,
+          entityType: emb.entityType,
+          entityLabel: emb.entityLabel,
+          keywords: emb.keywords
+      };
+  });
+};
+
+// --- GRAFO ---
+
+const linkKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+// Remove menções/relações de chunks excluídos e funde a extração do delta (ids de entidade são canônicos)
+const mergeKnowledge = (previous: KnowledgeExtraction, removedChunkIds: Set<string>, delta: KnowledgeExtraction | null): KnowledgeExtraction => {
+  const entities = new Map(previous.entities.map(e => [e.id, { ...e, mentions: e.mentions.filter(id => !removedChunkIds.has(id)) }]));
+  const relations = new Map(previous.relations.filter(r => !removedChunkIds.has(r.chunkId)).map(r => [`${r.source}|${r.target}|${r.type}`, r]));
+  delta?.entities.forEach(e => {
+      const existing = entities.get(e.id);
+      if (existing) existing.mentions = Array.from(new Set([...existing.mentions, ...e.mentions]));
+      else entities.set(e.id, e);
+  });
+  delta?.relations.forEach(r => {
+      const key = `${r.source}|${r.target}|${r.type}`;
+      const existing = relations.get(key);
+      if (!existing || r.confidence > existing.confidence) relations.set(key, r);
+  });
+  return {
+      entities: Array.from(entities.values()).filter(e => e.mentions.length > 0),
+      relations: Array.from(relations.values()),
+      llmChunks: previous.llmChunks + (delta?.llmChunks || 0),
+      heuristicChunks: previous.heuristicChunks + (delta?.heuristicChunks || 0)
+  };
+};
+
+// Propagação de rótulos restrita aos nós novos: cada um parte de um rótulo próprio e adota, por nível hierárquico,
+// a comunidade de maior peso entre os vizinhos. Documentos sem ligação forte com o grafo formam comunidades novas
+const propagateCommunities = (nodes: GraphNode[], links: GraphLink[], newIds: Set<string>, levelCount: number): GraphNode[] => {
+  const adjacency = new Map<string, Array<{ id: string; weight: number }>>();
+  links.forEach(l => {
+      if (!adjacency.has(l.source)) adjacency.set(l.source, []);
+      if (!adjacency.has(l.target)) adjacency.set(l.target, []);
+      adjacency.get(l.source)!.push({ id: l.target, weight: l.value });
+      adjacency.get(l.target)!.push({ id: l.source, weight: l.value });
+  });
+  const levelsCount = Math.max(1, levelCount);
+  const labels = new Map<string, number[]>();
+  nodes.forEach(n => {
+      if (!newIds.has(n.id)) labels.set(n.id, levelCount > 0 ? (n.communityLevels || [n.group]) : [n.group]);
+  });
+  const firstFresh = Array.from({ length: levelsCount }, (_, level) =>
+      Math.max(-1, ...Array.from(labels.values()).map(l => l[level] ?? -1)) + 1);
+  const freshNodes = nodes.filter(n => newIds.has(n.id));
+  freshNodes.forEach((n, i) => labels.set(n.id, firstFresh.map(id => id + i)));
+
+  for (let pass = 0; pass < PROPAGATION_PASSES; pass++) {
+      freshNodes.forEach(n => {
+          const neighbours = adjacency.get(n.id) || [];
+          if (neighbours.length === 0) return;
+          const current = labels.get(n.id)!;
+          labels.set(n.id, current.map((own, level) => {
+              const votes = new Map<number, number>();
+              neighbours.forEach(nb => {
+                  const label = labels.get(nb.id)?.[level];
+                  if (label !== undefined) votes.set(label, (votes.get(label) || 0) + nb.weight);
+              });
+              const [best, weight] = Array.from(votes).sort((a, b) => b[1] - a[1])[0];
+              return (votes.get(own) || 0) >= weight ? own : best;
+          }));
+      });
+  }
+
+  // Rótulos novos que sobreviveram viram ids consecutivos após os existentes
+  const compacted = firstFresh.map(() => new Map<number, number>());
+  return nodes.map(n => {
+      if (!newIds.has(n.id)) return n;
+      const assigned = labels.get(n.id)!.map((label, level) => {
+          if (label < firstFresh[level]) return label;
+          if (!compacted[level].has(label)) compacted[level].set(label, firstFresh[level] + compacted[level].size);
+          return compacted[level].get(label)!;
+      });
+      return {
+          ...n,
+          group: assigned[assigned.length - 1],
+          ...(levelCount > 0 ? { communityLevels: assigned } : {})
+      };
+  });
+};
+
+const attachToGraph = (
+  graph: GraphData,
+  removedChunkIds: Set<string>,
+  freshChunks: DocumentChunk[],
+  freshClusters: ClusterPoint[],
+  allEmbeddings: EmbeddingVector[],
+  params: SimilarityEdgeParams,
+  aliasTable: AliasTable | null
+): { nodes: GraphNode[]; links: GraphLink[] } => {
+  const nodes = graph.nodes.filter(n => !removedChunkIds.has(n.id));
+  const keptIds = new Set(nodes.map(n => n.id));
+  const links = graph.links.filter(l => keptIds.has(l.source) && keptIds.has(l.target));
+  const linked = new Set(links.map(l => linkKey(l.source, l.target)));
+  const clusterById = new Map(freshClusters.map(c => [c.id, c.clusterId]));
+
+  const freshNodes: GraphNode[] = freshChunks.map(c => ({
+      id: c.id,
+      label: c.entityLabel || c.id,
+      group: clusterById.get(c.id) === -1 ? 99 : clusterById.get(c.id) ?? 0,
+      fullContent: c.content,
+      centrality: 0,
+      dueDate: c.dueDate,
+      entityType: c.entityType,
+      keywords: c.keywords ? Array.from(new Set(c.keywords.map(k => resolveTerm(aliasTable, k)))) : c.keywords,
+      source: c.source,
+      parentId: c.parentId,
+      kmeansClusterId: clusterById.get(c.id)
+  }));
+  const nodeIds = new Set([...keptIds, ...freshNodes.map(n => n.id)]);
+
+  const addLink = (link: GraphLink) => {
+      const key = linkKey(link.source, link.target);
+      if (link.source === link.target || linked.has(key) || !nodeIds.has(link.source) || !nodeIds.has(link.target)) return;
+      linked.add(key);
+      links.push(link);
+  };
+
+  // Estrutura do documento: hierarquia e sequência de leitura dos chunks novos
+  freshChunks.forEach(c => {
+      if (c.parentId) addLink({ source: c.parentId, target: c.id, value: 0.9, confidence: 1, type: 'hierarquico', directed: true });
+  });
+  freshChunks.forEach((c, i) => {
+      const next = freshChunks[i + 1];
+      if (next && next.source === c.source) addLink({ source: c.id, target: next.id, value: 0.6, confidence: 0.9, type: 'sequencial', directed: true });
+  });
+
+  // kNN attach: vizinhos de cada chunk novo entre todos os chunks do grafo (reciprocidade não é exigida)
+  const vectorById = new Map(allEmbeddings.map(e => [e.id, e.vector]));
+  const chunkIds = [...nodes.filter(n => n.kind !== 'entity').map(n => n.id), ...freshNodes.map(n => n.id)];
+  freshNodes.forEach(node => {
+      const vector = vectorById.get(node.id);
+      if (!vector) return;
+      const candidates = chunkIds
+        .filter(id => id !== node.id && vectorById.has(id))
+        .map(id => ({ id, score: cosineSimilarity(vector, vectorById.get(id)!) }))
+        .filter(c => c.score >= params.threshold)
+        .sort((a, b) => b.score - a.score);
+      (params.k > 0 ? candidates.slice(0, params.k) : candidates)
+        .forEach(c => addLink({ source: node.id, target: c.id, value: c.score * 0.8, confidence: c.score, type: 'semantico' }));
+  });
+
+  return { nodes: [...nodes, ...freshNodes], links };
+};
+
+// Reconstrói a hierarquia de comunidades (alinhada à ordem dos nós), métricas e relatórios afetados
+const finalizeGraph = (previous: GraphData, nodes: GraphNode[], links: GraphLink[], knowledge: KnowledgeExtraction | undefined): GraphData => {
+  const levelCount = previous.communities?.levels.length || 0;
+  const levels = Array.from({ length: levelCount }, (_, level) => nodes.map(n => n.communityLevels?.[level] ?? n.group));
+  const communities = previous.communities && {
+      ...previous.communities,
+      levels,
+      modularityByLevel: levels.map(level => computeModularity(nodes, links, level))
+  };
+  const baseMetrics = computeGraphMetrics(nodes, links);
+  const metrics = {
+      ...baseMetrics,
+      communityCount: new Set(nodes.map(n => n.group)).size,
+      communityAlgorithm: previous.metrics?.communityAlgorithm,
+      modularityByLevel: communities?.modularityByLevel
+  };
+
+  // Relatórios mantêm o texto; a lista de membros acompanha a comunidade atual de cada nó
+  const communityReports = previous.communityReports?.map(report => ({
+      ...report,
+      nodeIds: nodes.filter((n, i) => (levels[report.level]?.[i] ?? n.group) === report.communityId).map(n => n.id)
+  }));
+  return { ...previous, nodes, links, metrics, communities, communityReports, knowledge };
+};
+
+// --- ATUALIZAÇÃO ---
+
+export const applyCorpusUpdate = async (
+  state: CorpusState,
+  incoming: RawDocument[],
+  options: CorpusUpdateOptions
+): Promise<{ state: CorpusState; summary: CorpusChangeSummary }> => {
+  const { added, changed, removed, unchanged } = await diffCorpus(state.rawDocs, incoming, options.removeMissing);
+  const warnings: string[] = [];
+  const replacedSources = new Set([...changed.map(d => d.filename), ...removed]);
+  const removedChunkIds = new Set(state.chunks.filter(c => replacedSources.has(c.source)).map(c => c.id));
+
+  // Vetores de outro modelo/dimensão não são comparáveis aos do índice: a atualização é recusada antes de gastar cota
+  const provider = options.embeddingProvider;
+  const corpusModel = options.corpusModel;
+  if (state.embeddings.length > 0 && corpusModel && (provider.id !== corpusModel.providerId || provider.model !== corpusModel.model)) {
+      throw new Error(`o corpus foi vetorizado com ${corpusModel.name} (${corpusModel.model}), mas o provedor atual é ${provider.name} (${provider.model}). Selecione o mesmo modelo ou gere todo o índice novamente.`);
+  }
+
+  // 1. Chunking e enriquecimento apenas do delta
+  const deltaDocs = [...added, ...changed];
+  options.onStatus(`Segmentando ${deltaDocs.length} documento(s) novo(s)/alterado(s)...`);
+  let freshChunks = deltaDocs.length > 0 ? await options.chunkDocuments(deltaDocs, message => warnings.push(message)) : [];
+  if (options.enrich && freshChunks.length > 0) {
+      freshChunks = await enhanceChunksWithAI(freshChunks, progress => options.onStatus(`Enriquecendo chunks novos... ${progress}%`));
+  }
+
+  // 2. Embeddings do delta (mesmo provedor dos vetores existentes)
+  let freshEmbeddings: EmbeddingVector[] = [];
+  if (state.embeddings.length > 0 && freshChunks.length > 0) {
+      freshEmbeddings = await generateEmbeddings(freshChunks, provider, progress => options.onStatus(`Vetorizando chunks novos... ${progress}%`));
+      const corpusDimensions = state.embeddings[0].vector.length;
+      const mismatched = freshEmbeddings.find(e => e.vector.length !== corpusDimensions);
+      if (mismatched) {
+          throw new Error(`vetores novos têm ${mismatched.vector.length} dimensões e os do corpus ${corpusDimensions}. Selecione o modelo que gerou o índice ou gere todo o índice novamente.`);
+      }
+      if (options.refined) warnings.push('Vetores novos não passaram pelo refinamento da CNN; retreine para alinhar o espaço vetorial.');
+  }
+  const embeddings = [...state.embeddings.filter(e => !removedChunkIds.has(e.id)), ...freshEmbeddings];
+
+  // 3. Clusters: atribuição ao centroide mais próximo
+  const keptClusters = state.clusters.filter(c => !removedChunkIds.has(c.id));
+  const freshClusters = keptClusters.length > 0 && freshEmbeddings.length > 0 ? assignToClusters(keptClusters, embeddings, freshEmbeddings) : [];
+  const clusters = state.clusters.length > 0 ? [...keptClusters, ...freshClusters] : state.clusters;
+
+  // 4. Grafo: remoção, kNN attach, entidades do delta e propagação local de comunidades
+  let graphData = state.graphData;
+  let nodesAdded = 0, nodesRemoved = 0, linksAdded = 0, linksRemoved = 0;
+  let affectedCommunities: number[] = [];
+  let staleReports = 0;
+  if (state.graphData) {
+      options.onStatus('Inserindo nós no grafo existente...');
+      const previous = state.graphData;
+      const attached = attachToGraph(previous, removedChunkIds, freshChunks, freshClusters, embeddings, options.similarityParams, options.aliasTable);
+      let nodes = attached.nodes;
+      let links = attached.links;
+      let knowledge = previous.knowledge;
+
+      if (previous.knowledge) {
+          const delta = freshChunks.length > 0
+            ? await extractKnowledgeFromChunks(freshChunks, progress => options.onStatus(`Extraindo entidades dos chunks novos... ${progress}%`), options.aliasTable)
+            : null;
+          knowledge = mergeKnowledge(previous.knowledge, removedChunkIds, delta);
+          // Camada de entidades é recomposta; entidades já existentes mantêm a comunidade
+          const previousById = new Map(previous.nodes.map(n => [n.id, n]));
+          const merged = mergeKnowledgeIntoGraph({ ...previous, nodes, links }, knowledge);
+          nodes = merged.nodes.map(n => {
+              const old = n.kind === 'entity' ? previousById.get(n.id) : undefined;
+              return old ? { ...n, group: old.group, communityLevels: old.communityLevels, kmeansClusterId: old.kmeansClusterId } : n;
+          });
+          links = merged.links;
+      }
+
+      const previousIds = new Set(previous.nodes.map(n => n.id));
+      const newIds = new Set(nodes.filter(n => !previousIds.has(n.id)).map(n => n.id));
+      nodes = propagateCommunities(nodes, links, newIds, previous.communities?.levels.length || 0);
+
+      const finalIds = new Set(nodes.map(n => n.id));
+      const previousLinkKeys = new Set(previous.links.map(l => linkKey(l.source, l.target)));
+      const finalLinkKeys = new Set(links.map(l => linkKey(l.source, l.target)));
+      nodesAdded = newIds.size;
+      nodesRemoved = previous.nodes.filter(n => !finalIds.has(n.id)).length;
+      linksAdded = Array.from(finalLinkKeys).filter(k => !previousLinkKeys.has(k)).length;
+      linksRemoved = Array.from(previousLinkKeys).filter(k => !finalLinkKeys.has(k)).length;
+      affectedCommunities = Array.from(new Set([
+          ...nodes.filter(n => newIds.has(n.id)).map(n => n.group),
+          ...previous.nodes.filter(n => !finalIds.has(n.id)).map(n => n.group)
+      ])).sort((a, b) => a - b);
+
+      graphData = finalizeGraph(previous, nodes, links, knowledge);
+      // Relatório desatualizado = membros mudaram desde a sumarização
+      staleReports = (graphData.communityReports || []).filter(report => {
+          const before = previous.communityReports!.find(r => r.id === report.id)!.nodeIds;
+          return before.length !== report.nodeIds.length || report.nodeIds.some(id => !before.includes(id));
+      }).length;
+      if (staleReports > 0) warnings.push(`${staleReports} relatório(s) de comunidade desatualizado(s): execute "Resumir Comunidades" para atualizá-los.`);
+  }
+
+  const incomingByName = new Map(deltaDocs.map(d => [d.filename, d]));
+  const rawDocs = [
+      ...state.rawDocs.filter(d => !removed.includes(d.filename)).map(d => incomingByName.get(d.filename) || d),
+      ...added
+  ];
+  const chunks = [...state.chunks.filter(c => !removedChunkIds.has(c.id)), ...freshChunks];
+
+  return {
+      state: { rawDocs, chunks, embeddings, clusters, graphData },
+      summary: {
+          added: added.map(d => d.filename),
+          changed: changed.map(d => d.filename),
+          removed,
+          unchanged,
+          chunksAdded: freshChunks.length,
+          chunksRemoved: removedChunkIds.size,
+          nodesAdded,
+          nodesRemoved,
+          linksAdded,
+          linksRemoved,
+          affectedCommunities,
+          staleReports,
+          warnings,
+          timestamp: new Date().toISOString()
+      }
+  };
+};
@@ -0,0 +1,33 @@
+// Utilitários de IndexedDB compartilhados pelos projetos salvos e pelo cache de chamadas a modelos
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+export const isIndexedDBAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+// Conexão única por banco; onUpgrade cria stores e índices da versão pedida
+export const openDatabase = (name: string, version: number, onUpgrade: (db: IDBDatabase, tx: IDBTransaction) => void): Promise<IDBDatabase> => {
+  let connection = connections.get(name);
+  if (!connection) {
+    connection = new Promise((resolve, reject) => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => onUpgrade(request.result, request.transaction!);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    // Falha na abertura não deve travar tentativas futuras
+    connection.catch(() => { connections.delete(name); });
+    connections.set(name, connection);
+  }
+  return connection;
+};
+
+export const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new Error('Transação do IndexedDB abortada.'));
+});
@@ -0,0 +1,315 @@
+import { AliasTable, DocumentChunk, GraphData, GraphNode, GraphLink, KGEntity, KGEntityType, KGRelation, KGRelationType, KnowledgeExtraction, LLMJsonSchema } from '../types';
+import { delay } from './geminiClient';
+import { getActiveLLMProvider } from './llmService';
+import { computeGraphMetrics } from './mockDataService';
+import { canonicalKey, parseLegalCitation, formatLegalCitation, resolveTerm } from './entityResolutionService';
+
+// Extração de entidades (órgãos, leis, pessoas, prazos, conceitos) e relações tipadas
+// (cita, revoga, altera, define, obriga) para transformar o grafo de chunks em grafo de conhecimento.
+
+const ENTITY_TYPES: KGEntityType[] = ['ORGAO', 'LEI', 'PESSOA', 'PRAZO', 'CONCEITO'];
+const RELATION_TYPES: KGRelationType[] = ['cita', 'revoga', 'altera', 'define', 'obriga'];
+
+interface RawEntity { name: string; type: KGEntityType; }
+interface RawRelation { source: string; target: string; type: KGRelationType; evidence?: string; }
+
+interface ChunkExtraction {
+  entities: RawEntity[];
+  relations: RawRelation[];
+  method: 'llm' | 'heuristic';
+}
+
+const ENTITY_EXTRACTION_SCHEMA: LLMJsonSchema = {
+    type: 'object',
+    properties: {
+        entities: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { name: { type: 'string' }, type: { type: 'string', enum: ENTITY_TYPES } },
+                required: ['name', 'type']
+            }
+        },
+        relations: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    source: { type: 'string' },
+                    target: { type: 'string' },
+                    type: { type: 'string', enum: RELATION_TYPES },
+                    evidence: { type: 'string' }
+                },
+                required: ['source', 'target', 'type']
+            }
+        }
+    },
+    required: ['entities', 'relations']
+};
+
+// --- DEDUPLICAÇÃO (chaves canônicas de services/entityResolutionService.ts) ---
+
+// Resolver pela tabela primeiro incorpora as fusões fuzzy/embedding aceitas
+const entityKey = (type: KGEntityType, name: string, aliasTable: AliasTable | null = null) => `${type}:${canonicalKey(resolveTerm(aliasTable, name))}`;
+
+// Nome de exibição: forma da tabela de aliases; citações legais no padrão "Lei nº 8.666/1993"
+const entityDisplayName = (name: string, aliasTable: AliasTable | null): string => {
+  const resolved = resolveTerm(aliasTable, name);
+  if (resolved !== name.replace(/\s+/g, ' ').trim()) return resolved;
+  const citation = parseLegalCitation(name);
+  return citation ? formatLegalCitation(citation) : resolved;
+};
+
+const entityIdFromKey = (key: string) => `ent_${key.toLowerCase().replace(/[^a-z0-9]+/g, '_').slice(0, 48)}`;
+
+// --- HEURISTIC FALLBACK (Regex) ---
+
+const LAW_PATTERN = /\b(Lei\s+Complementar|Lei|Decreto-Lei|Decreto|Medida\s+Provis[óo]ria|Emenda\s+Constitucional|Resolu[çc][ãa]o|Portaria|Instru[çc][ãa]o\s+Normativa)\s+(?:n[º°o.]*\s*)?(\d[\d.]*(?:\/\d{2,4})?)/gi;
+const CODE_PATTERN = /\b(Constitui[çc][ãa]o\s+Federal|C[óo]digo\s+(?:Civil|Penal|Tribut[áa]rio\s+Nacional|de\s+Processo\s+(?:Civil|Penal)|de\s+Defesa\s+do\s+Consumidor))\b/g;
+const ORGAN_PATTERN = /\b(?:Minist[ée]rio|Secretaria|Tribunal|Conselho|Ag[êe]ncia|Defensoria|Procuradoria|Advocacia|Controladoria|Superintend[êe]ncia|Comiss[ãa]o|Congresso|Senado|C[âa]mara|Poder|Banco|Instituto)(?:\s+(?:de|da|do|das|dos|e)?\s*[A-ZÁÉÍÓÚÂÊÔÃÕÇ][\wÀ-ÿ]+)+/g;
+const ACRONYM_PATTERN = /(?<![\wÀ-ÿ])[A-Z]{2,6}(?![\wÀ-ÿ])/g;
+const ACRONYM_BLOCKLIST = new Set(['LEI', 'ART', 'CPF', 'CNPJ', 'CEP', 'UF', 'PDF', 'DE', 'DA', 'DO', 'NO', 'NA', 'OU', 'LIVRO', 'PARTE', 'GERAIS', 'FINAIS']);
+const PERSON_PATTERN = /\b(?:Sr\.|Sra\.|Dr\.|Dra\.|Ministr[oa]|Presidente|Deputad[oa]|Senador[a]?|Relator[a]?)\s+([A-ZÁÉÍÓÚÂÊÔÃÕÇ][a-zà-ÿ]+(?:\s+(?:de|da|do|dos|das)?\s*[A-ZÁÉÍÓÚÂÊÔÃÕÇ][a-zà-ÿ]+){1,4})/g;
+const DEADLINE_PATTERN = /\b(\d{1,4})\s*(?:\([^)]{1,30}\)\s*)?(dias?\s+[úu]teis|dias?|meses|m[êe]s|anos?|horas?)\b/gi;
+const DEFINITION_PATTERN = /(?:considera-se|consideram-se|entende-se\s+por|define-se\s+como)\s+([^:;.,]{3,80})/gi;
+
+const DEFINITION_VERBS = /(considera-se|consideram-se|entende-se\s+por|define-se\s+como)/i;
+const OBLIGATION_VERBS = /\b(dever[áa]o?|devem|deve|[ée]\s+obrigad[oa]|ficam?\s+obrigad[oa]s?|compete|incumbe)(?![\wÀ-ÿ])/i;
+const REVOKE_VERBS = /\brevoga/i;
+const AMEND_VERBS = /\b(altera|passam?\s+a\s+vigorar|nova\s+reda[çc][ãa]o|acrescid[oa]|acrescenta)/i;
+
+const matchAll = (pattern: RegExp, text: string) => Array.from(text.matchAll(new RegExp(pattern.source, pattern.flags)));
+
+const extractSentenceEntities = (sentence: string): RawEntity[] => {
+  const found: RawEntity[] = [];
+  matchAll(LAW_PATTERN, sentence).forEach(m => found.push({ name: `${m[1].replace(/\s+/g, ' ')} nº ${m[2]}`, type: 'LEI' }));
+  matchAll(CODE_PATTERN, sentence).forEach(m => found.push({ name: m[1].replace(/\s+/g, ' '), type: 'LEI' }));
+  matchAll(ORGAN_PATTERN, sentence).forEach(m => found.push({ name: m[0].replace(/\s+/g, ' ').trim(), type: 'ORGAO' }));
+  // Siglas só fora de cabeçalhos em caixa alta (TÍTULO, CAPÍTULO, DISPOSIÇÕES GERAIS...)
+  const letters = sentence.replace(/[^A-Za-zÀ-ÿ]/g, '');
+  const upperRatio = letters.length > 0 ? letters.replace(/[^A-ZÀ-Ý]/g, '').length / letters.length : 0;
+  if (upperRatio < 0.5) {
+      matchAll(ACRONYM_PATTERN, sentence).forEach(m => {
+          if (!ACRONYM_BLOCKLIST.has(m[0]) && !/^[IVXLCDM]+$/.test(m[0])) found.push({ name: m[0], type: 'ORGAO' });
+      });
+  }
+  matchAll(PERSON_PATTERN, sentence).forEach(m => found.push({ name: m[1], type: 'PESSOA' }));
+  matchAll(DEADLINE_PATTERN, sentence).forEach(m => found.push({ name: `${m[1]} ${m[2].toLowerCase()}`, type: 'PRAZO' }));
+  matchAll(DEFINITION_PATTERN, sentence).forEach(m => found.push({ name: m[1].trim(), type: 'CONCEITO' }));
+  return found;
+};
+
+// O próprio diploma processado é o sujeito implícito de cita/revoga/altera/define
+const documentEntityFor = (chunk: DocumentChunk): RawEntity => {
+  const rootLabel = chunk.hierarchyPath?.[0] || chunk.source.replace(/\.pdf$/i, '');
+  const law = matchAll(LAW_PATTERN, rootLabel)[0];
+  return { name: law ? `${law[1].replace(/\s+/g, ' ')} nº ${law[2]}` : rootLabel, type: 'LEI' };
+};
+
+export const heuristicEntityExtraction = (chunk: DocumentChunk): ChunkExtraction => {
+  const documentEntity = documentEntityFor(chunk);
+  const documentKey = entityKey('LEI', documentEntity.name);
+  const entities: RawEntity[] = [];
+  const relations: RawRelation[] = [];
+
+  const sentences = chunk.content.split(/(?<=[.;:])\s+/).filter(s => s.trim().length > 0);
+  sentences.forEach(sentence => {
+      const found = extractSentenceEntities(sentence);
+      entities.push(...found);
+      const evidence = sentence.slice(0, 160);
+
+      const laws = found.filter(e => e.type === 'LEI' && entityKey('LEI', e.name) !== documentKey);
+      const lawRelation: KGRelationType = REVOKE_VERBS.test(sentence) ? 'revoga' : AMEND_VERBS.test(sentence) ? 'altera' : 'cita';
+      laws.forEach(law => relations.push({ source: documentEntity.name, target: law.name, type: lawRelation, evidence }));
+
+      if (DEFINITION_VERBS.test(sentence)) {
+          found.filter(e => e.type === 'CONCEITO').forEach(c => relations.push({ source: documentEntity.name, target: c.name, type: 'define', evidence }));
+      }
+
+      if (OBLIGATION_VERBS.test(sentence)) {
+          const subjects = found.filter(e => e.type === 'ORGAO' || e.type === 'PESSOA');
+          const objects = found.filter(e => e.type === 'PRAZO' || e.type === 'CONCEITO');
+          if (subjects.length > 0 && objects.length > 0) {
+              subjects.forEach(s => objects.forEach(o => relations.push({ source: s.name, target: o.name, type: 'obriga', evidence })));
+          } else {
+              subjects.forEach(s => relations.push({ source: documentEntity.name, target: s.name, type: 'obriga', evidence }));
+          }
+      }
+  });
+
+  if (relations.some(r => r.source === documentEntity.name)) entities.push(documentEntity);
+  return { entities, relations, method: 'heuristic' };
+};
+
+// --- LLM EXTRACTION ---
+
+export const extractEntitiesWithLLM = async (chunk: DocumentChunk): Promise<ChunkExtraction> => {
+  const llm = getActiveLLMProvider();
+
+  // CIRCUIT BREAKER CHECK
+  if (!llm.isAvailable()) {
+      return heuristicEntityExtraction(chunk);
+  }
+
+  const documentEntity = documentEntityFor(chunk);
+  const safeContent = chunk.content.slice(0, 1500);
+
+  try {
+    const prompt = `
+      DOCUMENTO: "${documentEntity.name}"
+      TRECHO: "${safeContent}"
+      TASK: Extraia entidades nomeadas (ORGAO, LEI, PESSOA, PRAZO, CONCEITO) e relações tipadas entre elas
+      (cita, revoga, altera, define, obriga). Quando o sujeito for o próprio documento, use "${documentEntity.name}".
+      Use apenas nomes que aparecem em "entities" como source/target das relações.
+    `;
+
+    const result = await llm.generateJSON<{ entities: RawEntity[]; relations: RawRelation[] }>(prompt, ENTITY_EXTRACTION_SCHEMA, { temperature: 0.1 });
+
+    const entities = (result.entities || []).filter(e => e.name && ENTITY_TYPES.includes(e.type));
+    const relations = (result.relations || []).filter(r => r.source && r.target && RELATION_TYPES.includes(r.type));
+    if (relations.some(r => r.source === documentEntity.name || r.target === documentEntity.name)) entities.push(documentEntity);
+
+    return { entities, relations, method: 'llm' };
+  } catch (error) {
+    // Se falhar (incluindo Circuit Breaker ativando agora), usa Heurística
+    return heuristicEntityExtraction(chunk);
+  }
+};
+
+// --- AGREGAÇÃO ENTRE CHUNKS ---
+
+const mergeChunkExtractions = (results: Array<{ chunkId: string; extraction: ChunkExtraction }>, aliasTable: AliasTable | null): KnowledgeExtraction => {
+  const entitiesByKey = new Map<string, KGEntity>();
+  const relationsByKey = new Map<string, KGRelation>();
+
+  const upsertEntity = (raw: RawEntity, chunkId: string): KGEntity => {
+      const key = entityKey(raw.type, raw.name, aliasTable);
+      let entity = entitiesByKey.get(key);
+      if (!entity) {
+          entity = { id: entityIdFromKey(key), name: entityDisplayName(raw.name, aliasTable), type: raw.type, mentions: [] };
+          entitiesByKey.set(key, entity);
+      } else if (parseLegalCitation(raw.name)?.year && !parseLegalCitation(entity.name)?.year) {
+          // Variante mais completa da mesma citação (com ano) passa a nomear a entidade
+          entity.name = entityDisplayName(raw.name, aliasTable);
+      }
+      if (!entity.mentions.includes(chunkId)) entity.mentions.push(chunkId);
+      return entity;
+  };
+
+  results.forEach(({ chunkId, extraction }) => {
+      const local = new Map<string, KGEntity>();
+      extraction.entities.forEach(raw => local.set(canonicalKey(raw.name), upsertEntity(raw, chunkId)));
+
+      extraction.relations.forEach(rel => {
+          // Endpoints não declarados viram CONCEITO (preservação total: nenhuma relação é descartada)
+          const source = local.get(canonicalKey(rel.source)) || upsertEntity({ name: rel.source, type: 'CONCEITO' }, chunkId);
+          const target = local.get(canonicalKey(rel.target)) || upsertEntity({ name: rel.target, type: 'CONCEITO' }, chunkId);
+          if (source.id === target.id) return;
+
+          const key = `${source.id}|${target.id}|${rel.type}`;
+          const existing = relationsByKey.get(key);
+          if (existing) {
+              existing.confidence = Math.min(1, existing.confidence + 0.1);
+              return;
+          }
+          relationsByKey.set(key, {
+              source: source.id,
+              target: target.id,
+              type: rel.type,
+              chunkId,
+              confidence: extraction.method === 'llm' ? 0.85 : 0.6,
+              evidence: rel.evidence
+          });
+      });
+  });
+
+  return {
+    entities: Array.from(entitiesByKey.values()),
+    relations: Array.from(relationsByKey.values()),
+    llmChunks: results.filter(r => r.extraction.method === 'llm').length,
+    heuristicChunks: results.filter(r => r.extraction.method === 'heuristic').length
+  };
+};
+
+export const extractKnowledgeFromChunks = async (
+  chunks: DocumentChunk[],
+  onProgress: (progress: number) => void,
+  aliasTable: AliasTable | null = null
+): Promise<KnowledgeExtraction> => {
+  const results: Array<{ chunkId: string; extraction: ChunkExtraction }> = [];
+  const batchSize = 2;
+
+  for (let i = 0; i < chunks.length; i += batchSize) {
+    const batch = chunks.slice(i, i + batchSize);
+
+    // Se o Circuit Breaker abriu, processa o resto síncronamente (rápido)
+    if (!getActiveLLMProvider().isAvailable()) {
+        batch.forEach(c => results.push({ chunkId: c.id, extraction: heuristicEntityExtraction(c) }));
+        onProgress(Math.round(((i + batch.length) / chunks.length) * 100));
+        await delay(5); // Pequeno respiro para UI
+        continue;
+    }
+
+    const extracted = await Promise.all(batch.map(async (c, idx) => {
+        await delay(idx * 500);
+        return { chunkId: c.id, extraction: await extractEntitiesWithLLM(c) };
+    }));
+
+    results.push(...extracted);
+    onProgress(Math.round(((i + batch.length) / chunks.length) * 100));
+    await delay(1000);
+  }
+
+  return mergeChunkExtractions(results, aliasTable);
+};
+
+// --- GRAFO BIPARTIDO (chunk ↔ entidade) + entidade ↔ entidade ---
+
+export const mergeKnowledgeIntoGraph = (graph: GraphData, knowledge: KnowledgeExtraction): GraphData => {
+  const chunkNodes = graph.nodes.filter(n => n.kind !== 'entity');
+  const groupByChunk = new Map(chunkNodes.map(n => [n.id, n.group]));
+
+  const entityNodes: GraphNode[] = knowledge.entities
+    .filter(e => e.mentions.some(id => groupByChunk.has(id)))
+    .map(e => {
+        // Entidade herda o cluster predominante entre os chunks que a mencionam
+        const groupCounts: Record<number, number> = {};
+        e.mentions.forEach(id => {
+            const group = groupByChunk.get(id);
+            if (group !== undefined) groupCounts[group] = (groupCounts[group] || 0) + 1;
+        });
+        const group = Number(Object.entries(groupCounts).sort((a, b) => b[1] - a[1])[0][0]);
+        const relationCount = knowledge.relations.filter(r => r.source === e.id || r.target === e.id).length;
+
+        return {
+            id: e.id,
+            kind: 'entity',
+            label: e.name,
+            group,
+            fullContent: `Entidade: ${e.name} (${e.type}). Mencionada em ${e.mentions.length} chunk(s); ${relationCount} relação(ões) tipada(s).`,
+            centrality: 0,
+            entityType: e.type,
+            keywords: [e.name]
+        };
+    });
+  const entityIds = new Set(entityNodes.map(n => n.id));
+
+  const mentionLinks: GraphLink[] = [];
+  knowledge.entities.forEach(e => {
+      if (!entityIds.has(e.id)) return;
+      e.mentions.forEach(chunkId => {
+          if (groupByChunk.has(chunkId)) mentionLinks.push({ source: chunkId, target: e.id, value: 0.5, confidence: 0.7, type: 'menciona', directed: true });
+      });
+  });
+
+  const relationLinks: GraphLink[] = knowledge.relations
+    .filter(r => entityIds.has(r.source) && entityIds.has(r.target))
+    .map(r => ({ source: r.source, target: r.target, value: 0.7, confidence: r.confidence, type: r.type, directed: true }));
+
+  const nodes = [...chunkNodes, ...entityNodes];
+  // Re-extrações substituem a camada de entidades anterior
+  const chunkLinks = graph.links.filter(l => groupByChunk.has(l.source) && groupByChunk.has(l.target));
+  const links = [...chunkLinks, ...mentionLinks, ...relationLinks];
+
+  return { ...graph, nodes, links, metrics: computeGraphMetrics(nodes, links), knowledge };
+};
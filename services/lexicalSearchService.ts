@@ -0,0 +1,134 @@
+import { HybridRetrievalParams, HybridCandidate } from '../types';
+import { stripAccents, stemPortuguese, PORTUGUESE_STOPWORDS } from './entityResolutionService';
+
+// Recuperação léxica BM25 no navegador + fusão com o ranking vetorial. O cosseno sozinho falha em
+// números de artigo ("Art. 75, § 2º") e citações legais; o BM25 acerta esses casos por casamento exato.
+
+export const DEFAULT_HYBRID_RETRIEVAL_PARAMS: HybridRetrievalParams = {
+  fusion: 'rrf',
+  vectorWeight: 1,
+  lexicalWeight: 1,
+  rrfK: 60,
+  poolSize: 50,
+  topK: 6
+};
+
+// --- TOKENIZAÇÃO (PT-BR) ---
+
+// "Art. 75, § 2º da Lei nº 8.666/93" → [art, 75, paragrafo, 2, lei, 8666, 93]
+export const tokenizePortuguese = (text: string): string[] =>
+  stripAccents(text)
+    .toLowerCase()
+    .replace(/(\d)\.(?=\d{3}(?!\d))/g, '$1') // Separador de milhar: 8.666 → 8666
+    .replace(/[º°ª]/g, ' ')
+    .replace(/§/g, ' paragrafo ')
+    .split(/[^a-z0-9]+/)
+    .filter(t => t.length > 0 && !PORTUGUESE_STOPWORDS.has(t) && (t.length > 1 || /\d/.test(t)))
+    .map(stemPortuguese);
+
+// --- ÍNDICE BM25 ---
+
+export interface BM25Index {
+  docIds: string[];
+  termFreqs: Array<Map<string, number>>;
+  docLengths: number[];
+  avgDocLength: number;
+  docFreq: Map<string, number>;
+  k1: number;
+  b: number;
+}
+
+export const buildBM25Index = (docs: Array<{ id: string; text: string }>, k1: number = 1.2, b: number = 0.75): BM25Index => {
+  const docFreq = new Map<string, number>();
+  const termFreqs = docs.map(doc => {
+      const tf = new Map<string, number>();
+      tokenizePortuguese(doc.text).forEach(t => tf.set(t, (tf.get(t) || 0) + 1));
+      tf.forEach((_, t) => docFreq.set(t, (docFreq.get(t) || 0) + 1));
+      return tf;
+  });
+  const docLengths = termFreqs.map(tf => Array.from(tf.values()).reduce((a, c) => a + c, 0));
+  const avgDocLength = docLengths.length > 0 ? docLengths.reduce((a, c) => a + c, 0) / docLengths.length : 0;
+  return { docIds: docs.map(d => d.id), termFreqs, docLengths, avgDocLength, docFreq, k1, b };
+};
+
+// Documentos sem nenhum termo da consulta ficam de fora (score 0 não é um ranking)
+export const searchBM25 = (index: BM25Index, query: string, limit: number): Array<{ id: string; score: number }> => {
+  const n = index.docIds.length;
+  const terms = Array.from(new Set(tokenizePortuguese(query)));
+  const results: Array<{ id: string; score: number }> = [];
+
+  index.termFreqs.forEach((tf, i) => {
+      let score = 0;
+      terms.forEach(term => {
+          const f = tf.get(term);
+          if (!f) return;
+          const df = index.docFreq.get(term)!;
+          const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+          const norm = index.k1 * (1 - index.b + index.b * index.docLengths[i] / (index.avgDocLength || 1));
+          score += idf * (f * (index.k1 + 1)) / (f + norm);
+      });
+      if (score > 0) results.push({ id: index.docIds[i], score });
+  });
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+// --- FUSÃO DE RANKINGS ---
+
+const minMaxNormalize = (ranking: Array<{ id: string; score: number }>): Map<string, number> => {
+  const scores = ranking.map(r => r.score);
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min;
+  return new Map(ranking.map(r => [r.id, range === 0 ? 1 : (r.score - min) / range]));
+};
+
+export const fuseRankings = (
+  vectorRanking: Array<{ id: string; score: number }>,
+  lexicalRanking: Array<{ id: string; score: number }>,
+  params: HybridRetrievalParams = DEFAULT_HYBRID_RETRIEVAL_PARAMS
+): HybridCandidate[] => {
+  const vectorPos = new Map(vectorRanking.map((r, i) => [r.id, i + 1]));
+  const lexicalPos = new Map(lexicalRanking.map((r, i) => [r.id, i + 1]));
+  const vectorScore = new Map(vectorRanking.map(r => [r.id, r.score]));
+  const lexicalScore = new Map(lexicalRanking.map(r => [r.id, r.score]));
+  const vectorNorm = minMaxNormalize(vectorRanking);
+  const lexicalNorm = minMaxNormalize(lexicalRanking);
+
+  const ids = Array.from(new Set([...vectorRanking.map(r => r.id), ...lexicalRanking.map(r => r.id)]));
+  const fused = ids.map(id => {
+      const vRank = vectorPos.get(id) ?? null;
+      const lRank = lexicalPos.get(id) ?? null;
+      const fusedScore = params.fusion === 'rrf'
+        ? (vRank ? params.vectorWeight / (params.rrfK + vRank) : 0) + (lRank ? params.lexicalWeight / (params.rrfK + lRank) : 0)
+        : params.vectorWeight * (vectorNorm.get(id) || 0) + params.lexicalWeight * (lexicalNorm.get(id) || 0);
+      return {
+          id,
+          vectorRank: vRank,
+          lexicalRank: lRank,
+          vectorScore: vectorScore.get(id) || 0,
+          lexicalScore: lexicalScore.get(id) || 0,
+          fusedScore,
+          fusedRank: 0
+      };
+  });
+
+  return fused
+    .sort((a, b) => b.fusedScore - a.fusedScore)
+    .map((c, i) => ({ ...c, fusedRank: i + 1 }));
+};
+
+// RRF entre N rankings (ex: um por sub-consulta); hits = em quantos rankings o documento apareceu
+export const fuseRankLists = (rankings: string[][], k: number = DEFAULT_HYBRID_RETRIEVAL_PARAMS.rrfK): Array<{ id: string; score: number; hits: number }> => {
+  const fused = new Map<string, { score: number; hits: number }>();
+  rankings.forEach(ranking => ranking.forEach((id, i) => {
+      const entry = fused.get(id) || { score: 0, hits: 0 };
+      fused.set(id, { score: entry.score + 1 / (k + i + 1), hits: entry.hits + 1 });
+  }));
+  return Array.from(fused.entries())
+    .map(([id, e]) => ({ id, ...e }))
+    .sort((a, b) => b.score - a.score);
+};
+
+// "#1 | vetor #3 (0.81) | BM25 #1 (7.42)"
+export const formatCandidateRanks = (c: HybridCandidate): string =>
+  `#${c.fusedRank} | vetor ${c.vectorRank ? `#${c.vectorRank} (${c.vectorScore.toFixed(2)})` : '—'} | BM25 ${c.lexicalRank ? `#${c.lexicalRank} (${c.lexicalScore.toFixed(2)})` : '—'}`;
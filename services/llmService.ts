@@ -0,0 +1,323 @@
+import { LLMProvider, LLMProviderConfig, LLMProviderId, LLMJsonSchema, LLMGenerateOptions, LLMToolDefinition, LLMToolCall } from '../types';
+import { FunctionCallingConfigMode } from "@google/genai";
+import { ai, retryOperation, isQuotaExceeded, hasGeminiApiKey } from './geminiClient';
+
+// --- JSON HELPERS ---
+
+// Modelos locais frequentemente envolvem o JSON em blocos ```json ... ``` ou texto extra
+export const parseJSONResponse = <T>(text: string): T => {
+  const cleaned = text.replace(/```(?:json)?/gi, '').trim();
+  try {
+    return JSON.parse(cleaned) as T;
+  } catch (e) {
+    const start = cleaned.search(/[\[{]/);
+    const end = Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']'));
+    if (start === -1 || end <= start) throw new Error(`Resposta não contém JSON válido: ${cleaned.substring(0, 80)}`);
+    return JSON.parse(cleaned.slice(start, end + 1)) as T;
+  }
+};
+
+// Gera um valor mínimo compatível com o schema (usado pelo provedor roteirizado)
+const buildDefaultFromSchema = (schema: LLMJsonSchema): any => {
+  switch (schema?.type) {
+    case 'object': {
+      const result: Record<string, any> = {};
+      Object.entries(schema.properties || {}).forEach(([key, sub]) => { result[key] = buildDefaultFromSchema(sub as LLMJsonSchema); });
+      return result;
+    }
+    case 'array': return [];
+    case 'number':
+    case 'integer': return 0;
+    case 'boolean': return false;
+    default: return '';
+  }
+};
+
+// Modelos sem suporte nativo a tools podem responder {"name": ..., "args": {...}} em texto
+const parseToolCallFromText = (text: string, tools: LLMToolDefinition[]): LLMToolCall | null => {
+  try {
+    const parsed = parseJSONResponse<any>(text);
+    const name = parsed?.name ?? parsed?.tool;
+    if (typeof name !== 'string' || !tools.some(t => t.name === name)) return null;
+    const args = typeof parsed.args === 'string' ? parseJSONResponse<Record<string, any>>(parsed.args) : (parsed.args ?? parsed.arguments ?? {});
+    return { name, args };
+  } catch (e) {
+    return null;
+  }
+};
+
+// --- PROVIDER FACTORIES ---
+
+const createGeminiLLMProvider = (config: LLMProviderConfig): LLMProvider => {
+  const model = config.model || 'gemini-3-flash-preview';
+  return {
+    id: 'gemini',
+    name: `Gemini ${model}`,
+    model,
+    isAvailable: () => !isQuotaExceeded(),
+    generateText: async (prompt: string, options: LLMGenerateOptions = {}) => {
+      const response = await retryOperation(async () => {
+        return await ai.models.generateContent({
+          model,
+          contents: prompt,
+          config: { temperature: options.temperature, systemInstruction: options.systemInstruction, abortSignal: options.signal }
+        });
+      });
+      return response.text || "";
+    },
+    streamText: async (prompt: string, onToken: (delta: string) => void, options: LLMGenerateOptions = {}) => {
+      // O retry cobre apenas a abertura do stream; falhas no meio propagam (o chamador mantém o parcial)
+      const stream = await retryOperation(async () => {
+        return await ai.models.generateContentStream({
+          model,
+          contents: prompt,
+          config: { temperature: options.temperature, systemInstruction: options.systemInstruction, abortSignal: options.signal }
+        });
+      });
+      let text = "";
+      for await (const chunk of stream) {
+        const delta = chunk.text || "";
+        if (delta) {
+          text += delta;
+          onToken(delta);
+        }
+      }
+      return text;
+    },
+    generateJSON: async <T,>(prompt: string, schema: LLMJsonSchema, options: LLMGenerateOptions = {}) => {
+      const response = await retryOperation(async () => {
+        return await ai.models.generateContent({
+          model,
+          contents: prompt,
+          config: {
+            temperature: options.temperature,
+            systemInstruction: options.systemInstruction,
+            responseMimeType: "application/json",
+            responseJsonSchema: schema
+          }
+        });
+      }, 2, 2000);
+      return parseJSONResponse<T>(response.text || "{}");
+    },
+    generateToolCall: async (prompt: string, tools: LLMToolDefinition[], options: LLMGenerateOptions = {}) => {
+      const response = await retryOperation(async () => {
+        return await ai.models.generateContent({
+          model,
+          contents: prompt,
+          config: {
+            temperature: options.temperature,
+            systemInstruction: options.systemInstruction,
+            abortSignal: options.signal,
+            tools: [{ functionDeclarations: tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }],
+            toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.ANY } }
+          }
+        });
+      }, 2, 2000);
+      const call = response.functionCalls?.[0];
+      return call?.name ? { name: call.name, args: call.args || {} } : parseToolCallFromText(response.text || "", tools);
+    }
+  };
+};
+
+const createOpenAICompatibleLLMProvider = (config: LLMProviderConfig): LLMProvider => {
+  const baseUrl = (config.baseUrl || 'http://localhost:11434/v1').replace(/\/+$/, '');
+  const model = config.model || 'llama3.1';
+
+  const postChatCompletion = async (prompt: string, options: LLMGenerateOptions, extra: Record<string, any>): Promise<Response> => {
+    const messages = [
+      ...(options.systemInstruction ? [{ role: 'system', content: options.systemInstruction }] : []),
+      { role: 'user', content: prompt }
+    ];
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify({ model, messages, temperature: options.temperature, ...extra }),
+      signal: options.signal
+    });
+    if (!response.ok) throw new Error(`[LLM API] ${response.status} ${response.statusText}`);
+    return response;
+  };
+
+  const chatCompletion = async (prompt: string, options: LLMGenerateOptions, responseFormat?: any): Promise<string> => {
+    const response = await postChatCompletion(prompt, options, responseFormat ? { response_format: responseFormat } : {});
+    const json = await response.json();
+    return json.choices?.[0]?.message?.content || "";
+  };
+
+  // Server-Sent Events: linhas "data: {...}" com choices[0].delta.content, encerradas por "data: [DONE]"
+  const streamChatCompletion = async (prompt: string, onToken: (delta: string) => void, options: LLMGenerateOptions): Promise<string> => {
+    const response = await postChatCompletion(prompt, options, { stream: true });
+    if (!response.body) {
+      const json = await response.json();
+      const text = json.choices?.[0]?.message?.content || "";
+      if (text) onToken(text);
+      return text;
+    }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let text = "";
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || "";
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') return text;
+        if (!data) continue;
+        const delta = parseJSONResponse<any>(data).choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onToken(delta);
+        }
+      }
+    }
+    return text;
+  };
+
+  return {
+    id: 'openai-compatible',
+    name: `OpenAI-Compatible ${model}`,
+    model,
+    isAvailable: () => true,
+    generateText: (prompt, options = {}) => chatCompletion(prompt, options),
+    streamText: (prompt, onToken, options = {}) => streamChatCompletion(prompt, onToken, options),
+    generateToolCall: async (prompt: string, tools: LLMToolDefinition[], options: LLMGenerateOptions = {}) => {
+      const response = await postChatCompletion(prompt, options, {
+        tools: tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } })),
+        tool_choice: 'required'
+      });
+      const message = (await response.json()).choices?.[0]?.message;
+      const call = message?.tool_calls?.[0]?.function;
+      if (call?.name) {
+        const args = typeof call.arguments === 'string' ? parseJSONResponse<Record<string, any>>(call.arguments || '{}') : (call.arguments || {});
+        return { name: call.name, args };
+      }
+      return parseToolCallFromText(message?.content || "", tools);
+    },
+    generateJSON: async <T,>(prompt: string, schema: LLMJsonSchema, options: LLMGenerateOptions = {}) => {
+      // O schema também vai no prompt: nem todo servidor local respeita response_format
+      const text = await chatCompletion(
+        `${prompt}\n\nResponda SOMENTE com JSON válido seguindo o schema:\n${JSON.stringify(schema)}`,
+        options,
+        { type: 'json_schema', json_schema: { name: 'response', schema } }
+      );
+      return parseJSONResponse<T>(text);
+    }
+  };
+};
+
+// --- SCRIPTED PROVIDER (Determinístico, para testes e demonstrações offline) ---
+
+export interface ScriptedLLMRule {
+  match: string | RegExp;
+  response: string | ((prompt: string) => string);
+}
+
+export const createScriptedLLMProvider = (rules: ScriptedLLMRule[] = []): LLMProvider & { calls: string[] } => {
+  const calls: string[] = [];
+
+  const resolve = (prompt: string): string | null => {
+    calls.push(prompt);
+    const rule = rules.find(r => typeof r.match === 'string' ? prompt.includes(r.match) : r.match.test(prompt));
+    if (!rule) return null;
+    return typeof rule.response === 'function' ? rule.response(prompt) : rule.response;
+  };
+
+  return {
+    id: 'scripted',
+    name: 'Scripted (Roteirizado)',
+    model: 'scripted',
+    calls,
+    isAvailable: () => true,
+    generateText: async (prompt: string) => resolve(prompt) ?? `[scripted] ${prompt.substring(0, 120)}`,
+    // Emite a resposta roteirizada palavra a palavra, respeitando o cancelamento
+    streamText: async (prompt: string, onToken: (delta: string) => void, options: LLMGenerateOptions = {}) => {
+      const text = resolve(prompt) ?? `[scripted] ${prompt.substring(0, 120)}`;
+      for (const delta of text.match(/\S+\s*|\s+/g) || []) {
+        if (options.signal?.aborted) throw new Error('Aborted');
+        onToken(delta);
+        await Promise.resolve();
+      }
+      return text;
+    },
+    generateJSON: async <T,>(prompt: string, schema: LLMJsonSchema) => {
+      const scripted = resolve(prompt);
+      return (scripted !== null ? parseJSONResponse<T>(scripted) : buildDefaultFromSchema(schema)) as T;
+    },
+    // Regras respondem {"name": "...", "args": {...}}; sem regra o modelo "responde em texto" (null)
+    generateToolCall: async (prompt: string, tools: LLMToolDefinition[]) => {
+      const scripted = resolve(prompt);
+      return scripted !== null ? parseToolCallFromText(scripted, tools) : null;
+    }
+  };
+};
+
+// --- NONE PROVIDER (Sem LLM configurado) ---
+
+// Sempre indisponível: todas as etapas seguem direto para as heurísticas, sem chamadas de rede
+const createNoLLMProvider = (): LLMProvider => {
+  const unavailable = async (): Promise<never> => {
+    throw new Error('Nenhum provedor de LLM configurado.');
+  };
+  return {
+    id: 'none',
+    name: 'Nenhum (heurísticas offline)',
+    model: 'none',
+    isAvailable: () => false,
+    generateText: unavailable,
+    generateJSON: unavailable,
+    streamText: unavailable,
+    generateToolCall: unavailable
+  };
+};
+
+// --- REGISTRY & ACTIVE PROVIDER ---
+
+type LLMProviderFactory = (config: LLMProviderConfig) => LLMProvider;
+
+const llmProviderRegistry: Record<string, LLMProviderFactory> = {
+  'gemini': createGeminiLLMProvider,
+  'openai-compatible': createOpenAICompatibleLLMProvider,
+  'scripted': () => createScriptedLLMProvider(),
+  'none': createNoLLMProvider,
+};
+
+// Opções exibidas na UI de seleção de provedor
+export const LLM_PROVIDER_OPTIONS: Array<{ id: LLMProviderId; label: string; requiresBaseUrl: boolean }> = [
+  { id: 'gemini', label: 'Google Gemini (gemini-3-flash-preview)', requiresBaseUrl: false },
+  { id: 'openai-compatible', label: 'OpenAI-Compatible / Ollama (HTTP)', requiresBaseUrl: true },
+  { id: 'scripted', label: 'Roteirizado (Fake Determinístico)', requiresBaseUrl: false },
+  { id: 'none', label: 'Nenhum (heurísticas offline)', requiresBaseUrl: false },
+];
+
+export const registerLLMProvider = (id: LLMProviderId, factory: LLMProviderFactory) => {
+  llmProviderRegistry[id] = factory;
+};
+
+export const createLLMProvider = (config: LLMProviderConfig): LLMProvider => {
+  const factory = llmProviderRegistry[config.providerId];
+  if (!factory) throw new Error(`Provedor de LLM desconhecido: ${config.providerId}`);
+  return factory(config);
+};
+
+// Sem chave Gemini nenhum LLM é assumido: o pipeline degrada para as heurísticas sem tentar a rede.
+// Servidores locais (Ollama) são escolhidos explicitamente no painel "Provedores de IA"
+export const getDefaultLLMConfig = (): LLMProviderConfig =>
+  hasGeminiApiKey()
+    ? { providerId: 'gemini', model: 'gemini-3-flash-preview' }
+    : { providerId: 'none' };
+
+let activeLLMProvider: LLMProvider = createLLMProvider(getDefaultLLMConfig());
+
+export const getActiveLLMProvider = (): LLMProvider => activeLLMProvider;
+
+export const setActiveLLMProvider = (provider: LLMProvider) => {
+  activeLLMProvider = provider;
+};
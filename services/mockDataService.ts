@@ -1,11 +1,15 @@
 
-import { DocumentChunk, EmbeddingVector, ClusterPoint, GraphData, GraphNode, GraphLink, GraphMetrics, EmbeddingModelType } from '../types';
+import { DocumentChunk, EmbeddingVector, ClusterPoint, GraphData, GraphNode, GraphLink, GraphMetrics, GraphLinkType, EmbeddingModelInfo, SimilarityEdgeParams, AliasTable } from '../types';
+import { formatEmbeddingModel } from './embeddingService';
+import { cosineSimilarity } from './cnnRefinementService';
+import { resolveTerm } from './entityResolutionService';
+import { computeModularity } from './communityDetectionService';
 
 // Helper to generate random ID
-const uuid = () => Math.random().toString(36).substring(2, 9);
+export const uuid = () => Math.random().toString(36).substring(2, 9);
 
 // Helper to generate random due date (next 1-14 days)
-const getRandomDueDate = () => {
+export const getRandomDueDate = () => {
   const today = new Date();
   const futureDate = new Date(today);
   futureDate.setDate(today.getDate() + Math.floor(Math.random() * 14) + 1);
@@ -13,7 +17,7 @@ const getRandomDueDate = () => {
 };
 
 // Helper function to identify hierarchy within a window
-const identifyEntityHierarchy = (text: string): { type: string, label: string } => {
+export const identifyEntityHierarchy = (text: string): { type: string, label: string } => {
   const cleanText = text.trim();
   
   // Regexes de alta precisão para capturar o início do bloco
@@ -47,15 +51,21 @@ const identifyEntityHierarchy = (text: string): { type: string, label: string }
 
 // --- 1. Real Chunking Strategy (Deterministic High-Granularity Sliding Window) ---
 // Ajustado para máxima recuperação (High Recall) -> Mais chunks, menores, mais overlap.
-export const processRealPDFsToChunks = (rawDocs: { filename: string, text: string }[]): DocumentChunk[] => {
+// CONFIGURAÇÃO DE ALTA GRANULARIDADE (GraphRAG Needs)
+// 400 chars ~= 60-80 palavras. Ideal para nós de grafo densos.
+// Mínimo reduzido para capturar títulos soltos ou frases curtas importantes
+export const DEFAULT_SLIDING_WINDOW = { windowSize: 400, overlap: 100, minChunkSize: 15 };
+
+export const processRealPDFsToChunks = (
+  rawDocs: { filename: string, text: string }[],
+  config: { windowSize: number, overlap: number, minChunkSize: number } = DEFAULT_SLIDING_WINDOW
+): DocumentChunk[] => {
   const chunks: DocumentChunk[] = [];
   
-  // CONFIGURAÇÃO DE ALTA GRANULARIDADE (GraphRAG Needs)
-  // 400 chars ~= 60-80 palavras. Ideal para nós de grafo densos.
-  const WINDOW_SIZE = 400;  
-  const OVERLAP = 100;      
-  // Mínimo reduzido para capturar títulos soltos ou frases curtas importantes
-  const MIN_CHUNK_SIZE = 15; 
+  const WINDOW_SIZE = config.windowSize;  
+  // Overlap >= janela impediria o cursor de avançar
+  const OVERLAP = Math.min(config.overlap, config.windowSize - 1);      
+  const MIN_CHUNK_SIZE = config.minChunkSize; 
 
   rawDocs.forEach(doc => {
     const filenameSafe = doc.filename.replace(/[^a-zA-Z0-9]/g, '').substring(0, 5);
@@ -119,9 +129,9 @@ export const processRealPDFsToChunks = (rawDocs: { filename: string, text: strin
 };
 
 // --- 2. Embedding Simulation ---
-export const generateEmbeddingsFromChunks = (chunks: DocumentChunk[], modelType: EmbeddingModelType): EmbeddingVector[] => {
-  const dimensions = 768;
-  const modelName = 'Gemini Text-Embedding-004'; // Atualizado
+export const generateEmbeddingsFromChunks = (chunks: DocumentChunk[], model: EmbeddingModelInfo): EmbeddingVector[] => {
+  const dimensions = model.dimensions;
+  const modelName = `${formatEmbeddingModel(model)} [Simulado]`;
 
   return chunks.map(chunk => {
     const seed = chunk.content.length;
@@ -288,7 +298,86 @@ export const generateClustersFromEmbeddings = (embeddings: EmbeddingVector[]): C
 };
 
 // --- 4. Graph Generation ---
-export const generateGraphFromClusters = (clusters: ClusterPoint[]): GraphData => {
+// Métricas topológicas; também atualiza a centralidade de grau de cada nó
+export const computeGraphMetrics = (nodes: GraphNode[], links: GraphLink[]): GraphMetrics => {
+  const edgeCount = links.length;
+  const n = nodes.length;
+  const density = n > 1 ? (2 * edgeCount) / (n * (n - 1)) : 0;
+  
+  const degreeMap: Record<string, number> = {};
+  links.forEach(l => {
+    degreeMap[l.source] = (degreeMap[l.source] || 0) + 1;
+    degreeMap[l.target] = (degreeMap[l.target] || 0) + 1;
+  });
+
+  let totalDegree = 0;
+  nodes.forEach(node => {
+    const deg = degreeMap[node.id] || 0;
+    node.centrality = deg / (n - 1 || 1);
+    totalDegree += deg;
+  });
+
+  const avgDegree = n > 0 ? totalDegree / n : 0;
+
+  // Modularidade de Newman ponderada sobre a partição atual (comunidades ou clusters K-Means)
+  const modularity = computeModularity(nodes, links, nodes.map(node => node.group));
+
+  // Componentes conexos (Union-Find, ignorando a direção das arestas)
+  const parent = new Map(nodes.map(node => [node.id, node.id]));
+  const find = (id: string): string => {
+    while (parent.get(id) !== id) id = parent.get(id)!;
+    return id;
+  };
+  links.forEach(l => {
+    if (parent.has(l.source) && parent.has(l.target)) parent.set(find(l.source), find(l.target));
+  });
+  const connectedComponents = new Set(nodes.map(node => find(node.id))).size;
+
+  const metrics: GraphMetrics = {
+      density,
+      avgDegree,
+      modularity,
+      silhouetteScore: currentSilhouetteScore,
+      totalNodes: n,
+      totalEdges: edgeCount,
+      connectedComponents
+  };
+
+  return metrics;
+};
+
+export const DEFAULT_SIMILARITY_EDGE_PARAMS: SimilarityEdgeParams = { k: 5, threshold: 0.75, mutual: false };
+
+// Vizinhos (índice + cosseno) acima do threshold, ordenados por similaridade e limitados a k quando k > 0
+const computeSimilarityNeighbors = (vectors: (number[] | undefined)[], params: SimilarityEdgeParams): Array<Array<{ idx: number; score: number }>> => {
+  return vectors.map((vecA, i) => {
+      if (!vecA) return [];
+      const candidates: Array<{ idx: number; score: number }> = [];
+      vectors.forEach((vecB, j) => {
+          if (i === j || !vecB) return;
+          const score = cosineSimilarity(vecA, vecB);
+          if (score >= params.threshold) candidates.push({ idx: j, score });
+      });
+      candidates.sort((a, b) => b.score - a.score);
+      return params.k > 0 ? candidates.slice(0, params.k) : candidates;
+  });
+};
+
+// Prioridade na fusão de arestas: relações estruturais explícitas prevalecem sobre inferidas
+const LINK_TYPE_PRIORITY: Record<GraphLinkType, number> = {
+  'co-ocorrencia': 0, 'semantico': 1, 'sequencial': 2, 'hierarquico': 3,
+  'menciona': 4, 'cita': 5, 'revoga': 5, 'altera': 5, 'define': 5, 'obriga': 5
+};
+
+export const generateGraphFromClusters = (
+  clusters: ClusterPoint[],
+  chunks: DocumentChunk[] = [],
+  embeddings: EmbeddingVector[] = [],
+  similarityParams: SimilarityEdgeParams = DEFAULT_SIMILARITY_EDGE_PARAMS,
+  aliasTable: AliasTable | null = null
+): GraphData => {
+  const chunkById = new Map(chunks.map(c => [c.id, c]));
+
   const nodes: GraphNode[] = clusters.map(c => ({
     id: c.id,
     label: c.entityLabel || c.label,
@@ -297,8 +386,12 @@ export const generateGraphFromClusters = (clusters: ClusterPoint[]): GraphData =
     centrality: 0, 
     dueDate: c.dueDate,
     entityType: c.entityType,
-    keywords: c.keywords
+    // Keywords canônicas: "Lei 8.666" e "lei 8666" viram o mesmo token
+    keywords: c.keywords ? Array.from(new Set(c.keywords.map(k => resolveTerm(aliasTable, k)))) : c.keywords,
+    source: chunkById.get(c.id)?.source,
+    parentId: chunkById.get(c.id)?.parentId
   }));
+  const nodeIndexById = new Map(nodes.map((n, idx) => [n.id, idx]));
 
   const nodeKeywordSets = nodes.map(n => 
     new Set(n.keywords?.map(k => k.toLowerCase().trim()) || [])
@@ -314,7 +407,8 @@ export const generateGraphFromClusters = (clusters: ClusterPoint[]): GraphData =
 
   const linksMap = new Map<string, GraphLink>();
 
-  const addLink = (idxA: number, idxB: number, weightBase: number, confidenceBase: number, type: 'semantico' | 'co-ocorrencia' | 'hierarquico') => {
+  // Arestas direcionadas preservam a orientação idxA → idxB (pai → filho, anterior → próximo)
+  const addLink = (idxA: number, idxB: number, weightBase: number, confidenceBase: number, type: GraphLinkType, directed: boolean = false) => {
       if (idxA === idxB) return;
       const key = idxA < idxB ? `${nodes[idxA].id}-${nodes[idxB].id}` : `${nodes[idxB].id}-${nodes[idxA].id}`;
       
@@ -322,19 +416,57 @@ export const generateGraphFromClusters = (clusters: ClusterPoint[]): GraphData =
       if (existing) {
           existing.value = Math.min(1, existing.value + (weightBase * 0.5));
           existing.confidence = Math.min(1, existing.confidence + (confidenceBase * 0.2));
-          if (type === 'hierarquico') existing.type = 'hierarquico';
-          else if (type === 'semantico' && existing.type === 'co-ocorrencia') existing.type = 'semantico';
+          if (LINK_TYPE_PRIORITY[type] > LINK_TYPE_PRIORITY[existing.type]) {
+              existing.type = type;
+              if (directed) {
+                  existing.source = nodes[idxA].id;
+                  existing.target = nodes[idxB].id;
+                  existing.directed = true;
+              }
+          }
       } else {
           linksMap.set(key, {
               source: nodes[idxA].id,
               target: nodes[idxB].id,
               value: weightBase,
               confidence: confidenceBase,
-              type: type
+              type: type,
+              ...(directed ? { directed: true } : {})
           });
       }
   };
 
+  // PHASE 0: Document Structure (Hierarquia normativa + Sequência de leitura)
+  nodes.forEach((node, idx) => {
+      if (!node.parentId) return;
+      const parentIdx = nodeIndexById.get(node.parentId);
+      if (parentIdx !== undefined) addLink(parentIdx, idx, 0.9, 1, 'hierarquico', true);
+  });
+
+  const orderedBySource: Record<string, number[]> = {};
+  chunks.forEach(chunk => {
+      const idx = nodeIndexById.get(chunk.id);
+      if (idx === undefined) return;
+      if (!orderedBySource[chunk.source]) orderedBySource[chunk.source] = [];
+      orderedBySource[chunk.source].push(idx);
+  });
+  Object.values(orderedBySource).forEach(indices => {
+      for (let i = 0; i + 1 < indices.length; i++) addLink(indices[i], indices[i + 1], 0.6, 0.9, 'sequencial', true);
+  });
+
+  // PHASE K: Embedding Similarity (kNN / epsilon-ball sobre os vetores refinados pela CNN)
+  const vectorById = new Map(embeddings.map(e => [e.id, e.vector]));
+  const neighbors = computeSimilarityNeighbors(nodes.map(n => vectorById.get(n.id)), similarityParams);
+  const neighborSets = neighbors.map(list => new Set(list.map(nb => nb.idx)));
+  neighbors.forEach((list, u) => {
+      list.forEach(({ idx: v, score }) => {
+          if (similarityParams.mutual && !neighborSets[v].has(u)) return;
+          // Pares recíprocos são visitados duas vezes; mantém apenas a primeira ocorrência
+          if (v < u && neighborSets[v].has(u)) return;
+          addLink(u, v, score * 0.8, score, 'semantico');
+      });
+  });
+
   // PHASE A: Semantic (Keyword Overlap + Jaccard)
   Object.values(keywordToNodeIndices).forEach(indices => {
       if (indices.length < 2) return;
@@ -395,43 +527,10 @@ export const generateGraphFromClusters = (clusters: ClusterPoint[]): GraphData =
       }
   });
 
-  const links = Array.from(linksMap.values()).filter(l => l.confidence > 0.3);
-  const edgeCount = links.length;
-  const n = nodes.length;
-  const density = n > 1 ? (2 * edgeCount) / (n * (n - 1)) : 0;
-  
-  const degreeMap: Record<string, number> = {};
-  links.forEach(l => {
-    degreeMap[l.source] = (degreeMap[l.source] || 0) + 1;
-    degreeMap[l.target] = (degreeMap[l.target] || 0) + 1;
-  });
-
-  let totalDegree = 0;
-  nodes.forEach(node => {
-    const deg = degreeMap[node.id] || 0;
-    node.centrality = deg / (n - 1 || 1);
-    totalDegree += deg;
-  });
-
-  const avgDegree = n > 0 ? totalDegree / n : 0;
-  let edgesWithinClusters = 0;
-  links.forEach(l => {
-    const sourceGroup = nodes.find(n => n.id === l.source)?.group;
-    const targetGroup = nodes.find(n => n.id === l.target)?.group;
-    if (sourceGroup !== undefined && sourceGroup === targetGroup) edgesWithinClusters++;
-  });
-  
-  const modularity = edgeCount > 0 ? (edgesWithinClusters / edgeCount) - Math.pow(1 / (nodes.length || 1), 2) : 0;
-
-  const metrics: GraphMetrics = {
-      density,
-      avgDegree,
-      modularity,
-      silhouetteScore: currentSilhouetteScore,
-      totalNodes: n,
-      totalEdges: edgeCount,
-      connectedComponents: 1 
-  };
+  // Arestas semânticas já passaram pelo limiar de similaridade configurado (PHASE K) ou de sobreposição (PHASE A);
+  // o corte fixo vale só para a co-ocorrência fraca, como no anexo incremental
+  const links = Array.from(linksMap.values()).filter(l => l.type === 'semantico' || l.confidence > 0.3);
+  const metrics = computeGraphMetrics(nodes, links);
 
-  return { nodes, links, metrics };
+  return { nodes, links, metrics, ...(aliasTable ? { aliases: aliasTable } : {}) };
 };
@@ -0,0 +1,133 @@
+import { PipelineStage, ProjectSnapshot, ProjectSummary } from '../types';
+import { openDatabase, requestResult, transactionDone, isIndexedDBAvailable } from './indexedDbService';
+
+// Projetos nomeados no IndexedDB: o estado do pipeline sobrevive ao refresh e evita pagar de novo por
+// enriquecimento e embeddings. Vetores vão num store próprio como Float32Array (um buffer por projeto).
+
+const DB_NAME = 'graphrag-projects';
+const DB_VERSION = 1;
+const SUMMARY_STORE = 'summaries'; // Listagem rápida no seletor, sem carregar o estado
+const STATE_STORE = 'states';
+const VECTOR_STORE = 'vectors';
+
+interface StoredState {
+  id: string;
+  snapshot: ProjectSnapshot; // embeddings[].vector vazio
+}
+
+interface StoredVectors {
+  id: string;
+  data: Float32Array;   // Vetores concatenados na ordem de snapshot.embeddings
+  offsets: Uint32Array; // offsets[i]..offsets[i+1] delimitam o vetor i
+}
+
+// --- INFRAESTRUTURA ---
+
+export const isProjectStoreAvailable = isIndexedDBAvailable;
+
+const openProjectDatabase = (): Promise<IDBDatabase> => openDatabase(DB_NAME, DB_VERSION, db => {
+  [SUMMARY_STORE, STATE_STORE, VECTOR_STORE].forEach(name => {
+      if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+  });
+});
+
+export const createProjectId = (): string => `prj_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 7)}`;
+
+// --- VETORES ---
+
+export const packVectors = (vectors: number[][]): Omit<StoredVectors, 'id'> => {
+  const offsets = new Uint32Array(vectors.length + 1);
+  vectors.forEach((v, i) => { offsets[i + 1] = offsets[i] + v.length; });
+  const data = new Float32Array(offsets[vectors.length]);
+  vectors.forEach((v, i) => data.set(v, offsets[i]));
+  return { data, offsets };
+};
+
+export const unpackVectors = ({ data, offsets }: Omit<StoredVectors, 'id'>): number[][] =>
+  Array.from({ length: offsets.length - 1 }, (_, i) => Array.from(data.subarray(offsets[i], offsets[i + 1])));
+
+// --- PROJETOS ---
+
+const availableStages = (snapshot: ProjectSnapshot): PipelineStage[] => [
+  PipelineStage.UPLOAD,
+  ...(snapshot.embeddings.length > 0 ? [PipelineStage.EMBEDDINGS] : []),
+  ...(snapshot.clusters.length > 0 ? [PipelineStage.CLUSTERING] : []),
+  ...(snapshot.graphData ? [PipelineStage.GRAPH, PipelineStage.QUERY] : [])
+];
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openProjectDatabase();
+  const summaries = await requestResult<ProjectSummary[]>(db.transaction(SUMMARY_STORE, 'readonly').objectStore(SUMMARY_STORE).getAll());
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+// Checkpoint: grava resumo, estado e (se mudaram) vetores numa única transação
+export const saveProject = async (
+  id: string,
+  name: string,
+  snapshot: ProjectSnapshot,
+  options: { includeVectors: boolean } = { includeVectors: true }
+): Promise<ProjectSummary> => {
+  const db = await openProjectDatabase();
+  const tx = db.transaction([SUMMARY_STORE, STATE_STORE, VECTOR_STORE], 'readwrite');
+  const previous = await requestResult<ProjectSummary | undefined>(tx.objectStore(SUMMARY_STORE).get(id));
+  const now = new Date().toISOString();
+  const summary: ProjectSummary = {
+      id,
+      name,
+      stage: snapshot.stage,
+      availableStages: availableStages(snapshot),
+      chunkCount: snapshot.chunks.length,
+      createdAt: previous?.createdAt || now,
+      updatedAt: now
+  };
+
+  const { apiKey, ...embeddingConfig } = snapshot.embeddingConfig;
+  const stored: StoredState = {
+      id,
+      snapshot: { ...snapshot, embeddingConfig, embeddings: snapshot.embeddings.map(e => ({ ...e, vector: [] })) }
+  };
+
+  tx.objectStore(SUMMARY_STORE).put(summary);
+  tx.objectStore(STATE_STORE).put(stored);
+  if (options.includeVectors) {
+      const vectors: StoredVectors = { id, ...packVectors(snapshot.embeddings.map(e => e.vector)) };
+      tx.objectStore(VECTOR_STORE).put(vectors);
+  }
+  await transactionDone(tx);
+  return summary;
+};
+
+export const loadProject = async (id: string): Promise<{ summary: ProjectSummary; snapshot: ProjectSnapshot }> => {
+  const db = await openProjectDatabase();
+  const tx = db.transaction([SUMMARY_STORE, STATE_STORE, VECTOR_STORE], 'readonly');
+  const [summary, state, vectors] = await Promise.all([
+      requestResult<ProjectSummary | undefined>(tx.objectStore(SUMMARY_STORE).get(id)),
+      requestResult<StoredState | undefined>(tx.objectStore(STATE_STORE).get(id)),
+      requestResult<StoredVectors | undefined>(tx.objectStore(VECTOR_STORE).get(id))
+  ]);
+  if (!summary || !state) throw new Error(`Projeto ${id} não encontrado.`);
+
+  const unpacked = vectors ? unpackVectors(vectors) : [];
+  if (unpacked.length !== state.snapshot.embeddings.length) {
+      throw new Error(`Projeto "${summary.name}" corrompido: ${state.snapshot.embeddings.length} embeddings e ${unpacked.length} vetores.`);
+  }
+  const embeddings = state.snapshot.embeddings.map((e, i) => ({ ...e, vector: unpacked[i] }));
+  return { summary, snapshot: { ...state.snapshot, embeddings } };
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const db = await openProjectDatabase();
+  const tx = db.transaction(SUMMARY_STORE, 'readwrite');
+  const store = tx.objectStore(SUMMARY_STORE);
+  const summary = await requestResult<ProjectSummary | undefined>(store.get(id));
+  if (summary) store.put({ ...summary, name });
+  await transactionDone(tx);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openProjectDatabase();
+  const tx = db.transaction([SUMMARY_STORE, STATE_STORE, VECTOR_STORE], 'readwrite');
+  [SUMMARY_STORE, STATE_STORE, VECTOR_STORE].forEach(name => tx.objectStore(name).delete(id));
+  await transactionDone(tx);
+};
@@ -0,0 +1,130 @@
+import { QueryExpansionParams, LLMJsonSchema } from '../types';
+import { getActiveLLMProvider } from './llmService';
+import { heuristicRewrite } from './cragService';
+import { tokenizePortuguese } from './lexicalSearchService';
+import { stripAccents } from './entityResolutionService';
+
+// Alternativas ao HyDE: multi-query (N paráfrases da pergunta) e decomposição (sub-perguntas de uma pergunta
+// composta). Cada consulta é recuperada de forma independente e as listas são fundidas por RRF.
+
+export const DEFAULT_QUERY_EXPANSION_PARAMS: QueryExpansionParams = { strategy: 'hyde', count: 3 };
+
+export const QUERY_EXPANSION_LABELS: Record<QueryExpansionParams['strategy'], string> = {
+  'hyde': 'HyDE',
+  'multi-query': 'Multi-query',
+  'decomposition': 'Decomposição'
+};
+
+interface LLMQueriesResponse {
+  queries: string[];
+}
+
+const QUERIES_SCHEMA: LLMJsonSchema = {
+    type: 'object',
+    properties: { queries: { type: 'array', items: { type: 'string' } } },
+    required: ['queries']
+};
+
+// Sinônimos normativos usados nas paráfrases sem LLM
+const LEGAL_SYNONYMS: Record<string, string> = {
+  'licitacao': 'certame licitatório',
+  'contrato': 'ajuste administrativo',
+  'prazo': 'período',
+  'multa': 'penalidade',
+  'sancao': 'penalidade',
+  'dispensa': 'contratação direta',
+  'revogacao': 'extinção',
+  'servidor': 'agente público',
+  'obrigacao': 'dever',
+  'empresa': 'pessoa jurídica',
+  'pagamento': 'remuneração',
+  'requisito': 'exigência'
+};
+
+const ARTICLE_LABEL = /\b(?:art(?:igo)?\.?\s*\d+[º°]?|§\s*\d+[º°]?|lei\s+n?[º°]?\s*[\d.]+(?:\/\d+)?)/gi;
+
+// Normaliza para deduplicar consultas que diferem só em caixa, acentos ou pontuação
+const queryKey = (q: string): string => tokenizePortuguese(q).join(' ');
+
+const dedupeQueries = (queries: string[], limit: number): string[] => {
+  const seen = new Set<string>();
+  return queries
+    .map(q => q.trim())
+    .filter(q => {
+        const key = queryKey(q);
+        if (!q || !key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    })
+    .slice(0, limit);
+};
+
+// --- MULTI-QUERY ---
+
+const heuristicParaphrases = (query: string): string[] => {
+  const keywords = heuristicRewrite(query);
+  const synonyms = query.replace(/[A-Za-zÀ-ÿ]+/g, word => LEGAL_SYNONYMS[stripAccents(word).toLowerCase()] || word);
+  // Rótulos normativos que a reescrita por palavras-chave perdeu viram uma consulta própria
+  const labels = (query.match(ARTICLE_LABEL) || []).filter(label => !keywords.includes(label));
+  return [keywords, synonyms, ...(labels.length > 0 ? [`${labels.join(' ')} ${keywords}`] : [])];
+};
+
+export const generateMultiQueries = async (query: string, count: number): Promise<{ queries: string[]; method: 'llm' | 'heuristic' }> => {
+  const heuristic = () => ({ queries: dedupeQueries([query, ...heuristicParaphrases(query)], count + 1), method: 'heuristic' as const });
+  const llm = getActiveLLMProvider();
+
+  // CIRCUIT BREAKER CHECK
+  if (!llm.isAvailable()) return heuristic();
+
+  try {
+    const prompt = `
+      Gere ${count} reformulações distintas da PERGUNTA para busca em um corpus jurídico brasileiro: varie o vocabulário
+      (termos técnicos, sinônimos normativos, linguagem comum) e preserve números de artigos, leis e prazos.
+      PERGUNTA: "${query}"
+    `;
+    const result = await llm.generateJSON<LLMQueriesResponse>(prompt, QUERIES_SCHEMA, { temperature: 0.7 });
+    const queries = dedupeQueries([query, ...(result.queries || []).filter(q => typeof q === 'string')], count + 1);
+    return queries.length > 1 ? { queries, method: 'llm' } : heuristic();
+  } catch (error) {
+    return heuristic();
+  }
+};
+
+// --- DECOMPOSIÇÃO ---
+
+const QUESTION_START = /\s+e\s+(?=(?:qual|quais|como|quando|onde|quem|o que|por ?que|quanto|quantos|quantas)\b)/i;
+const COMPARISON = /diferen[cç]as?\s+entre\s+(.+?)\s+e\s+(.+?)[?.]?$/i;
+
+const heuristicDecomposition = (query: string): string[] => {
+  const comparison = query.match(COMPARISON);
+  if (comparison) return [`O que diz ${comparison[1]}?`, `O que diz ${comparison[2]}?`];
+  return query
+    .split(/[?;]/)
+    .flatMap(part => part.split(QUESTION_START))
+    .map(part => part.trim())
+    .filter(part => tokenizePortuguese(part).length >= 2)
+    .map(part => `${part}?`);
+};
+
+export const decomposeQuery = async (query: string, maxSubQuestions: number): Promise<{ queries: string[]; method: 'llm' | 'heuristic' }> => {
+  // A pergunta original segue junto: ancora a fusão quando a decomposição é ruim
+  const heuristic = () => ({ queries: dedupeQueries([query, ...heuristicDecomposition(query)], maxSubQuestions + 1), method: 'heuristic' as const });
+  const llm = getActiveLLMProvider();
+
+  // CIRCUIT BREAKER CHECK
+  if (!llm.isAvailable()) return heuristic();
+
+  try {
+    const prompt = `
+      Decomponha a PERGUNTA jurídica em até ${maxSubQuestions} sub-perguntas autônomas e mais simples, cada uma
+      respondível por um único dispositivo ou trecho (requisitos, exceções, prazos, sanções, comparações).
+      Se a pergunta já for simples, devolva apenas ela.
+      PERGUNTA: "${query}"
+    `;
+    const result = await llm.generateJSON<LLMQueriesResponse>(prompt, QUERIES_SCHEMA, { temperature: 0 });
+    const queries = dedupeQueries([query, ...(result.queries || []).filter(q => typeof q === 'string')], maxSubQuestions + 1);
+    return { queries, method: 'llm' };
+  } catch (error) {
+    return heuristic();
+  }
+};
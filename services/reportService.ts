@@ -1,17 +1,22 @@
 
-import { DocumentChunk, EmbeddingVector, GraphData, EmbeddingModelType } from '../types';
+import { DocumentChunk, EmbeddingVector, GraphData, EmbeddingModelInfo } from '../types';
+import { formatEmbeddingModel } from './embeddingService';
+import { getTopLevelReports } from './communitySummaryService';
 
 export const generateTechnicalReport = (
     chunks: DocumentChunk[], 
     embeddings: EmbeddingVector[], 
     graphData: GraphData | null,
-    modelType: EmbeddingModelType
+    embeddingModel: EmbeddingModelInfo | null
 ): string => {
     const timestamp = new Date().toLocaleString('pt-BR');
     const hash = Math.random().toString(36).substring(7).toUpperCase();
     
-    // Model Info
-    const modelNameDisplay = 'Gemini Text-Embedding-004 (Standard / 768d)';
+    // Model Info (provedor efetivamente usado; fallbacks locais aparecem em modelUsed)
+    const modelNameDisplay = embeddingModel
+        ? formatEmbeddingModel(embeddingModel)
+        : (embeddings[0]?.modelUsed || 'Modelo não informado');
+    const fallbackCount = embeddings.filter(e => embeddingModel && e.modelUsed !== formatEmbeddingModel(embeddingModel)).length;
     
     // Metrics
     const metrics = graphData?.metrics;
@@ -43,7 +48,7 @@ O objetivo do estudo foi demonstrar a eficácia da topologia de grafos na mitiga
 
 ### 2.1. Arquitetura de Processamento
 1.  **Segmentação:** Chunking hierárquico orientado a estrutura (Artigos/Seções) e não a tokens, preservando integridade semântica.
-2.  **Vetorização:** Utilização do modelo **${modelNameDisplay}** com injeção de metadados no espaço latente.
+2.  **Vetorização:** Utilização do modelo **${modelNameDisplay}** com injeção de metadados no espaço latente.${fallbackCount > 0 ? ` ${fallbackCount} vetores foram gerados por fallback (cota excedida ou erro do provedor).` : ''}
 3.  **Refinamento:** Aplicação de Triplet Loss para ajuste de distâncias intra-classe.
 4.  **Topologia:** Construção de grafo baseada em similaridade híbrida (Jaccard + Overlap + Cosseno).
 
@@ -54,6 +59,15 @@ $$ W(u,v) = \alpha \cdot \text{Overlap}(u,v) + \beta \cdot \text{Jaccard}(u,v) $
 
 Onde $\alpha=0.6$ e $\beta=0.4$, com threshold de corte $\tau > 0.35$.
 
+Complementarmente, arestas **semânticas vetoriais** ligam cada nó aos seus $k$ vizinhos mais próximos no espaço refinado pela Triplet Loss (kNN / epsilon-ball), com confiança igual à similaridade de cosseno $\cos(\vec{u}, \vec{v})$.
+${graphData?.knowledge ? `
+### 2.3. Grafo de Conhecimento (Entidades e Relações)
+Foram extraídas **${graphData.knowledge.entities.length} entidades** (órgãos, leis, pessoas, prazos e conceitos) e **${graphData.knowledge.relations.length} relações tipadas** (cita, revoga, altera, define, obriga), deduplicadas entre chunks e ligadas aos fragmentos de origem por arestas \`menciona\`. Método: ${graphData.knowledge.llmChunks} chunks via LLM e ${graphData.knowledge.heuristicChunks} via fallback heurístico.
+` : ''}${graphData?.aliases ? `
+**Resolução de Entidades:** ${graphData.aliases.entries.reduce((acc, e) => acc + e.aliases.length, 0)} grafias de palavras-chave consolidadas em ${graphData.aliases.entries.length} formas canônicas (normalização PT-BR, parsing de citações legais e fusão fuzzy), aplicadas às arestas semânticas, aos perfis de cluster e às exportações.
+` : ''}
+Além das arestas inferidas, o grafo incorpora arestas **estruturais direcionadas** derivadas do próprio documento: ${graphData?.links.filter(l => l.type === 'hierarquico').length || 0} relações hierárquicas (pai → filho, ex: Capítulo → Art. → §) e ${graphData?.links.filter(l => l.type === 'sequencial').length || 0} relações sequenciais (chunk → próximo chunk da mesma fonte), ambas com confiança determinística.
+
 ---
 
 ## 3. VALIDAÇÃO ESTATÍSTICA E RESULTADOS (STATISTICAL VALIDATION)
@@ -75,7 +89,15 @@ A integridade do grafo gerado foi auditada através das seguintes métricas de r
 | :--- | :--- | :--- |
 | **Modularidade de Newman ($Q$)** | **${metrics?.modularity.toFixed(4) || 0}** | ${(metrics?.modularity || 0) > 0.4 ? 'Estrutura comunitária forte. Alta separabilidade temática.' : 'Estrutura difusa. Sobreposição de tópicos detectada.'} |
 | **Silhouette Score ($S$)** | **${metrics?.silhouetteScore.toFixed(4) || 0}** | ${(metrics?.silhouetteScore || 0) > 0.5 ? 'Clusters coesos e bem definidos.' : 'Fronteiras de decisão ambíguas entre clusters.'} |
+${metrics?.communityAlgorithm ? `
+A modularidade acima é a **$Q$ de Newman ponderada** ($Q = \\frac{1}{2m} \\sum_{ij} (A_{ij} - \\frac{k_i k_j}{2m}) \\delta(c_i, c_j)$) calculada sobre as **${metrics.communityCount} comunidades** detectadas pelo algoritmo **${metrics.communityAlgorithm}** nas arestas ponderadas do grafo${metrics.modularityByLevel && metrics.modularityByLevel.length > 1 ? `, com ${metrics.modularityByLevel.length} níveis hierárquicos (Q por nível: ${metrics.modularityByLevel.map(q => q.toFixed(3)).join(' → ')})` : ''}. O Silhouette Score refere-se aos clusters K-Means do espaço vetorial.
+` : ''}${graphData?.communityReports && graphData.communityReports.length > 0 ? `
+### 3.3. Relatórios de Comunidade
+
+${graphData.communityReports.length} relatórios gerados de baixo para cima sobre a hierarquia de comunidades (níveis superiores resumem os relatórios das subcomunidades). Comunidades de nível mais alto, por nota de importância:
 
+${getTopLevelReports(graphData).slice(0, 5).map(r => `- **${r.title}** (nota ${r.rating.toFixed(1)}, ${r.nodeIds.length} nós, ${r.method === 'llm' ? 'LLM' : 'heurístico'}): ${r.summary.substring(0, 240).replace(/\n/g, ' ')}`).join('\n')}
+` : ''}
 ---
 
 ## 4. ANÁLISE DE CENTRALIDADE (HUBS & AUTHORITIES)
@@ -86,7 +108,7 @@ ${topNodes.map((node, i) => `
 ### Rank #${i + 1}: ${node.label}
 - **Classificação:** \`${node.entityType || 'Entidade Genérica'}\`
 - **Centralidade:** ${node.centrality.toFixed(4)} ($\sigma$)
-- **Cluster de Origem:** Grupo ${node.group}
+- **Cluster de Origem:** Comunidade ${node.group}${node.kmeansClusterId !== undefined ? ` (K-Means ${node.kmeansClusterId})` : ''}
 - **Evidência Textual:** "${node.fullContent.substring(0, 120).replace(/\n/g, ' ')}..."
 `).join('\n')}
 
@@ -0,0 +1,121 @@
+import { RerankParams, RerankedCandidate, LLMJsonSchema } from '../types';
+import { delay } from './geminiClient';
+import { getActiveLLMProvider } from './llmService';
+import { tokenizePortuguese } from './lexicalSearchService';
+
+// Reranking listwise: o pool da fusão híbrida é reordenado em lotes (uma chamada ao LLM por lote, não por
+// chunk) ou por um reranker léxico local; apenas o top-k segue para o CRAG.
+
+export const DEFAULT_RERANK_PARAMS: RerankParams = { method: 'llm', poolSize: 30, batchSize: 10 };
+
+const PASSAGE_CHARS = 1200; // O juiz binário via só 500 caracteres
+
+export interface RerankInput {
+  id: string;
+  text: string;
+  previousRank: number;
+}
+
+interface LLMRerankResponse {
+  scores: Array<{ id: string; score: number }>;
+}
+
+const RERANK_SCHEMA: LLMJsonSchema = {
+    type: 'object',
+    properties: {
+        scores: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { id: { type: 'string' }, score: { type: 'number' } },
+                required: ['id', 'score']
+            }
+        }
+    },
+    required: ['scores']
+};
+
+// --- RERANKER LOCAL (fallback) ---
+
+const bigrams = (tokens: string[]): string[] => tokens.slice(1).map((t, i) => `${tokens[i]} ${t}`);
+
+// Cobertura dos termos da pergunta (números de artigo/lei pesam o dobro) e fração de bigramas exatos
+export const queryCoverage = (query: string, text: string): { coverage: number; phrase: number } => {
+  const queryTokens = Array.from(new Set(tokenizePortuguese(query)));
+  if (queryTokens.length === 0) return { coverage: 0, phrase: 0 };
+
+  const passageTokens = tokenizePortuguese(text);
+  const passageSet = new Set(passageTokens);
+  const weightOf = (t: string) => (/\d/.test(t) ? 2 : 1);
+  const totalWeight = queryTokens.reduce((acc, t) => acc + weightOf(t), 0);
+  const coverage = queryTokens.filter(t => passageSet.has(t)).reduce((acc, t) => acc + weightOf(t), 0) / totalWeight;
+
+  const queryBigrams = bigrams(tokenizePortuguese(query));
+  const passageBigrams = new Set(bigrams(passageTokens));
+  const phrase = queryBigrams.length > 0 ? queryBigrams.filter(b => passageBigrams.has(b)).length / queryBigrams.length : 0;
+  return { coverage, phrase };
+};
+
+// Cobertura + bigramas + prior da fusão (desempata perguntas sem termos úteis)
+export const localRerankScore = (query: string, text: string, previousRank: number, poolSize: number): number => {
+  const prior = 1 - (previousRank - 1) / Math.max(1, poolSize);
+  if (tokenizePortuguese(query).length === 0) return prior;
+  const { coverage, phrase } = queryCoverage(query, text);
+  return 0.6 * coverage + 0.25 * phrase + 0.15 * prior;
+};
+
+const rerankBatchLocally = (query: string, batch: RerankInput[], poolSize: number) =>
+  batch.map(c => ({ id: c.id, score: localRerankScore(query, c.text, c.previousRank, poolSize), method: 'local' as const }));
+
+const rerankBatchWithLLM = async (query: string, batch: RerankInput[], poolSize: number) => {
+  const llm = getActiveLLMProvider();
+
+  // CIRCUIT BREAKER CHECK
+  if (!llm.isAvailable()) return rerankBatchLocally(query, batch, poolSize);
+
+  try {
+    const prompt = `
+      Você é um reranker jurídico. Avalie o quanto cada passagem responde à PERGUNTA.
+      PERGUNTA: "${query}"
+      PASSAGENS:
+      ${batch.map(c => `[${c.id}] ${c.text.slice(0, PASSAGE_CHARS)}`).join('\n\n')}
+
+      TASK: para CADA id entre colchetes, score de 0 (irrelevante) a 10 (responde diretamente). Compare as passagens entre si.
+    `;
+    const result = await llm.generateJSON<LLMRerankResponse>(prompt, RERANK_SCHEMA, { temperature: 0 });
+    const byId = new Map((result.scores || []).map(s => [s.id, Number(s.score)]));
+    // Passagens omitidas pelo LLM recebem o score local, sem descartar o lote inteiro
+    return batch.map(c => {
+        const score = byId.get(c.id);
+        return score !== undefined && !isNaN(score)
+          ? { id: c.id, score: Math.min(1, Math.max(0, score / 10)), method: 'llm' as const }
+          : rerankBatchLocally(query, [c], poolSize)[0];
+    });
+  } catch (error) {
+    return rerankBatchLocally(query, batch, poolSize);
+  }
+};
+
+export const rerankCandidates = async (
+  query: string,
+  candidates: RerankInput[],
+  params: RerankParams = DEFAULT_RERANK_PARAMS
+): Promise<RerankedCandidate[]> => {
+  const pool = candidates.slice(0, params.poolSize);
+  const scored: Array<{ id: string; score: number; method: 'llm' | 'local' }> = [];
+
+  for (let i = 0; i < pool.length; i += params.batchSize) {
+      const batch = pool.slice(i, i + params.batchSize);
+      if (params.method === 'local') {
+          scored.push(...rerankBatchLocally(query, batch, pool.length));
+          continue;
+      }
+      scored.push(...await rerankBatchWithLLM(query, batch, pool.length));
+      if (i + params.batchSize < pool.length && getActiveLLMProvider().isAvailable()) await delay(500);
+  }
+
+  const previousRank = new Map(pool.map(c => [c.id, c.previousRank]));
+  return scored
+    .sort((a, b) => (b.score - a.score) || (previousRank.get(a.id)! - previousRank.get(b.id)!))
+    .map((s, i) => ({ ...s, rank: i + 1, previousRank: previousRank.get(s.id)! }));
+};
@@ -0,0 +1,158 @@
+// Zip mínimo para os pacotes de projeto: escrita sem compressão (store) e leitura de store/deflate.
+// Vetores em Float32 praticamente não comprimem, então o store basta e dispensa dependências.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const ZIP_VERSION = 20;          // 2.0: suficiente para store/deflate sem zip64
+const UTF8_FLAG = 0x0800;        // Nomes de arquivo em UTF-8
+const ENCRYPTED_FLAG = 0x0001;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const MAX_ZIP32_SIZE = 0xffffffff;
+
+// --- CRC-32 ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Data/hora no formato MS-DOS exigido pelos cabeçalhos
+const dosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: (Math.max(0, date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+// --- ESCRITA ---
+
+export const createZip = (entries: ZipEntry[], modified: Date = new Date()): Uint8Array => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const records = entries.map(entry => ({ ...entry, nameBytes: encoder.encode(entry.name), crc: crc32(entry.data) }));
+
+  const localSize = records.reduce((sum, r) => sum + 30 + r.nameBytes.length + r.data.length, 0);
+  const centralSize = records.reduce((sum, r) => sum + 46 + r.nameBytes.length, 0);
+  if (localSize + centralSize + END_OF_CENTRAL_DIRECTORY_SIZE > MAX_ZIP32_SIZE) throw new Error('Pacote excede 4 GB (zip64 não suportado).');
+
+  const output = new Uint8Array(localSize + centralSize + END_OF_CENTRAL_DIRECTORY_SIZE);
+  const view = new DataView(output.buffer);
+  const offsets: number[] = [];
+  let pos = 0;
+
+  records.forEach(r => {
+      offsets.push(pos);
+      view.setUint32(pos, LOCAL_HEADER_SIGNATURE, true);
+      view.setUint16(pos + 4, ZIP_VERSION, true);
+      view.setUint16(pos + 6, UTF8_FLAG, true);
+      view.setUint16(pos + 8, METHOD_STORE, true);
+      view.setUint16(pos + 10, time, true);
+      view.setUint16(pos + 12, date, true);
+      view.setUint32(pos + 14, r.crc, true);
+      view.setUint32(pos + 18, r.data.length, true);
+      view.setUint32(pos + 22, r.data.length, true);
+      view.setUint16(pos + 26, r.nameBytes.length, true);
+      view.setUint16(pos + 28, 0, true);
+      output.set(r.nameBytes, pos + 30);
+      output.set(r.data, pos + 30 + r.nameBytes.length);
+      pos += 30 + r.nameBytes.length + r.data.length;
+  });
+
+  const centralOffset = pos;
+  records.forEach((r, i) => {
+      view.setUint32(pos, CENTRAL_HEADER_SIGNATURE, true);
+      view.setUint16(pos + 4, ZIP_VERSION, true);
+      view.setUint16(pos + 6, ZIP_VERSION, true);
+      view.setUint16(pos + 8, UTF8_FLAG, true);
+      view.setUint16(pos + 10, METHOD_STORE, true);
+      view.setUint16(pos + 12, time, true);
+      view.setUint16(pos + 14, date, true);
+      view.setUint32(pos + 16, r.crc, true);
+      view.setUint32(pos + 20, r.data.length, true);
+      view.setUint32(pos + 24, r.data.length, true);
+      view.setUint16(pos + 28, r.nameBytes.length, true);
+      // Extra, comentário, disco e atributos ficam zerados
+      view.setUint32(pos + 42, offsets[i], true);
+      output.set(r.nameBytes, pos + 46);
+      pos += 46 + r.nameBytes.length;
+  });
+
+  view.setUint32(pos, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  view.setUint16(pos + 8, records.length, true);
+  view.setUint16(pos + 10, records.length, true);
+  view.setUint32(pos + 12, pos - centralOffset, true);
+  view.setUint32(pos + 16, centralOffset, true);
+  return output;
+};
+
+// --- LEITURA ---
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  if (typeof DecompressionStream === 'undefined') throw new Error('Arquivo comprimido (deflate) não suportado neste navegador; exporte novamente sem compressão.');
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const readZip = async (bytes: Uint8Array): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // O registro final pode ser seguido de um comentário de até 64 KB
+  let end = -1;
+  for (let i = bytes.length - END_OF_CENTRAL_DIRECTORY_SIZE; i >= Math.max(0, bytes.length - END_OF_CENTRAL_DIRECTORY_SIZE - 0xffff); i--) {
+      if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) { end = i; break; }
+  }
+  if (end === -1) throw new Error('Arquivo não é um zip válido.');
+
+  const entryCount = view.getUint16(end + 10, true);
+  let pos = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < entryCount; i++) {
+      if (pos + 46 > bytes.length || view.getUint32(pos, true) !== CENTRAL_HEADER_SIGNATURE) throw new Error('Diretório central do zip corrompido.');
+      const flags = view.getUint16(pos + 8, true);
+      const method = view.getUint16(pos + 10, true);
+      const crc = view.getUint32(pos + 16, true);
+      const compressedSize = view.getUint32(pos + 20, true);
+      const nameLength = view.getUint16(pos + 28, true);
+      const extraLength = view.getUint16(pos + 30, true);
+      const commentLength = view.getUint16(pos + 32, true);
+      const localOffset = view.getUint32(pos + 42, true);
+      const name = decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength));
+      pos += 46 + nameLength + extraLength + commentLength;
+
+      if (name.endsWith('/')) continue;
+      if (flags & ENCRYPTED_FLAG) throw new Error(`Entrada criptografada não suportada: ${name}`);
+      if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) throw new Error(`Cabeçalho local corrompido: ${name}`);
+
+      // Tamanhos vêm do diretório central (o local pode estar zerado quando há data descriptor)
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      if (dataStart + compressedSize > bytes.length) throw new Error(`Entrada truncada: ${name}`);
+      const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+      let data: Uint8Array;
+      if (method === METHOD_STORE) data = raw;
+      else if (method === METHOD_DEFLATE) data = await inflateRaw(raw);
+      else throw new Error(`Método de compressão ${method} não suportado: ${name}`);
+
+      if (crc32(data) !== crc) throw new Error(`CRC inválido em ${name}: arquivo corrompido.`);
+      files.set(name, data);
+  }
+  return files;
+};
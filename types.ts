@@ -7,7 +7,112 @@ export enum PipelineStage {
   QUERY = 'QUERY' // Nova etapa real de inferência
 }
 
-export type EmbeddingModelType = 'text-embedding-004';
+// Provedores de Embedding suportados (registry em services/embeddingService.ts)
+export type EmbeddingProviderId = 'gemini' | 'openai-compatible' | 'local-ngram';
+
+export interface EmbeddingProviderConfig {
+  providerId: EmbeddingProviderId;
+  model?: string;      // Ex: text-embedding-004, nomic-embed-text
+  baseUrl?: string;    // Endpoint OpenAI-compatible (ex: http://localhost:11434/v1)
+  apiKey?: string;
+  dimensions?: number; // Obrigatório apenas para o embedder local
+}
+
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId;
+  name: string;        // Nome de exibição usado em relatório e exportações
+  model: string;
+  dimensions: number;  // Atualizado após a primeira resposta em provedores remotos
+  embed: (texts: string[]) => Promise<number[][]>;
+}
+
+// Descrição serializável do modelo efetivamente usado na vetorização
+export interface EmbeddingModelInfo {
+  providerId: EmbeddingProviderId;
+  name: string;
+  model: string;
+  dimensions: number;
+}
+
+// Provedores de LLM suportados (registry em services/llmService.ts)
+export type LLMProviderId = 'gemini' | 'openai-compatible' | 'scripted' | 'none';
+
+export interface LLMProviderConfig {
+  providerId: LLMProviderId;
+  model?: string;      // Ex: gemini-3-flash-preview, llama3.1
+  baseUrl?: string;    // Endpoint OpenAI-compatible / Ollama (ex: http://localhost:11434/v1)
+  apiKey?: string;
+}
+
+// Subconjunto de JSON Schema aceito por Gemini (responseJsonSchema) e OpenAI (json_schema)
+export type LLMJsonSchema = Record<string, any>;
+
+export interface LLMGenerateOptions {
+  temperature?: number;
+  systemInstruction?: string;
+  signal?: AbortSignal; // Cancelamento (botão "Parar" do RAG Lab)
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  name: string;
+  model: string;
+  isAvailable: () => boolean; // false quando o Circuit Breaker do provedor está aberto
+  generateText: (prompt: string, options?: LLMGenerateOptions) => Promise<string>;
+  generateJSON: <T>(prompt: string, schema: LLMJsonSchema, options?: LLMGenerateOptions) => Promise<T>;
+  // Streaming: onToken recebe cada fragmento; resolve com o texto completo
+  streamText: (prompt: string, onToken: (delta: string) => void, options?: LLMGenerateOptions) => Promise<string>;
+  // Tool calling: null quando o modelo responde em texto em vez de chamar uma ferramenta
+  generateToolCall: (prompt: string, tools: LLMToolDefinition[], options?: LLMGenerateOptions) => Promise<LLMToolCall | null>;
+}
+
+// Ferramentas expostas ao LLM (function calling no Gemini, "tools" nos servidores OpenAI-compatible)
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: LLMJsonSchema;
+}
+
+export interface LLMToolCall {
+  name: string;
+  args: Record<string, any>;
+}
+
+// Estratégias de Chunking (registry em services/chunkingService.ts)
+export type ChunkingStrategyId = 'fixed-window' | 'sentence' | 'paragraph' | 'recursive-character' | 'structure-aware' | 'semantic-breakpoint';
+
+export type ChunkingParams = Record<string, number>;
+
+export interface ChunkingParameterSpec {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+}
+
+export interface ChunkingStrategy {
+  id: ChunkingStrategyId;
+  name: string;
+  description: string;
+  parameters: ChunkingParameterSpec[];
+  // Assíncrono porque a estratégia semântica depende de embeddings; onWarning reporta degradações (ex: fallback local)
+  chunk: (
+    docs: { filename: string, text: string }[],
+    params: ChunkingParams,
+    embeddingProvider?: EmbeddingProvider,
+    onWarning?: (message: string) => void
+  ) => Promise<DocumentChunk[]>;
+}
+
+export interface ChunkingStats {
+  chunkCount: number;
+  avgTokens: number;
+  minTokens: number;
+  maxTokens: number;
+  histogram: Array<{ range: string; count: number }>; // Distribuição de tokens por faixa
+}
 
 export interface CNNHyperParameters {
   margin: number;       // Margem para Triplet Loss (ex: 0.2)
@@ -34,6 +139,9 @@ export interface DocumentChunk {
   entityType?: string; // Ex: ARTIGO, CAPITULO, INCISO, TEXTO
   entityLabel?: string; // Ex: Art. 1º, Cap. II, Introdução
   keywords?: string[]; // Entidades identificadas por IA
+  parentId?: string; // Chunk pai na hierarquia normativa (Lei → Capítulo → Art. → § → Inciso → Alínea)
+  hierarchyPath?: string[]; // Rótulos da raiz até o chunk (ex: ["Lei nº 8.666", "CAPÍTULO I", "Art. 1º"])
+  hierarchyLevel?: number; // Profundidade na hierarquia (0 = documento)
 }
 
 export interface EmbeddingVector {
@@ -61,8 +169,12 @@ export interface ClusterPoint {
   keywords?: string[];
 }
 
+// Grafo de conhecimento: nós de chunk (texto) e nós de entidade extraídos por LLM/heurística
+export type GraphNodeKind = 'chunk' | 'entity';
+
 export interface GraphNode {
   id: string;
+  kind?: GraphNodeKind; // Ausente = 'chunk'
   label: string;
   group: number;
   fullContent: string;
@@ -70,30 +182,240 @@ export interface GraphNode {
   dueDate?: string;
   entityType?: string;
   keywords?: string[];
+  source?: string; // Documento de origem do chunk
+  parentId?: string; // Nó pai na hierarquia normativa
+  kmeansClusterId?: number; // Cluster K-Means original (group passa a ser a comunidade detectada)
+  communityLevels?: number[]; // Comunidade em cada nível hierárquico (0 = mais fino)
 }
 
+export type KGEntityType = 'ORGAO' | 'LEI' | 'PESSOA' | 'PRAZO' | 'CONCEITO';
+export type KGRelationType = 'cita' | 'revoga' | 'altera' | 'define' | 'obriga';
+
+// menciona: chunk → entidade | KGRelationType: entidade → entidade
+export type GraphLinkType = 'semantico' | 'co-ocorrencia' | 'hierarquico' | 'sequencial' | 'menciona' | KGRelationType;
+
 export interface GraphLink {
   source: string;
   target: string;
   value: number; // Peso da aresta (Physics pull)
   confidence: number; // Confiança na relação (0-1)
-  type: 'semantico' | 'co-ocorrencia' | 'hierarquico';
+  type: GraphLinkType;
+  directed?: boolean; // hierarquico: pai → filho | sequencial: chunk → próximo chunk
+}
+
+export interface KGEntity {
+  id: string;
+  name: string;
+  type: KGEntityType;
+  mentions: string[]; // IDs dos chunks que citam a entidade
+}
+
+export interface KGRelation {
+  source: string; // ID da entidade
+  target: string;
+  type: KGRelationType;
+  chunkId: string; // Chunk de onde a relação foi extraída
+  confidence: number;
+  evidence?: string;
+}
+
+export interface KnowledgeExtraction {
+  entities: KGEntity[];
+  relations: KGRelation[];
+  llmChunks: number;       // Chunks processados pelo LLM
+  heuristicChunks: number; // Chunks processados pelo fallback heurístico
+}
+
+// Arestas por similaridade de embedding (kNN / epsilon-ball) na construção do grafo
+export interface SimilarityEdgeParams {
+  k: number;         // Vizinhos por nó (0 = apenas epsilon-ball pelo threshold)
+  threshold: number; // Cosseno mínimo para criar aresta
+  mutual: boolean;   // Exige que u ∈ kNN(v) e v ∈ kNN(u)
+}
+
+// Expansão de contexto no grafo durante o RAG (services/graphTraversalService.ts)
+export type GraphExpansionMethod = 'ppr' | 'bfs';
+
+export interface GraphExpansionParams {
+  method: GraphExpansionMethod; // PageRank personalizado ou BFS ponderada
+  maxHops: number;              // Distância máxima a partir das sementes
+  damping: number;              // PPR: probabilidade de continuar a caminhada (1 - reinício)
+  edgeTypes: GraphLinkType[];   // Tipos de aresta percorríveis
+  tokenBudget: number;          // Orçamento (palavras) para os trechos adicionados
+}
+
+export interface ExpandedContextNode {
+  nodeId: string;
+  label: string;
+  score: number;
+  hops: number;
+  path: string[];               // Rótulos da semente até o nó
+  pathTypes: GraphLinkType[];   // Tipo de cada aresta do caminho
+  tokens: number;
+}
+
+export interface GraphExpansionResult {
+  nodes: ExpandedContextNode[];
+  candidates: number;  // Nós alcançáveis antes do corte por orçamento
+  usedTokens: number;
+}
+
+// Recuperação híbrida léxica + vetorial (services/lexicalSearchService.ts)
+export type RankFusionMethod = 'rrf' | 'weighted';
+
+export interface HybridRetrievalParams {
+  fusion: RankFusionMethod;  // Reciprocal Rank Fusion ou soma ponderada de scores normalizados
+  vectorWeight: number;
+  lexicalWeight: number;
+  rrfK: number;              // Constante do RRF: 1 / (k + rank)
+  poolSize: number;          // Candidatos por ranking antes da fusão
+  topK: number;              // Candidatos entregues ao CRAG
+}
+
+export interface HybridCandidate {
+  id: string;
+  vectorRank: number | null;   // 1-based; null = fora do pool vetorial
+  lexicalRank: number | null;  // 1-based; null = sem termos em comum (BM25 = 0)
+  vectorScore: number;
+  lexicalScore: number;
+  fusedScore: number;
+  fusedRank: number;
+}
+
+// Reranking entre a recuperação e o CRAG (services/rerankService.ts)
+// Expansão da consulta antes da recuperação (services/queryExpansionService.ts)
+export type QueryExpansionStrategy = 'hyde' | 'multi-query' | 'decomposition';
+
+export interface QueryExpansionParams {
+  strategy: QueryExpansionStrategy;
+  count: number;  // Paráfrases (multi-query) ou máximo de sub-perguntas (decomposição)
+}
+
+export type RerankMethod = 'llm' | 'local' | 'none';
+
+export interface RerankParams {
+  method: RerankMethod;  // LLM listwise em lotes, reranker léxico local ou desligado
+  poolSize: number;      // Candidatos da fusão enviados ao reranker
+  batchSize: number;     // Passagens por chamada listwise
+}
+
+export interface RerankedCandidate {
+  id: string;
+  score: number;          // 0-1
+  rank: number;           // 1-based, após o reranking
+  previousRank: number;   // Rank na fusão híbrida
+  method: 'llm' | 'local';
+}
+
+// Candidato recuperado no Lab RAG (fusão híbrida → reranking → CRAG)
+export interface RetrievalCandidate {
+  id: string;
+  score: number;
+  content: string;
+  label?: string;
+  ranks: string;  // Rastro dos ranks (vetor | BM25 | rerank) exibido no trace
+}
+
+// CRAG completo (services/cragService.ts): avaliação → Correto / Incorreto / Ambíguo
+export type CRAGAction = 'correct' | 'incorrect' | 'ambiguous';
+
+export interface CRAGParams {
+  upperThreshold: number;  // Algum chunk acima → Correto
+  lowerThreshold: number;  // Todos abaixo → Incorreto; entre os limiares → Ambíguo
+  stripThreshold: number;  // Relevância mínima de uma faixa (strip) no refinamento
+}
+
+// Faixa de conhecimento (1-3 frases) mantida pelo refinamento
+export interface KnowledgeStrip {
+  sourceId: string;
+  sourceLabel: string;
+  text: string;
+  score: number;
+}
+
+// Base local que substitui a busca web no ramo Incorreto
+export interface ExternalDocument {
+  id: string;
+  title: string;
+  text: string;
+}
+
+// Detecção de comunidades (services/communityDetectionService.ts)
+export type CommunityAlgorithm = 'louvain' | 'leiden';
+
+export interface CommunityDetectionParams {
+  algorithm: CommunityAlgorithm;
+  resolution: number; // γ: valores > 1 geram comunidades menores
+}
+
+export interface CommunityDetectionResult {
+  algorithm: CommunityAlgorithm;
+  resolution: number;
+  levels: number[][];          // Por nível: comunidade de cada nó (ordem de GraphData.nodes)
+  modularityByLevel: number[]; // Q de Newman (γ = 1) de cada nível
 }
 
 export interface GraphMetrics {
   density: number;
   avgDegree: number;
-  modularity: number; // Estimado
+  modularity: number; // Q de Newman ponderado sobre a partição em GraphNode.group
   silhouetteScore: number;
   totalNodes: number;
   totalEdges: number;
   connectedComponents: number;
+  communityCount?: number;
+  communityAlgorithm?: string; // Ex: "Leiden (γ=1.00)"
+  modularityByLevel?: number[];
 }
 
 export interface GraphData {
   nodes: GraphNode[];
   links: GraphLink[];
   metrics?: GraphMetrics;
+  knowledge?: KnowledgeExtraction; // Entidades e relações anexadas ao grafo
+  aliases?: AliasTable; // Tabela canônica usada na construção (keywords e entidades)
+  communities?: CommunityDetectionResult;
+  communityReports?: CommunityReport[]; // Resumos hierárquicos para busca global
+}
+
+// Relatórios de comunidade (services/communitySummaryService.ts), gerados de baixo para cima nos níveis
+export interface CommunityFinding {
+  summary: string;
+  explanation: string;
+}
+
+export interface CommunityReport {
+  id: string;            // cr_L{nível}_C{comunidade}
+  level: number;         // 0 = nível mais fino
+  communityId: number;   // Índice da comunidade em CommunityDetectionResult.levels[level]
+  title: string;
+  summary: string;
+  keyEntities: string[];
+  findings: CommunityFinding[];
+  rating: number;        // Importância 0-10
+  ratingExplanation: string;
+  nodeIds: string[];
+  childIds: string[];    // Relatórios do nível inferior que compõem esta comunidade
+  method: 'llm' | 'heuristic';
+}
+
+// Resolução de Entidades (services/entityResolutionService.ts)
+export interface AliasEntry {
+  canonical: string;  // Forma de exibição (ex: "Lei nº 8.666/1993")
+  aliases: string[];  // Grafias encontradas no corpus
+  kind: 'citacao-legal' | 'termo';
+  occurrences: number;
+}
+
+export interface AliasTable {
+  entries: AliasEntry[];
+  lookup: Record<string, string>; // Chave canônica normalizada → forma canônica
+}
+
+export interface EntityMergeSuggestion {
+  keep: string;  // Forma canônica mantida
+  merge: string; // Forma canônica absorvida
+  score: number; // Cosseno entre os embeddings das duas formas
 }
 
 // Novos tipos para Análise de Cluster
@@ -112,15 +434,151 @@ export interface ClusterSimilarity {
 }
 
 // Tipos para RAG Inference
+// Modos de consulta do Lab RAG: local (HyDE + CRAG + grafo), global (map-reduce sobre relatórios de
+// comunidade), híbrido (local + pontos globais) e naive (apenas similaridade vetorial)
+export type RAGSearchMode = 'local' | 'global' | 'hybrid' | 'naive' | 'agentic';
+
+// Ponto parcial produzido na fase MAP da busca global (services/globalSearchService.ts)
+export interface GlobalSearchPoint {
+  description: string;
+  score: number;        // Utilidade para a pergunta, 0-100
+  reportIds: string[];  // Relatórios de comunidade que sustentam o ponto
+}
+
 export interface RAGStepLog {
-  step: 'HYDE' | 'RETRIEVAL' | 'CRAG' | 'GRAPHRAG' | 'GENERATION';
+  step: 'HYDE' | 'EXPAND' | 'RETRIEVAL' | 'RERANK' | 'CRAG' | 'REFINE' | 'REWRITE' | 'EXTERNAL' | 'GRAPHRAG' | 'MAP' | 'REDUCE' | 'GENERATION' | 'VERIFY' | 'CONDENSE' | 'AGENT';
   description: string;
   data?: any;
+  scores?: Array<{ label: string; score: number }>; // Scores por candidato (ex: reranking)
   status: 'success' | 'warning' | 'error';
 }
 
+// Trecho do contexto de geração; a resposta cita o n-ésimo trecho como [n]
+export interface ContextPassage {
+  kind: 'chunk' | 'external' | 'community';
+  sourceId: string;  // DocumentChunk.id / GraphNode.id, ExternalDocument.id ou 'global'
+  label: string;     // entityLabel ou título
+  source?: string;   // Documento de origem do chunk
+  text: string;
+}
+
+export interface AnswerCitation {
+  ref: number;               // Número citado na resposta (1-based)
+  valid: boolean;            // false = [n] sem trecho correspondente no contexto
+  passage?: ContextPassage;
+}
+
+// Agente do RAG Lab (services/agentService.ts): o LLM escolhe a próxima ferramenta até responder ou esgotar o orçamento
+export interface AgentParams {
+  maxSteps: number;
+}
+
+export interface AgentStep {
+  step: number;
+  tool: string;
+  args: Record<string, any>;
+  reason?: string;
+  observation: string;
+  passages: number;            // Trechos novos acrescentados ao contexto
+  method: 'llm' | 'rules';     // Decisão do LLM ou da política de regras (sem LLM)
+}
+
+// Verificação de fidelidade pós-geração (services/faithfulnessService.ts)
+export interface ClaimCheck {
+  claim: string;
+  supported: boolean;
+  score: number;          // 0-1: grau de suporte no contexto
+  evidenceRef?: number;   // [n] do trecho que sustenta a afirmação
+  method: 'llm' | 'heuristic';
+}
+
+export interface FaithfulnessReport {
+  claims: ClaimCheck[];
+  score: number;          // Fração de afirmações sustentadas
+  regenerated: boolean;   // Resposta regerada após verificação abaixo do mínimo
+}
+
+export interface FaithfulnessParams {
+  enabled: boolean;
+  minScore: number;       // Abaixo disso a resposta é marcada como pouco fiel (e regerada, se habilitado)
+  regenerate: boolean;
+}
+
+// Memória conversacional (services/conversationService.ts): mensagens antigas viram um resumo incremental
+export interface ConversationMemory {
+  summary: string;
+  summarizedCount: number; // Mensagens do histórico já incorporadas ao resumo
+}
+
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: string;
+  citations?: AnswerCitation[]; // Apenas respostas fundamentadas
+  faithfulness?: FaithfulnessReport;
+  standaloneQuery?: string; // Pergunta do usuário após a condensação (seguimentos encadeados)
+}
+
+// Projetos persistidos no IndexedDB (services/projectStoreService.ts)
+export interface ProjectSnapshot {
+  stage: PipelineStage;
+  rawDocs: { filename: string, text: string }[];
+  totalCharsExtracted: number;
+  chunkingStrategyId: ChunkingStrategyId;
+  aiEnhanced: boolean;
+  chunks: DocumentChunk[];
+  embeddings: EmbeddingVector[]; // Vetores gravados à parte, como Float32Array
+  embeddingConfig: EmbeddingProviderConfig; // Sem apiKey
+  embeddingModel: EmbeddingModelInfo | null;
+  clusters: ClusterPoint[];
+  graphData: GraphData | null;
+  acceptedMerges: EntityMergeSuggestion[];
+  chatHistory: ChatMessage[];
+  conversationMemory: ConversationMemory;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  stage: PipelineStage;
+  availableStages: PipelineStage[]; // Etapas com dados salvos (reabríveis no seletor)
+  chunkCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Pacote portátil do projeto (services/bundleService.ts): manifesto JSON + vetores binários num zip
+export interface PipelineConfigSnapshot {
+  chunkingParams: Partial<Record<ChunkingStrategyId, ChunkingParams>>;
+  cnnParams: CNNHyperParameters;
+  similarityEdgeParams: SimilarityEdgeParams;
+  communityParams: CommunityDetectionParams;
+  extractEntities: boolean;
+}
+
+export interface ProjectBundle {
+  name: string;
+  createdAt: string;
+  sourceVersion: number; // Versão do formato no arquivo, antes da migração
+  snapshot: ProjectSnapshot;
+  pipeline: Partial<PipelineConfigSnapshot>; // Seções ausentes mantêm a configuração atual
+  trainingMetrics: TrainingMetrics | null;
+}
+
+// Atualização incremental do corpus (services/incrementalUpdateService.ts)
+export interface CorpusChangeSummary {
+  added: string[];     // Documentos novos (por nome de arquivo)
+  changed: string[];   // Mesmo nome, hash de conteúdo diferente
+  removed: string[];
+  unchanged: string[];
+  chunksAdded: number;
+  chunksRemoved: number;
+  nodesAdded: number;
+  nodesRemoved: number;
+  linksAdded: number;
+  linksRemoved: number;
+  affectedCommunities: number[]; // Comunidades (nível mais alto) que ganharam ou perderam nós
+  staleReports: number;          // Relatórios de comunidade a regenerar
+  warnings: string[];
+  timestamp: string;
 }